@@ -0,0 +1,72 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import { buildCalendarFeed } from '@/lib/icalendar';
+import { addDays, getTodayInTimezone } from '@/lib/timezone';
+import { getEnabledPlatforms, getWorkspaceTimezone } from '@/lib/workspaceSettings';
+import type { Post, WorkspaceSettings } from '@/types';
+
+// Past posts kept in the feed, so recent history stays visible
+const FEED_PAST_DAYS = 90;
+
+// Compared as bytes: strings of equal length can differ in byte length
+function isTokenValid(given: string, expected: string | undefined): boolean {
+  if (!expected) return false;
+  const givenBytes = Buffer.from(given);
+  const expectedBytes = Buffer.from(expected);
+  return (
+    givenBytes.length === expectedBytes.length && timingSafeEqual(givenBytes, expectedBytes)
+  );
+}
+
+/**
+ * Calendar subscription feed. Calendar apps can't sign in, so the secret
+ * token from the workspace settings authenticates the request.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const { workspaceId } = await params;
+    const token = request.nextUrl.searchParams.get('token') || '';
+
+    const db = getAdminDb();
+    const workspaceRef = db.collection('workspaces').doc(workspaceId);
+    const workspace = (await workspaceRef.get()).data() as WorkspaceSettings | undefined;
+
+    // Same response for unknown workspaces and wrong tokens
+    if (!workspace || !isTokenValid(token, workspace.calendarFeed?.token)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const timezone = getWorkspaceTimezone(workspace);
+    const fromDate = addDays(getTodayInTimezone(timezone), -FEED_PAST_DAYS);
+    const snapshot = await workspaceRef
+      .collection('posts')
+      .where('date', '>=', fromDate)
+      .orderBy('date', 'asc')
+      .get();
+    const posts = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Post);
+
+    const feed = buildCalendarFeed(posts, {
+      name: `${workspace.name} posts`,
+      timezone,
+      platforms: getEnabledPlatforms(workspace),
+    });
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { continueGenerationJob, runGenerationJob } from '@/lib/generationJobs';
+
+// Jobs keep running after the response is sent, one chunk per invocation
+export const maxDuration = 300;
+
+interface ContinueJobRequest {
+  workspaceId: string;
+  token: string;
+}
+
+/**
+ * Run the next chunk of a generation job. Called by the previous chunk, which
+ * has no user session, so the one-time token stored on the job authenticates it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const body: ContinueJobRequest = await request.json();
+    if (
+      typeof body.workspaceId !== 'string' ||
+      body.workspaceId === '' ||
+      body.workspaceId.includes('/') ||
+      typeof body.token !== 'string'
+    ) {
+      return NextResponse.json({ error: 'workspaceId and token are required' }, { status: 400 });
+    }
+
+    const result = await continueGenerationJob(body.workspaceId, jobId, body.token);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    after(() => runGenerationJob(body.workspaceId, jobId, request.nextUrl.origin));
+    return NextResponse.json({ jobId });
+  } catch (error) {
+    console.error('Continue generation job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
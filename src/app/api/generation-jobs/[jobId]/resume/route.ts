@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { verifyRequestUser } from '@/lib/firebaseAdmin';
+import { resumeGenerationJob, runGenerationJob } from '@/lib/generationJobs';
+
+// Jobs keep running after the response is sent, one chunk per invocation
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await verifyRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const result = await resumeGenerationJob(user.uid, jobId);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    after(() => runGenerationJob(user.uid, jobId, request.nextUrl.origin));
+    return NextResponse.json({ jobId });
+  } catch (error) {
+    console.error('Resume generation job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { verifyRequestUser } from '@/lib/firebaseAdmin';
+import { createGenerationJob, runGenerationJob } from '@/lib/generationJobs';
+import { isPlatformId } from '@/lib/platforms';
+
+// Jobs keep running after the response is sent, one chunk per invocation
+export const maxDuration = 300;
+
+interface StartJobRequest {
+  postIds: string[];
+  platforms: string[];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: StartJobRequest = await request.json();
+    if (!Array.isArray(body.postIds) || !Array.isArray(body.platforms)) {
+      return NextResponse.json({ error: 'postIds and platforms are required' }, { status: 400 });
+    }
+
+    const result = await createGenerationJob(
+      user.uid,
+      body.postIds,
+      body.platforms.filter(isPlatformId),
+      user.name || user.email
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    after(() => runGenerationJob(user.uid, result.jobId, request.nextUrl.origin));
+    return NextResponse.json({ jobId: result.jobId });
+  } catch (error) {
+    console.error('Start generation job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
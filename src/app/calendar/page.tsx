@@ -1,19 +1,28 @@
 'use client';
 
 import { useState, useMemo, useCallback } from 'react';
+import { Timestamp } from 'firebase/firestore';
 import Image from 'next/image';
 import { AuthGuard, Navbar } from '@/components/layout';
+import { CaptionRefineInput } from '@/components/CaptionRefineInput';
+import { RevisionHistoryPanel } from '@/components/RevisionHistoryPanel';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePosts, useWorkspace, useDebouncedCallback } from '@/hooks';
 import {
   updatePost,
-  updatePostFacebook,
-  updatePostInstagram,
+  updatePostPlatform,
+  restorePostRevision,
+  recordGenerationError,
   changePostDate,
+  comparePostsBySchedule,
   deletePost,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getWorkspaceTimezone,
 } from '@/lib/services';
 import { generateCaptions } from '@/lib/aiGeneration';
-import { Timestamp } from 'firebase/firestore';
+import { buildGeneratedPostUpdate, buildPlatformRegenerateUpdate } from '@/lib/generatedCaptions';
+import { getObservanceNames } from '@/lib/observances';
 import { formatTime12Hour } from '@/components/ui';
 import {
   PageHeader,
@@ -22,9 +31,11 @@ import {
   Modal,
   ModalFooter,
   StatusBadge,
+  GenerationErrorBadge,
   EmptyState,
   CalendarIcon,
   PhotoIcon,
+  PlatformIcon,
   Spinner,
   toast,
   TimePicker,
@@ -32,7 +43,10 @@ import {
   Textarea,
 } from '@/components/ui';
 import { clsx } from 'clsx';
-import type { Post } from '@/types';
+import { PLATFORM_IDS, getPlatform } from '@/lib/platforms';
+import { formatDateKey, getTodayInTimezone } from '@/lib/timezone';
+import { getBlackoutDates } from '@/lib/scheduling';
+import type { PlatformId, Post, PostRevision } from '@/types';
 
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const MONTHS = [
@@ -40,18 +54,30 @@ const MONTHS = [
   'July', 'August', 'September', 'October', 'November', 'December',
 ];
 
+// First day of the month containing a YYYY-MM-DD date (local Date, used for month navigation)
+function getMonthStart(date: string): Date {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+}
+
 export default function CalendarPage() {
   const { user } = useAuth();
   const { posts, loading: postsLoading } = usePosts();
+  const { workspace } = useWorkspace();
+  const maxPostsPerDay = getMaxPostsPerDay(workspace);
+  const timezone = getWorkspaceTimezone(workspace);
+
+  // Get today's date string (workspace timezone)
+  const today = getTodayInTimezone(timezone);
 
   // Current month state
-  const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [currentDate, setCurrentDate] = useState(() => getMonthStart(today));
 
   // Selected day for modal
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
   // Drag-and-drop state
-  const [draggedDate, setDraggedDate] = useState<string | null>(null);
+  const [draggedPost, setDraggedPost] = useState<Post | null>(null);
   const [dropTargetDate, setDropTargetDate] = useState<string | null>(null);
   const [isMoving, setIsMoving] = useState(false);
 
@@ -71,9 +97,8 @@ export default function CalendarPage() {
     // Previous month days
     for (let i = firstDay - 1; i >= 0; i--) {
       const day = daysInPrevMonth - i;
-      const date = new Date(year, month - 1, day);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: formatDateKey(new Date(Date.UTC(year, month - 1, day))),
         dayNumber: day,
         isCurrentMonth: false,
       });
@@ -81,9 +106,8 @@ export default function CalendarPage() {
 
     // Current month days
     for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month, day);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: formatDateKey(new Date(Date.UTC(year, month, day))),
         dayNumber: day,
         isCurrentMonth: true,
       });
@@ -92,9 +116,8 @@ export default function CalendarPage() {
     // Next month days (fill to complete grid)
     const remainingDays = 42 - days.length; // 6 rows of 7 days
     for (let day = 1; day <= remainingDays; day++) {
-      const date = new Date(year, month + 1, day);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: formatDateKey(new Date(Date.UTC(year, month + 1, day))),
         dayNumber: day,
         isCurrentMonth: false,
       });
@@ -103,12 +126,21 @@ export default function CalendarPage() {
     return days;
   }, [currentDate]);
 
-  // Create a map of posts by date
+  // Closed days and blackout ranges visible in the grid, with their reasons
+  const blackoutDates = useMemo(
+    () => getBlackoutDates(calendarData.map((day) => day.date), workspace?.settings.scheduling),
+    [calendarData, workspace]
+  );
+
+  // Create a map of posts by date, ordered by scheduled time
   const postsByDate = useMemo(() => {
-    const map = new Map<string, Post>();
+    const map = new Map<string, Post[]>();
     posts.forEach((post) => {
-      map.set(post.date, post);
+      const datePosts = map.get(post.date) || [];
+      datePosts.push(post);
+      map.set(post.date, datePosts);
     });
+    map.forEach((datePosts) => datePosts.sort(comparePostsBySchedule));
     return map;
   }, [posts]);
 
@@ -122,19 +154,16 @@ export default function CalendarPage() {
   }, []);
 
   const goToToday = useCallback(() => {
-    setCurrentDate(new Date());
-  }, []);
-
-  // Get today's date string
-  const today = new Date().toISOString().split('T')[0];
+    setCurrentDate(getMonthStart(today));
+  }, [today]);
 
   // Drag-and-drop handlers
-  const handleDragStart = useCallback((date: string) => {
-    setDraggedDate(date);
+  const handleDragStart = useCallback((post: Post) => {
+    setDraggedPost(post);
   }, []);
 
   const handleDragEnd = useCallback(() => {
-    setDraggedDate(null);
+    setDraggedPost(null);
     setDropTargetDate(null);
   }, []);
 
@@ -147,15 +176,21 @@ export default function CalendarPage() {
   }, []);
 
   const handleDrop = useCallback(async (targetDate: string) => {
-    if (!user || !draggedDate || draggedDate === targetDate) {
-      setDraggedDate(null);
+    if (!user || !draggedPost || draggedPost.date === targetDate) {
+      setDraggedPost(null);
       setDropTargetDate(null);
       return;
     }
 
     setIsMoving(true);
     try {
-      const result = await changePostDate(user.uid, draggedDate, targetDate);
+      const result = await changePostDate(
+        user.uid,
+        draggedPost.id,
+        targetDate,
+        maxPostsPerDay,
+        timezone
+      );
       if (result.success) {
         toast.success('Post moved successfully');
       } else {
@@ -166,13 +201,13 @@ export default function CalendarPage() {
       toast.error('Failed to move post');
     } finally {
       setIsMoving(false);
-      setDraggedDate(null);
+      setDraggedPost(null);
       setDropTargetDate(null);
     }
-  }, [user, draggedDate]);
+  }, [user, draggedPost, maxPostsPerDay, timezone]);
 
-  // Get selected post for modal
-  const selectedPost = selectedDate ? postsByDate.get(selectedDate) : null;
+  // Get selected posts for modal
+  const selectedPosts = selectedDate ? postsByDate.get(selectedDate) || [] : [];
 
   return (
     <AuthGuard>
@@ -227,7 +262,7 @@ export default function CalendarPage() {
               {/* Calendar Grid */}
               <div className="grid grid-cols-7">
                 {calendarData.map((day, index) => {
-                  const post = postsByDate.get(day.date);
+                  const dayPosts = postsByDate.get(day.date) || [];
                   const isDayToday = day.date === today;
 
                   return (
@@ -237,11 +272,14 @@ export default function CalendarPage() {
                       dayNumber={day.dayNumber}
                       isCurrentMonth={day.isCurrentMonth}
                       isToday={isDayToday}
-                      post={post}
+                      posts={dayPosts}
+                      isFull={dayPosts.length >= maxPostsPerDay}
+                      blackoutReason={blackoutDates.get(day.date)}
                       onClick={() => day.isCurrentMonth && setSelectedDate(day.date)}
                       isLastRow={index >= 35}
                       today={today}
-                      isDragging={draggedDate === day.date}
+                      draggedPostId={draggedPost?.id ?? null}
+                      isDragSource={draggedPost?.date === day.date}
                       isDropTarget={dropTargetDate === day.date}
                       isMoving={isMoving}
                       onDragStart={handleDragStart}
@@ -258,18 +296,20 @@ export default function CalendarPage() {
 
           {/* Legend */}
           <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded-full bg-facebook" />
-              <span>Facebook</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded-full bg-instagram" />
-              <span>Instagram</span>
-            </div>
+            {getEnabledPlatforms(workspace).map((platform) => (
+              <div key={platform} className="flex items-center gap-2">
+                <div className={`h-3 w-3 rounded-full ${getPlatform(platform).colors.dot}`} />
+                <span>{getPlatform(platform).label}</span>
+              </div>
+            ))}
             <div className="flex items-center gap-2">
               <div className="h-3 w-3 rounded border border-primary-500 bg-primary-100 dark:bg-primary-900/30" />
               <span>Today</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="h-3 w-3 rounded border border-gray-300 bg-gray-100 dark:border-gray-600 dark:bg-gray-800/70" />
+              <span>Closed / blackout</span>
+            </div>
             <div className="ml-auto text-xs">
               <span className="text-gray-400">Tip:</span> Drag posts to reschedule
             </div>
@@ -280,7 +320,7 @@ export default function CalendarPage() {
         {selectedDate && (
           <DayEditModal
             date={selectedDate}
-            post={selectedPost}
+            posts={selectedPosts}
             onClose={() => setSelectedDate(null)}
           />
         )}
@@ -294,14 +334,17 @@ interface CalendarDayProps {
   dayNumber: number;
   isCurrentMonth: boolean;
   isToday: boolean;
-  post?: Post;
+  posts: Post[];
+  isFull: boolean;
+  blackoutReason?: string;
   onClick: () => void;
   isLastRow: boolean;
   today: string;
-  isDragging: boolean;
+  draggedPostId: string | null;
+  isDragSource: boolean;
   isDropTarget: boolean;
   isMoving: boolean;
-  onDragStart: (date: string) => void;
+  onDragStart: (post: Post) => void;
   onDragEnd: () => void;
   onDragOver: (date: string) => void;
   onDragLeave: () => void;
@@ -313,11 +356,14 @@ function CalendarDay({
   dayNumber,
   isCurrentMonth,
   isToday,
-  post,
+  posts,
+  isFull,
+  blackoutReason,
   onClick,
   isLastRow,
   today,
-  isDragging,
+  draggedPostId,
+  isDragSource,
   isDropTarget,
   isMoving,
   onDragStart,
@@ -326,19 +372,23 @@ function CalendarDay({
   onDragLeave,
   onDrop,
 }: CalendarDayProps) {
-  const hasContent = post && (post.imageUrl || post.starterText);
-  const hasGenerated = post && (post.facebook || post.instagram);
-  const canDrag = isCurrentMonth && post && !isMoving;
-  const canDrop = isCurrentMonth && date >= today && !post && !isMoving;
+  const hasPlatformContent = (post: Post) => PLATFORM_IDS.some((platform) => !!post[platform]);
+  const needsGeneration = posts.some(
+    (post) => !hasPlatformContent(post) && (post.imageUrl || post.starterText)
+  );
+  const hasGenerated = posts.some(hasPlatformContent);
+  const canDrag = isCurrentMonth && !isMoving;
+  const canDrop = isCurrentMonth && date >= today && !isFull && !isDragSource && !isMoving;
 
-  const handleDragStart = (e: React.DragEvent) => {
+  const handleDragStart = (e: React.DragEvent, post: Post) => {
     if (!canDrag) {
       e.preventDefault();
       return;
     }
+    e.stopPropagation();
     e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('text/plain', date);
-    onDragStart(date);
+    e.dataTransfer.setData('text/plain', post.id);
+    onDragStart(post);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -361,21 +411,19 @@ function CalendarDay({
 
   return (
     <div
-      draggable={canDrag}
-      onDragStart={handleDragStart}
-      onDragEnd={onDragEnd}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
       onClick={isCurrentMonth && !isMoving ? onClick : undefined}
+      title={blackoutReason}
       className={clsx(
         'relative flex min-h-[100px] flex-col border-b border-r border-gray-200 p-1.5 text-left transition-colors dark:border-gray-700',
         isCurrentMonth && !isMoving ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50' : 'cursor-default',
         !isLastRow ? '' : 'border-b-0',
+        blackoutReason && !isToday && 'bg-gray-100 dark:bg-gray-800/70',
         isToday && 'bg-primary-50 dark:bg-primary-900/20',
-        isDragging && 'opacity-50 ring-2 ring-primary-500 ring-inset',
-        isDropTarget && canDrop && 'bg-primary-100 dark:bg-primary-900/40 ring-2 ring-primary-400 ring-inset',
-        canDrag && 'cursor-grab active:cursor-grabbing'
+        isDragSource && 'ring-2 ring-primary-500 ring-inset',
+        isDropTarget && canDrop && 'bg-primary-100 dark:bg-primary-900/40 ring-2 ring-primary-400 ring-inset'
       )}
     >
       {/* Day Number */}
@@ -389,48 +437,68 @@ function CalendarDay({
         {dayNumber}
       </div>
 
-      {/* Post Preview */}
-      {post && isCurrentMonth && (
-        <div className="mt-1 flex-1">
-          {/* Image Thumbnail */}
-          {post.imageUrl && (
-            <div className="relative mb-1 h-10 w-full overflow-hidden rounded bg-gray-100 dark:bg-gray-800">
-              <Image
-                src={post.imageUrl}
-                alt=""
-                fill
-                className="object-cover"
-              />
-            </div>
-          )}
+      {blackoutReason && isCurrentMonth && (
+        <span className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">
+          {blackoutReason}
+        </span>
+      )}
 
-          {/* Times */}
-          <div className="flex flex-col gap-0.5">
-            {post.facebook?.scheduledTime && (
-              <div className="flex items-center gap-1">
-                <div className="h-1.5 w-1.5 rounded-full bg-facebook" />
-                <span className="text-xs text-gray-500 dark:text-gray-400">
-                  {formatTime12Hour(post.facebook.scheduledTime)}
-                </span>
-              </div>
-            )}
-            {post.instagram?.scheduledTime && (
-              <div className="flex items-center gap-1">
-                <div className="h-1.5 w-1.5 rounded-full bg-instagram" />
-                <span className="text-xs text-gray-500 dark:text-gray-400">
-                  {formatTime12Hour(post.instagram.scheduledTime)}
-                </span>
+      {/* Post Previews */}
+      {posts.length > 0 && isCurrentMonth && (
+        <div className="mt-1 flex flex-1 flex-col gap-1">
+          {posts.map((post) => (
+            <div
+              key={post.id}
+              draggable={canDrag}
+              onDragStart={(e) => handleDragStart(e, post)}
+              onDragEnd={onDragEnd}
+              className={clsx(
+                'rounded',
+                posts.length > 1 && 'bg-gray-50 px-1 py-0.5 dark:bg-gray-800/50',
+                draggedPostId === post.id && 'opacity-50',
+                canDrag && 'cursor-grab active:cursor-grabbing'
+              )}
+            >
+              {/* Image Thumbnail (only when the day has a single post) */}
+              {post.imageUrl && posts.length === 1 && (
+                <div className="relative mb-1 h-10 w-full overflow-hidden rounded bg-gray-100 dark:bg-gray-800">
+                  <Image
+                    src={post.imageUrl}
+                    alt=""
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+              )}
+
+              {/* Times */}
+              <div className="flex flex-col gap-0.5">
+                {PLATFORM_IDS.map((platform) => {
+                  const scheduledTime = post[platform]?.scheduledTime;
+                  if (!scheduledTime) return null;
+                  return (
+                    <div key={platform} className="flex items-center gap-1">
+                      <div className={`h-1.5 w-1.5 rounded-full ${getPlatform(platform).colors.dot}`} />
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatTime12Hour(scheduledTime)}
+                      </span>
+                    </div>
+                  );
+                })}
+                {!PLATFORM_IDS.some((platform) => post[platform]?.scheduledTime) && posts.length > 1 && (
+                  <span className="text-xs text-gray-400 dark:text-gray-500">Draft</span>
+                )}
               </div>
-            )}
-          </div>
+            </div>
+          ))}
 
           {/* Status indicator */}
-          {!post.facebook && !post.instagram && hasContent && (
+          {needsGeneration && (
             <div className="absolute bottom-1 right-1">
               <div className="h-2 w-2 rounded-full bg-yellow-400" title="Needs generation" />
             </div>
           )}
-          {hasGenerated && (
+          {!needsGeneration && hasGenerated && (
             <div className="absolute bottom-1 right-1">
               <div className="h-2 w-2 rounded-full bg-green-400" title="Generated" />
             </div>
@@ -443,13 +511,15 @@ function CalendarDay({
 
 interface DayEditModalProps {
   date: string;
-  post?: Post | null;
+  posts: Post[];
   onClose: () => void;
 }
 
-function DayEditModal({ date, post, onClose }: DayEditModalProps) {
+function DayEditModal({ date, posts, onClose }: DayEditModalProps) {
   const { user } = useAuth();
   const { workspace } = useWorkspace();
+  const enabledPlatforms = getEnabledPlatforms(workspace);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -462,6 +532,9 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
     year: 'numeric',
   });
 
+  // Fall back to the first post when none is selected or the selection was moved/deleted
+  const post = posts.find((p) => p.id === selectedPostId) || posts[0];
+
   const handleRegenerate = async () => {
     if (!user || !workspace || !post?.starterText.trim()) {
       toast.error('No starter text to regenerate from');
@@ -470,33 +543,23 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
 
     setIsRegenerating(true);
     try {
-      const result = await generateCaptions(post.starterText, workspace.settings.ai);
-
-      await updatePost(user.uid, post.date, {
-        facebook: {
-          caption: result.facebook.caption,
-          hashtags: result.facebook.hashtags,
-          scheduledTime: post.facebook?.scheduledTime || '12:00',
-          timeSource: 'ai' as const,
-        },
-        instagram: {
-          caption: result.instagram.caption,
-          hashtags: result.instagram.hashtags,
-          scheduledTime: post.instagram?.scheduledTime || '19:00',
-          timeSource: 'ai' as const,
-        },
-        status: 'generated',
-        aiMeta: {
-          model: result.model,
-          generatedAt: Timestamp.now(),
-          confidence: result.confidence,
-        },
-      });
+      const result = await generateCaptions(
+        post.starterText,
+        workspace.settings.ai,
+        Object.fromEntries(
+          enabledPlatforms.map((platform) => [platform, post[platform]?.caption])
+        ),
+        enabledPlatforms,
+        getObservanceNames(post.date, workspace.settings.customObservances)
+      );
+
+      await updatePost(user.uid, post.id, buildGeneratedPostUpdate(post, result, Timestamp.now()));
 
       toast.success('Captions regenerated');
     } catch (error) {
       console.error('Error regenerating:', error);
       toast.error('Failed to regenerate captions');
+      await recordGenerationError(user.uid, post.id, error);
     } finally {
       setIsRegenerating(false);
     }
@@ -507,9 +570,13 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
 
     setIsDeleting(true);
     try {
-      await deletePost(user.uid, post.date);
+      await deletePost(user.uid, post.id);
       toast.success('Post deleted');
-      onClose();
+      setShowDeleteConfirm(false);
+      setSelectedPostId(null);
+      if (posts.length <= 1) {
+        onClose();
+      }
     } catch (error) {
       console.error('Error deleting:', error);
       toast.error('Failed to delete post');
@@ -560,6 +627,26 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
   return (
     <Modal isOpen onClose={onClose} title={formattedDate} size="xl">
       <div className="space-y-6">
+        {/* Post Tabs */}
+        {posts.length > 1 && (
+          <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700">
+            {posts.map((p, index) => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedPostId(p.id)}
+                className={clsx(
+                  '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+                  p.id === post.id
+                    ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                )}
+              >
+                Post {index + 1}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Post Overview */}
         <div className="flex gap-4">
           {/* Image */}
@@ -584,6 +671,9 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
           <div className="flex-1">
             <div className="mb-2 flex items-center gap-2">
               <StatusBadge status={post.status} />
+              {post.generationError && (
+                <GenerationErrorBadge message={post.generationError.message} />
+              )}
             </div>
             {post.starterText && (
               <div>
@@ -600,8 +690,9 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
 
         {/* Platform Editors */}
         <div className="grid gap-6 md:grid-cols-2">
-          <PlatformModalEditor platform="facebook" post={post} />
-          <PlatformModalEditor platform="instagram" post={post} />
+          {enabledPlatforms.map((platform) => (
+            <PlatformModalEditor key={`${post.id}-${platform}`} platform={platform} post={post} />
+          ))}
         </div>
       </div>
 
@@ -620,7 +711,7 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
               isLoading={isRegenerating}
               disabled={!post.starterText?.trim()}
             >
-              Regenerate
+              Regenerate All
             </Button>
             <Button variant="secondary" onClick={onClose}>
               Close
@@ -633,33 +724,36 @@ function DayEditModal({ date, post, onClose }: DayEditModalProps) {
 }
 
 interface PlatformModalEditorProps {
-  platform: 'facebook' | 'instagram';
+  platform: PlatformId;
   post: Post;
 }
 
 function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
   const { user } = useAuth();
+  const { workspace } = useWorkspace();
   const platformData = post[platform];
+  const config = getPlatform(platform);
 
   const [caption, setCaption] = useState(platformData?.caption || '');
   const [hashtags, setHashtags] = useState<string[]>(platformData?.hashtags || []);
   const [scheduledTime, setScheduledTime] = useState(platformData?.scheduledTime || '');
   const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Debounced save for caption
-  const [debouncedSaveCaption] = useDebouncedCallback(
+  const [debouncedSaveCaption, cancelSaveCaption] = useDebouncedCallback(
     async (newCaption: string) => {
       if (!user || !platformData) return;
 
       setIsSaving(true);
       try {
-        const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-        await updateFn(user.uid, post.date, {
+        await updatePostPlatform(user.uid, post.id, platform, {
           ...platformData,
           caption: newCaption,
         });
         if (post.status === 'generated') {
-          await updatePost(user.uid, post.date, { status: 'edited' });
+          await updatePost(user.uid, post.id, { status: 'edited' });
         }
       } catch (error) {
         console.error('Error saving:', error);
@@ -676,13 +770,73 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
     debouncedSaveCaption(e.target.value);
   };
 
+  // Restore caption, hashtags and time from an earlier revision
+  const handleRestore = async (revision: PostRevision) => {
+    if (!user) return;
+
+    cancelSaveCaption();
+    try {
+      const restored = await restorePostRevision(user.uid, post, revision);
+      setCaption(restored.caption);
+      setHashtags(restored.hashtags);
+      setScheduledTime(restored.scheduledTime);
+      toast.success(`${config.label} caption restored`);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore');
+    }
+  };
+
+  // Regenerate only this platform; other platforms and their times are left as-is.
+  // The current caption is sent so the new one differs, along with any refine feedback.
+  const handleRegenerate = async (feedback: string = '') => {
+    if (!user || !workspace) return;
+    if (!post.starterText.trim()) {
+      toast.error('No starter text to regenerate from');
+      return;
+    }
+
+    cancelSaveCaption();
+    setIsRegenerating(true);
+    try {
+      const result = await generateCaptions(
+        post.starterText,
+        workspace.settings.ai,
+        { [platform]: caption },
+        [platform],
+        getObservanceNames(post.date, workspace.settings.customObservances),
+        feedback
+      );
+
+      await updatePost(
+        user.uid,
+        post.id,
+        buildPlatformRegenerateUpdate(post, platform, result, Timestamp.now())
+      );
+
+      const generated = result.captions[platform];
+      if (generated) {
+        setCaption(generated.caption);
+        setHashtags(generated.hashtags);
+      }
+      toast.success(
+        `${config.label} caption ${feedback ? 'refined' : platformData ? 'regenerated' : 'generated'}`
+      );
+    } catch (error) {
+      console.error('Error regenerating:', error);
+      toast.error(`Failed to generate ${config.label} caption`);
+      await recordGenerationError(user.uid, post.id, error);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   const handleHashtagsChange = async (newHashtags: string[]) => {
     setHashtags(newHashtags);
     if (!user || !platformData) return;
 
     try {
-      const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-      await updateFn(user.uid, post.date, {
+      await updatePostPlatform(user.uid, post.id, platform, {
         ...platformData,
         hashtags: newHashtags,
       });
@@ -697,8 +851,7 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
     if (!user || !platformData) return;
 
     try {
-      const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-      await updateFn(user.uid, post.date, {
+      await updatePostPlatform(user.uid, post.id, platform, {
         ...platformData,
         scheduledTime: newTime,
         timeSource: 'manual',
@@ -709,24 +862,32 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
     }
   };
 
-  const PlatformIcon = platform === 'facebook' ? FacebookIcon : InstagramIcon;
-  const platformColor = platform === 'facebook' ? 'text-facebook' : 'text-instagram';
-  const platformBgColor = platform === 'facebook' ? 'bg-facebook/10' : 'bg-instagram/10';
-
   if (!platformData) {
     return (
       <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
         <div className="flex items-center gap-2">
-          <div className={`rounded-lg p-1.5 ${platformBgColor}`}>
-            <PlatformIcon className={`h-4 w-4 ${platformColor}`} />
+          <div className={`rounded-lg p-1.5 ${config.colors.subtle}`}>
+            <PlatformIcon platform={platform} className={`h-4 w-4 ${config.colors.text}`} />
           </div>
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            {platform.charAt(0).toUpperCase() + platform.slice(1)}
+            {config.label}
           </span>
         </div>
         <p className="mt-3 text-center text-sm text-gray-500 dark:text-gray-400">
           Not generated yet
         </p>
+        {post.starterText.trim() && (
+          <div className="mt-2 text-center">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleRegenerate()}
+              isLoading={isRegenerating}
+            >
+              Generate {config.shortLabel}
+            </Button>
+          </div>
+        )}
       </div>
     );
   }
@@ -736,15 +897,24 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
       {/* Header */}
       <div className="mb-3 flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <div className={`rounded-lg p-1.5 ${platformBgColor}`}>
-            <PlatformIcon className={`h-4 w-4 ${platformColor}`} />
+          <div className={`rounded-lg p-1.5 ${config.colors.subtle}`}>
+            <PlatformIcon platform={platform} className={`h-4 w-4 ${config.colors.text}`} />
           </div>
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            {platform.charAt(0).toUpperCase() + platform.slice(1)}
+            {config.label}
           </span>
         </div>
         <div className="flex items-center gap-2">
           {isSaving && <Spinner size="sm" />}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleRegenerate()}
+            isLoading={isRegenerating}
+            title={`Regenerate the ${config.label} caption only`}
+          >
+            Regenerate
+          </Button>
           <TimePicker
             value={scheduledTime}
             onChange={(e) => handleTimeChange(e.target.value)}
@@ -753,6 +923,11 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
         </div>
       </div>
 
+      {/* Refine */}
+      <div className="mb-2">
+        <CaptionRefineInput onRefine={handleRegenerate} isLoading={isRegenerating} />
+      </div>
+
       {/* Caption */}
       <Textarea
         value={caption}
@@ -773,6 +948,27 @@ function PlatformModalEditor({ platform, post }: PlatformModalEditorProps) {
           placeholder="Add hashtag..."
         />
       </div>
+
+      {/* History */}
+      <div className="mt-2">
+        <button
+          type="button"
+          onClick={() => setShowHistory((open) => !open)}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+        >
+          {showHistory ? 'Hide history' : 'Show history'}
+        </button>
+        {showHistory && user && (
+          <div className="mt-2">
+            <RevisionHistoryPanel
+              workspaceId={user.uid}
+              post={post}
+              platform={platform}
+              onRestore={handleRestore}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -793,19 +989,3 @@ function ChevronRightIcon({ className }: { className?: string }) {
     </svg>
   );
 }
-
-function FacebookIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z" />
-    </svg>
-  );
-}
-
-function InstagramIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z" />
-    </svg>
-  );
-}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AuthGuard, Navbar } from '@/components/layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePosts } from '@/hooks';
+import { getExportBatchFiles, getExportBatches } from '@/lib/services';
+import { getExporter } from '@/lib/exporters';
+import {
+  downloadExportBatch,
+  getChangedExportPosts,
+  type ChangedExportPost,
+} from '@/lib/exportHistory';
+import { getPlatform } from '@/lib/platforms';
+import { getTimezoneAbbreviation, parseDateKey } from '@/lib/timezone';
+import {
+  PageHeader,
+  Card,
+  Button,
+  Badge,
+  EmptyState,
+  DocumentIcon,
+  PlatformIcon,
+  Spinner,
+  toast,
+} from '@/components/ui';
+import type { ExportBatch } from '@/types';
+
+function formatBatchTime(batch: ExportBatch): string {
+  return batch.createdAt.toDate().toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatPostDate(date: string): string {
+  return parseDateKey(date).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function ExportHistoryPage() {
+  const { user } = useAuth();
+  const { posts, loading: postsLoading } = usePosts();
+  const [batches, setBatches] = useState<ExportBatch[] | undefined>(undefined);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getExportBatches(user.uid)
+      .then(setBatches)
+      .catch((error) => {
+        console.error('Error loading export history:', error);
+        toast.error('Failed to load export history');
+        setBatches([]);
+      });
+  }, [user]);
+
+  // Posts edited or deleted since each export
+  const changesByBatch = useMemo(() => {
+    const result = new Map<string, ChangedExportPost[]>();
+    if (postsLoading) return result;
+    for (const batch of batches ?? []) {
+      result.set(batch.id, getChangedExportPosts(batch, posts));
+    }
+    return result;
+  }, [batches, posts, postsLoading]);
+
+  const handleDownload = async (batch: ExportBatch) => {
+    setDownloadingId(batch.id);
+    try {
+      await downloadExportBatch(batch, await getExportBatchFiles(batch));
+    } catch (error) {
+      console.error('Error downloading export:', error);
+      toast.error('Failed to download export');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <Navbar />
+        <main className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+          <PageHeader
+            title="Export History"
+            subtitle="Download past exports again and see what changed after they went out"
+            actions={
+              <Button variant="secondary" onClick={() => (window.location.href = '/export')}>
+                Back to Export
+              </Button>
+            }
+          />
+
+          {batches === undefined ? (
+            <Card padding="lg">
+              <div className="flex items-center justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            </Card>
+          ) : batches.length === 0 ? (
+            <Card padding="lg">
+              <EmptyState
+                icon={<DocumentIcon className="h-6 w-6" />}
+                title="No exports yet"
+                description="Exports you download are listed here"
+              />
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {batches.map((batch) => (
+                <ExportBatchCard
+                  key={batch.id}
+                  batch={batch}
+                  changes={changesByBatch.get(batch.id)}
+                  isDownloading={downloadingId === batch.id}
+                  onDownload={() => handleDownload(batch)}
+                />
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+    </AuthGuard>
+  );
+}
+
+interface ExportBatchCardProps {
+  batch: ExportBatch;
+  changes?: ChangedExportPost[]; // Undefined while posts load
+  isDownloading: boolean;
+  onDownload: () => void;
+}
+
+function ExportBatchCard({ batch, changes, isDownloading, onDownload }: ExportBatchCardProps) {
+  return (
+    <Card padding="md">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-gray-900 dark:text-white">
+            {getExporter(batch.exporter).label} export &middot; {batch.dateRange}
+          </h2>
+          <p className="mt-0.5 text-sm text-gray-500 dark:text-gray-400">
+            {formatBatchTime(batch)}
+            {batch.authorName && ` by ${batch.authorName}`}
+          </p>
+        </div>
+        <Button size="sm" variant="secondary" onClick={onDownload} isLoading={isDownloading}>
+          Download again
+        </Button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+        <div className="flex items-center gap-1.5">
+          {batch.platforms.map((platform) => (
+            <PlatformIcon
+              key={platform}
+              platform={platform}
+              className={`h-4 w-4 ${getPlatform(platform).colors.text}`}
+            />
+          ))}
+        </div>
+        <span>
+          {batch.postCount} posts on {batch.postDates.length} dates
+        </span>
+        <span>&middot;</span>
+        <span>Times in {getTimezoneAbbreviation(batch.timezone, batch.createdAt.toDate())}</span>
+        <span>&middot;</span>
+        <code className="text-xs text-gray-500 dark:text-gray-400">#{batch.contentHash}</code>
+      </div>
+
+      {changes && (
+        <div className="mt-4 border-t border-gray-200 pt-3 dark:border-gray-700">
+          {changes.length === 0 ? (
+            <p className="text-sm text-green-600 dark:text-green-400">
+              No changes since this export
+            </p>
+          ) : (
+            <>
+              <p className="mb-2 text-sm font-medium text-amber-600 dark:text-amber-400">
+                {changes.length} {changes.length === 1 ? 'post' : 'posts'} changed since this
+                export &mdash; update them in {getExporter(batch.exporter).label}
+              </p>
+              <ul className="space-y-1">
+                {changes.map((change) => (
+                  <li key={change.postId} className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {formatPostDate(change.date)}
+                    </span>
+                    <Badge variant={change.change === 'deleted' ? 'danger' : 'warning'}>
+                      {change.change === 'deleted' ? 'Deleted' : 'Edited'}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -2,39 +2,92 @@
 
 import { useState, useMemo, useCallback } from 'react';
 import { AuthGuard, Navbar } from '@/components/layout';
-import { usePosts } from '@/hooks';
+import { CalendarFeedCard } from '@/components/CalendarFeedCard';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePosts, useWorkspace } from '@/hooks';
+import {
+  getEnabledPlatforms,
+  getWorkspaceTimezone,
+  markPostsExported,
+  recordExportBatch,
+} from '@/lib/services';
 import {
   prepareExport,
-  generateCSV,
   downloadCSV,
+  downloadBlob,
+  buildExportZip,
   getDateRange,
-  formatExportFilename,
+  formatZipFilename,
   type ExportValidation,
 } from '@/lib/export';
+import {
+  DEFAULT_EXPORTER,
+  EXPORTER_IDS,
+  buildExporterFile,
+  getExporter,
+  isExporterId,
+  type ExporterFile,
+} from '@/lib/exporters';
+import { hashExportFiles, snapshotExportedPosts } from '@/lib/exportHistory';
+import { PLATFORM_IDS, getPlatform } from '@/lib/platforms';
+import { getTimezoneAbbreviation } from '@/lib/timezone';
 import {
   PageHeader,
   Card,
   Button,
-  Badge,
+  Select,
+  Toggle,
+  TIMEZONE_OPTIONS,
   EmptyState,
   DocumentIcon,
+  PlatformIcon,
   Spinner,
   toast,
 } from '@/components/ui';
-import type { Post } from '@/types';
-
-type Platform = 'facebook' | 'instagram';
+import type { ExporterId, PlatformId } from '@/types';
 
 export default function ExportPage() {
+  const { user } = useAuth();
   const { posts, loading: postsLoading } = usePosts();
+  const { workspace, updateCalendarFeed } = useWorkspace();
+  const enabledPlatforms = useMemo(() => getEnabledPlatforms(workspace), [workspace]);
+  const timezone = getWorkspaceTimezone(workspace);
+
+  // Scheduling tool the files are written for
+  const [exporterId, setExporterId] = useState<ExporterId>(DEFAULT_EXPORTER);
+  const exporter = getExporter(exporterId);
+
+  // Platform selection state (only enabled platforms the tool supports are offered)
+  const availablePlatforms = useMemo(
+    () => enabledPlatforms.filter((platform) => exporter.platforms.includes(platform)),
+    [enabledPlatforms, exporter]
+  );
+  const [selectedPlatforms, setSelectedPlatforms] = useState<Set<PlatformId>>(
+    new Set(PLATFORM_IDS)
+  );
+  // Keep registry order regardless of selection order
+  const activePlatforms = useMemo(
+    () => availablePlatforms.filter((platform) => selectedPlatforms.has(platform)),
+    [availablePlatforms, selectedPlatforms]
+  );
 
-  // Platform selection state
-  const [selectedPlatforms, setSelectedPlatforms] = useState<Set<Platform>>(
-    new Set(['facebook', 'instagram'])
+  // Timezone to write times in (null = the workspace timezone)
+  const [exportTimezone, setExportTimezone] = useState<string | null>(null);
+  const targetTimezone = exportTimezone ?? timezone;
+  const timezoneOptions = useMemo(
+    () =>
+      TIMEZONE_OPTIONS.some((option) => option.value === timezone)
+        ? TIMEZONE_OPTIONS
+        : [{ value: timezone, label: timezone }, ...TIMEZONE_OPTIONS],
+    [timezone]
   );
 
   // Export state
   const [isExporting, setIsExporting] = useState(false);
+  const [includeImages, setIncludeImages] = useState(false);
+  const [imageProgress, setImageProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
   const [showPreview, setShowPreview] = useState(false);
 
   // Filter posts that are ready for export (have generated content)
@@ -51,22 +104,41 @@ export default function ExportPage() {
   const dateRange = useMemo(() => getDateRange(exportablePosts), [exportablePosts]);
 
   // Prepare export validations for each platform
-  const fbValidation = useMemo(
-    () => prepareExport(exportablePosts, 'facebook'),
-    [exportablePosts]
-  );
-  const igValidation = useMemo(
-    () => prepareExport(exportablePosts, 'instagram'),
-    [exportablePosts]
-  );
+  const validations = useMemo(() => {
+    const result = {} as Record<PlatformId, ExportValidation>;
+    for (const platform of PLATFORM_IDS) {
+      result[platform] = prepareExport(
+        exportablePosts,
+        platform,
+        { timezone, targetTimezone },
+        { brand: workspace?.settings.brand }
+      );
+    }
+    return result;
+  }, [exportablePosts, timezone, targetTimezone, workspace]);
+
+  // Each platform's file in the selected tool's format
+  const files = useMemo(() => {
+    const result = {} as Partial<Record<PlatformId, ExporterFile>>;
+    for (const platform of availablePlatforms) {
+      result[platform] = buildExporterFile(
+        exporterId,
+        platform,
+        validations[platform].valid,
+        dateRange,
+        { timezone: targetTimezone }
+      );
+    }
+    return result;
+  }, [availablePlatforms, exporterId, validations, dateRange, targetTimezone]);
 
   // Toggle platform selection
-  const togglePlatform = useCallback((platform: Platform) => {
+  const togglePlatform = useCallback((platform: PlatformId) => {
     setSelectedPlatforms((prev) => {
       const next = new Set(prev);
       if (next.has(platform)) {
         // Don't allow deselecting if it's the only one selected
-        if (next.size > 1) {
+        if (availablePlatforms.filter((p) => next.has(p)).length > 1) {
           next.delete(platform);
         }
       } else {
@@ -74,56 +146,93 @@ export default function ExportPage() {
       }
       return next;
     });
-  }, []);
+  }, [availablePlatforms]);
 
   // Handle export
   const handleExport = useCallback(async () => {
     setIsExporting(true);
 
     try {
-      const platforms = Array.from(selectedPlatforms);
-
-      if (platforms.length === 1) {
+      // Rebuild the files so lead-time checks use the current time
+      const exports = activePlatforms
+        .map((platform) => ({
+          platform,
+          file: buildExporterFile(exporterId, platform, validations[platform].valid, dateRange, {
+            timezone: targetTimezone,
+          }),
+          validation: validations[platform],
+        }))
+        .filter(({ file }) => file.rows.length > 0);
+
+      if (activePlatforms.length === 1 && !includeImages) {
         // Single platform - download single CSV
-        const platform = platforms[0];
-        const validation = platform === 'facebook' ? fbValidation : igValidation;
+        const label = getPlatform(activePlatforms[0]).label;
 
-        if (validation.valid.length === 0) {
-          toast.error(`No valid posts to export for ${platform}`);
+        if (exports.length === 0) {
+          toast.error(`No valid posts to export for ${label}`);
           return;
         }
 
-        const csv = generateCSV(validation.valid);
-        const filename = formatExportFilename(platform, dateRange);
-        downloadCSV(csv, filename);
-        toast.success(`Downloaded ${validation.valid.length} ${platform} posts`);
+        const { file } = exports[0];
+        downloadCSV(file.content, file.filename);
+        toast.success(`Downloaded ${file.rows.length} ${label} posts for ${exporter.label}`);
       } else {
-        // Both platforms - download separate CSVs
-        let downloadedCount = 0;
-
-        if (fbValidation.valid.length > 0) {
-          const fbCSV = generateCSV(fbValidation.valid);
-          const fbFilename = formatExportFilename('facebook', dateRange);
-          downloadCSV(fbCSV, fbFilename);
-          downloadedCount++;
+        // Several platforms or images - one ZIP bundle
+        if (exports.length === 0) {
+          toast.error('No valid posts to export');
+          return;
         }
 
-        // Small delay between downloads
-        await new Promise((resolve) => setTimeout(resolve, 500));
-
-        if (igValidation.valid.length > 0) {
-          const igCSV = generateCSV(igValidation.valid);
-          const igFilename = formatExportFilename('instagram', dateRange);
-          downloadCSV(igCSV, igFilename);
-          downloadedCount++;
-        }
+        const zip = await buildExportZip(exports, {
+          exporter: exporter.label,
+          dateRange,
+          timezone,
+          targetTimezone,
+          includeImages,
+          onProgress: (done, total) => setImageProgress({ done, total }),
+        });
+        downloadBlob(zip, formatZipFilename(dateRange));
+
+        const count = exports.reduce((total, { file }) => total + file.rows.length, 0);
+        toast.success(`Downloaded ZIP with ${count} posts`);
+      }
 
-        if (downloadedCount > 0) {
-          toast.success(
-            `Downloaded ${fbValidation.valid.length} Facebook and ${igValidation.valid.length} Instagram posts`
+      // Keep the batch for re-download and mark its posts as exported
+      if (user) {
+        const files = exports.map(({ platform, file }) => ({
+          platform,
+          filename: file.filename,
+          content: file.content,
+        }));
+        const exportedPosts = snapshotExportedPosts(
+          exportablePosts,
+          exports.map(({ platform, file }) => ({ platform, rows: file.rows }))
+        );
+        try {
+          await recordExportBatch(
+            user.uid,
+            {
+              exporter: exporterId,
+              platforms: exports.map(({ platform }) => platform),
+              timezone: targetTimezone,
+              dateRange,
+              postDates: [...new Set(Object.values(exportedPosts).map(({ date }) => date))].sort(),
+              posts: exportedPosts,
+              postCount: exports.reduce((total, { file }) => total + file.rows.length, 0),
+              contentHash: hashExportFiles(files),
+              authorName: user.displayName || user.email || undefined,
+            },
+            files
           );
-        } else {
-          toast.error('No valid posts to export');
+        } catch (error) {
+          console.error('Error recording export:', error);
+          toast.error('Downloaded, but the export could not be saved to history');
+        }
+        try {
+          await markPostsExported(user.uid, Object.keys(exportedPosts));
+        } catch (error) {
+          console.error('Error marking posts exported:', error);
+          toast.error('Downloaded, but the posts could not be marked as exported');
         }
       }
     } catch (error) {
@@ -131,25 +240,42 @@ export default function ExportPage() {
       toast.error('Failed to export');
     } finally {
       setIsExporting(false);
+      setImageProgress(null);
     }
-  }, [selectedPlatforms, fbValidation, igValidation, dateRange]);
+  }, [
+    user,
+    exportablePosts,
+    activePlatforms,
+    exporterId,
+    exporter,
+    validations,
+    dateRange,
+    timezone,
+    targetTimezone,
+    includeImages,
+  ]);
 
   // Calculate totals
-  const totalValidPosts =
-    (selectedPlatforms.has('facebook') ? fbValidation.valid.length : 0) +
-    (selectedPlatforms.has('instagram') ? igValidation.valid.length : 0);
+  const selectedValidations = activePlatforms.map((platform) => validations[platform]);
 
-  const totalWarnings =
-    (selectedPlatforms.has('facebook')
-      ? fbValidation.warnings.missingCaption.length +
-        fbValidation.warnings.missingImage.length +
-        fbValidation.warnings.missingTime.length
-      : 0) +
-    (selectedPlatforms.has('instagram')
-      ? igValidation.warnings.missingCaption.length +
-        igValidation.warnings.missingImage.length +
-        igValidation.warnings.missingTime.length
-      : 0);
+  const totalValidPosts = activePlatforms.reduce(
+    (total, platform) => total + (files[platform]?.rows.length ?? 0),
+    0
+  );
+
+  const totalWarnings = selectedValidations.reduce(
+    (total, validation) =>
+      total +
+      validation.warnings.missingCaption.length +
+      validation.warnings.missingImage.length +
+      validation.warnings.missingTime.length +
+      validation.warnings.lintErrors.length,
+    0
+  );
+  const totalRejected = activePlatforms.reduce(
+    (total, platform) => total + (files[platform]?.rejected.length ?? 0),
+    0
+  );
 
   return (
     <AuthGuard>
@@ -158,7 +284,12 @@ export default function ExportPage() {
         <main className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
           <PageHeader
             title="Export"
-            subtitle="Download Buffer-compatible CSV files"
+            subtitle="Download bulk upload files for your scheduling tool"
+            actions={
+              <Button variant="secondary" onClick={() => (window.location.href = '/export/history')}>
+                Export History
+              </Button>
+            }
           />
 
           {postsLoading ? (
@@ -182,6 +313,19 @@ export default function ExportPage() {
             </Card>
           ) : (
             <>
+              {/* Scheduling Tool */}
+              <Card padding="lg" className="mb-6">
+                <Select
+                  label="Scheduling tool"
+                  value={exporterId}
+                  onChange={(e) => {
+                    if (isExporterId(e.target.value)) setExporterId(e.target.value);
+                  }}
+                  options={EXPORTER_IDS.map((id) => ({ value: id, label: getExporter(id).label }))}
+                  helperText={exporter.description}
+                />
+              </Card>
+
               {/* Platform Selection */}
               <Card padding="lg" className="mb-6">
                 <div className="mb-4">
@@ -194,19 +338,41 @@ export default function ExportPage() {
                 </div>
 
                 <div className="space-y-3">
-                  <PlatformOption
-                    platform="facebook"
-                    isSelected={selectedPlatforms.has('facebook')}
-                    onToggle={() => togglePlatform('facebook')}
-                    validation={fbValidation}
-                  />
-                  <PlatformOption
-                    platform="instagram"
-                    isSelected={selectedPlatforms.has('instagram')}
-                    onToggle={() => togglePlatform('instagram')}
-                    validation={igValidation}
-                  />
+                  {availablePlatforms.map((platform) => (
+                    <PlatformOption
+                      key={platform}
+                      platform={platform}
+                      isSelected={selectedPlatforms.has(platform)}
+                      onToggle={() => togglePlatform(platform)}
+                      validation={validations[platform]}
+                      file={files[platform]}
+                    />
+                  ))}
                 </div>
+                {availablePlatforms.length < enabledPlatforms.length && (
+                  <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
+                    {exporter.label} can&rsquo;t schedule{' '}
+                    {enabledPlatforms
+                      .filter((platform) => !availablePlatforms.includes(platform))
+                      .map((platform) => getPlatform(platform).label)
+                      .join(', ')}
+                  </p>
+                )}
+              </Card>
+
+              {/* Export Timezone */}
+              <Card padding="lg" className="mb-6">
+                <Select
+                  label="Export times in"
+                  value={targetTimezone}
+                  onChange={(e) => setExportTimezone(e.target.value)}
+                  options={timezoneOptions}
+                  helperText={`${
+                    targetTimezone === timezone
+                      ? `Posts are scheduled in your workspace timezone (${getTimezoneAbbreviation(timezone)}).`
+                      : `Dates and times will be converted from ${getTimezoneAbbreviation(timezone)} to ${getTimezoneAbbreviation(targetTimezone)}.`
+                  } ${exporter.timezoneNote}`}
+                />
               </Card>
 
               {/* Export Summary */}
@@ -228,13 +394,13 @@ export default function ExportPage() {
                       {totalValidPosts}
                     </span>
                   </div>
-                  {totalWarnings > 0 && (
+                  {totalWarnings + totalRejected > 0 && (
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-gray-600 dark:text-gray-400">
                         Posts with Warnings
                       </span>
                       <span className="font-medium text-amber-600 dark:text-amber-400">
-                        {totalWarnings}
+                        {totalWarnings + totalRejected}
                       </span>
                     </div>
                   )}
@@ -249,24 +415,29 @@ export default function ExportPage() {
 
                 {showPreview && (
                   <div className="mt-4 space-y-4 border-t border-gray-200 pt-4 dark:border-gray-700">
-                    {selectedPlatforms.has('facebook') && (
-                      <PlatformDetails
-                        platform="facebook"
-                        validation={fbValidation}
-                      />
-                    )}
-                    {selectedPlatforms.has('instagram') && (
-                      <PlatformDetails
-                        platform="instagram"
-                        validation={igValidation}
-                      />
+                    {activePlatforms.map(
+                      (platform) => (
+                        <PlatformDetails
+                          key={platform}
+                          platform={platform}
+                          validation={validations[platform]}
+                          file={files[platform]}
+                          exporterLabel={exporter.label}
+                        />
+                      )
                     )}
                   </div>
                 )}
               </Card>
 
               {/* Export Button */}
-              <div className="flex justify-end">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <Toggle
+                  label="Include images"
+                  description="Bundle post images, named by date and platform, in the ZIP"
+                  enabled={includeImages}
+                  onChange={setIncludeImages}
+                />
                 <Button
                   onClick={handleExport}
                   isLoading={isExporting}
@@ -274,23 +445,51 @@ export default function ExportPage() {
                   size="lg"
                 >
                   <DownloadIcon className="mr-2 h-5 w-5" />
-                  Download{' '}
-                  {selectedPlatforms.size === 2 ? 'CSVs' : 'CSV'}
+                  {imageProgress
+                    ? `Downloading images ${imageProgress.done}/${imageProgress.total}`
+                    : activePlatforms.length > 1 || includeImages
+                      ? 'Download ZIP'
+                      : 'Download CSV'}
                 </Button>
               </div>
 
               {/* CSV Format Info */}
               <div className="mt-8 rounded-lg bg-gray-100 p-4 dark:bg-gray-800">
                 <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Buffer CSV Format
+                  {exporter.label} CSV Format
                 </h3>
-                <code className="block whitespace-pre-wrap text-xs text-gray-600 dark:text-gray-400">
-                  Text,Media URL,Scheduled Date,Scheduled Time{'\n'}
-                  &quot;Your caption here...&quot;,https://...,2025-01-20,11:30
-                </code>
+                <div className="space-y-2">
+                  {activePlatforms.map(
+                    (platform) => (
+                      <div key={platform}>
+                        <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                          {getPlatform(platform).label}
+                        </p>
+                        <code className="block whitespace-pre-wrap text-xs text-gray-600 dark:text-gray-400">
+                          {exporter
+                            .columns(platform)
+                            .map((column) => column.header)
+                            .join(',')}
+                          {!exporter.includeHeader && ' (no header row)'}
+                        </code>
+                      </div>
+                    )
+                  )}
+                </div>
               </div>
             </>
           )}
+
+          {user && workspace && (
+            <CalendarFeedCard
+              workspaceId={user.uid}
+              workspace={workspace}
+              posts={posts}
+              platforms={enabledPlatforms}
+              timezone={timezone}
+              onUpdateFeed={updateCalendarFeed}
+            />
+          )}
         </main>
       </div>
     </AuthGuard>
@@ -298,10 +497,11 @@ export default function ExportPage() {
 }
 
 interface PlatformOptionProps {
-  platform: Platform;
+  platform: PlatformId;
   isSelected: boolean;
   onToggle: () => void;
   validation: ExportValidation;
+  file?: ExporterFile;
 }
 
 function PlatformOption({
@@ -309,14 +509,15 @@ function PlatformOption({
   isSelected,
   onToggle,
   validation,
+  file,
 }: PlatformOptionProps) {
-  const PlatformIcon = platform === 'facebook' ? FacebookIcon : InstagramIcon;
-  const platformColor = platform === 'facebook' ? 'text-facebook' : 'text-instagram';
-  const platformBgColor = platform === 'facebook' ? 'bg-facebook/10' : 'bg-instagram/10';
+  const config = getPlatform(platform);
   const totalWarnings =
     validation.warnings.missingCaption.length +
     validation.warnings.missingImage.length +
-    validation.warnings.missingTime.length;
+    validation.warnings.missingTime.length +
+    validation.warnings.lintErrors.length +
+    (file?.rejected.length ?? 0);
 
   return (
     <label
@@ -332,15 +533,15 @@ function PlatformOption({
         onChange={onToggle}
         className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
       />
-      <div className={`rounded-lg p-2 ${platformBgColor}`}>
-        <PlatformIcon className={`h-5 w-5 ${platformColor}`} />
+      <div className={`rounded-lg p-2 ${config.colors.subtle}`}>
+        <PlatformIcon platform={platform} className={`h-5 w-5 ${config.colors.text}`} />
       </div>
       <div className="flex-1">
         <span className="font-medium text-gray-900 dark:text-white">
-          {platform.charAt(0).toUpperCase() + platform.slice(1)}
+          {config.label}
         </span>
         <div className="mt-0.5 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-          <span>{validation.valid.length} ready</span>
+          <span>{file?.rows.length ?? validation.valid.length} ready</span>
           {totalWarnings > 0 && (
             <>
               <span>•</span>
@@ -356,27 +557,38 @@ function PlatformOption({
 }
 
 interface PlatformDetailsProps {
-  platform: Platform;
+  platform: PlatformId;
   validation: ExportValidation;
+  file?: ExporterFile;
+  exporterLabel: string;
 }
 
-function PlatformDetails({ platform, validation }: PlatformDetailsProps) {
+function PlatformDetails({ platform, validation, file, exporterLabel }: PlatformDetailsProps) {
   const { warnings } = validation;
+  const rejected = file?.rejected ?? [];
+  // Rejections grouped by reason, e.g. every post past a row cap
+  const rejectedByReason = new Map<string, number>();
+  for (const { reason } of rejected) {
+    rejectedByReason.set(reason, (rejectedByReason.get(reason) ?? 0) + 1);
+  }
+  const readyCount = file?.rows.length ?? validation.valid.length;
   const hasWarnings =
     warnings.missingCaption.length > 0 ||
     warnings.missingImage.length > 0 ||
-    warnings.missingTime.length > 0;
+    warnings.missingTime.length > 0 ||
+    warnings.lintErrors.length > 0 ||
+    rejected.length > 0;
 
   return (
     <div>
       <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-        {platform.charAt(0).toUpperCase() + platform.slice(1)}
+        {getPlatform(platform).label}
       </h4>
       <div className="space-y-1 text-xs">
         <div className="flex items-center gap-2">
           <span className="h-2 w-2 rounded-full bg-green-400" />
           <span className="text-gray-600 dark:text-gray-400">
-            {validation.valid.length} posts ready to export
+            {readyCount} posts ready to export
           </span>
         </div>
         {warnings.missingCaption.length > 0 && (
@@ -403,7 +615,31 @@ function PlatformDetails({ platform, validation }: PlatformDetailsProps) {
             </span>
           </div>
         )}
-        {!hasWarnings && validation.valid.length === 0 && (
+        {warnings.lintErrors.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="h-2 w-2 rounded-full bg-red-400" />
+            <span className="text-red-600 dark:text-red-400">
+              {warnings.lintErrors.length} held back by caption errors (fix them on the Review page)
+            </span>
+          </div>
+        )}
+        {[...rejectedByReason].map(([reason, count]) => (
+          <div key={reason} className="flex items-center gap-2">
+            <span className="h-2 w-2 rounded-full bg-red-400" />
+            <span className="text-red-600 dark:text-red-400">
+              {count} not accepted by {exporterLabel}: {reason}
+            </span>
+          </div>
+        ))}
+        {validation.flagged.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="h-2 w-2 rounded-full bg-amber-400" />
+            <span className="text-amber-600 dark:text-amber-400">
+              {validation.flagged.length} exported with caption warnings
+            </span>
+          </div>
+        )}
+        {!hasWarnings && readyCount === 0 && (
           <div className="flex items-center gap-2">
             <span className="h-2 w-2 rounded-full bg-gray-400" />
             <span className="text-gray-500 dark:text-gray-400">
@@ -417,22 +653,6 @@ function PlatformDetails({ platform, validation }: PlatformDetailsProps) {
 }
 
 // Icons
-function FacebookIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z" />
-    </svg>
-  );
-}
-
-function InstagramIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z" />
-    </svg>
-  );
-}
-
 function DownloadIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
+import { Timestamp } from 'firebase/firestore';
 import { AuthGuard, Navbar } from '@/components/layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePosts, useAssetUpload, useDebouncedCallback, useWorkspace } from '@/hooks';
@@ -9,12 +10,19 @@ import {
   updatePostStarterText,
   updatePostImage,
   updatePost,
+  recordGenerationError,
   deletePost,
   deletePostsBatch,
   changePostDate,
+  comparePostsBySchedule,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getWorkspaceTimezone,
 } from '@/lib/services';
+import { getTodayInTimezone } from '@/lib/timezone';
 import { generateCaptions } from '@/lib/aiGeneration';
-import { Timestamp } from 'firebase/firestore';
+import { buildGeneratedPostUpdate } from '@/lib/generatedCaptions';
+import { getObservanceNames } from '@/lib/observances';
 import { ImageUpload } from '@/components/ImageUpload';
 import {
   PageHeader,
@@ -26,6 +34,7 @@ import {
   Toggle,
   Badge,
   StatusBadge,
+  GenerationErrorBadge,
   EmptyState,
   PhotoIcon,
   Spinner,
@@ -46,7 +55,7 @@ export default function InputPage() {
   const [hidePast, setHidePast] = useState(true);
 
   // Selection state
-  const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Add post modal state
   const [showAddModal, setShowAddModal] = useState(false);
@@ -61,8 +70,8 @@ export default function InputPage() {
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [regenProgress, setRegenProgress] = useState({ current: 0, total: 0 });
 
-  // Get today's date
-  const today = new Date().toISOString().split('T')[0];
+  // Get today's date in the workspace timezone
+  const today = getTodayInTimezone(getWorkspaceTimezone(workspace));
 
   // Filter posts
   const filteredPosts = useMemo(() => {
@@ -87,28 +96,28 @@ export default function InputPage() {
         break;
     }
 
-    // Sort by date
-    result.sort((a, b) => a.date.localeCompare(b.date));
+    // Sort by date, then scheduled time
+    result.sort(comparePostsBySchedule);
 
     return result;
   }, [posts, filter, hidePast, today]);
 
   // Selection handlers
   const toggleSelectAll = useCallback(() => {
-    if (selectedDates.size === filteredPosts.length) {
-      setSelectedDates(new Set());
+    if (selectedIds.size === filteredPosts.length) {
+      setSelectedIds(new Set());
     } else {
-      setSelectedDates(new Set(filteredPosts.map((p) => p.date)));
+      setSelectedIds(new Set(filteredPosts.map((p) => p.id)));
     }
-  }, [filteredPosts, selectedDates.size]);
+  }, [filteredPosts, selectedIds.size]);
 
-  const toggleSelect = useCallback((date: string) => {
-    setSelectedDates((prev) => {
+  const toggleSelect = useCallback((postId: string) => {
+    setSelectedIds((prev) => {
       const next = new Set(prev);
-      if (next.has(date)) {
-        next.delete(date);
+      if (next.has(postId)) {
+        next.delete(postId);
       } else {
-        next.add(date);
+        next.add(postId);
       }
       return next;
     });
@@ -118,9 +127,14 @@ export default function InputPage() {
   const handleAddPost = useCallback(async () => {
     if (!user || !newPostDate) return;
 
-    // Check if post already exists
-    if (posts.some((p) => p.date === newPostDate)) {
-      toast.error('A post already exists for this date');
+    // Check if the date has room for another post
+    const maxPostsPerDay = getMaxPostsPerDay(workspace);
+    if (posts.filter((p) => p.date === newPostDate).length >= maxPostsPerDay) {
+      toast.error(
+        maxPostsPerDay === 1
+          ? 'A post already exists for this date'
+          : `This date already has the maximum of ${maxPostsPerDay} posts`
+      );
       return;
     }
 
@@ -137,18 +151,18 @@ export default function InputPage() {
     } finally {
       setIsCreating(false);
     }
-  }, [user, newPostDate, posts]);
+  }, [user, workspace, newPostDate, posts]);
 
   // Delete posts handler
   const handleDeletePosts = useCallback(async () => {
-    if (!user || selectedDates.size === 0) return;
+    if (!user || selectedIds.size === 0) return;
 
     setIsDeleting(true);
 
     try {
-      await deletePostsBatch(user.uid, Array.from(selectedDates));
-      toast.success(`Deleted ${selectedDates.size} post(s)`);
-      setSelectedDates(new Set());
+      await deletePostsBatch(user.uid, Array.from(selectedIds));
+      toast.success(`Deleted ${selectedIds.size} post(s)`);
+      setSelectedIds(new Set());
       setShowDeleteModal(false);
     } catch (error) {
       console.error('Error deleting posts:', error);
@@ -156,14 +170,14 @@ export default function InputPage() {
     } finally {
       setIsDeleting(false);
     }
-  }, [user, selectedDates]);
+  }, [user, selectedIds]);
 
   // Bulk regenerate handler
   const handleRegenerateSelected = useCallback(async () => {
-    if (!user || !workspace || selectedDates.size === 0) return;
+    if (!user || !workspace || selectedIds.size === 0) return;
 
     const selectedPosts = posts.filter(
-      (p) => selectedDates.has(p.date) && p.starterText.trim()
+      (p) => selectedIds.has(p.id) && p.starterText.trim()
     );
 
     if (selectedPosts.length === 0) {
@@ -174,45 +188,40 @@ export default function InputPage() {
     setIsRegenerating(true);
     setRegenProgress({ current: 0, total: selectedPosts.length });
 
+    let failed = 0;
     try {
       for (let i = 0; i < selectedPosts.length; i++) {
         const post = selectedPosts[i];
         setRegenProgress({ current: i + 1, total: selectedPosts.length });
 
-        const result = await generateCaptions(post.starterText, workspace.settings.ai);
-
-        await updatePost(user.uid, post.date, {
-          facebook: {
-            caption: result.facebook.caption,
-            hashtags: result.facebook.hashtags,
-            scheduledTime: post.facebook?.scheduledTime || '12:00',
-            timeSource: 'ai' as const,
-          },
-          instagram: {
-            caption: result.instagram.caption,
-            hashtags: result.instagram.hashtags,
-            scheduledTime: post.instagram?.scheduledTime || '19:00',
-            timeSource: 'ai' as const,
-          },
-          status: 'generated',
-          aiMeta: {
-            model: result.model,
-            generatedAt: Timestamp.now(),
-            confidence: result.confidence,
-          },
-        });
+        try {
+          const result = await generateCaptions(
+            post.starterText,
+            workspace.settings.ai,
+            undefined,
+            getEnabledPlatforms(workspace),
+            getObservanceNames(post.date, workspace.settings.customObservances)
+          );
+
+          await updatePost(user.uid, post.id, buildGeneratedPostUpdate(post, result, Timestamp.now()));
+        } catch (error) {
+          console.error(`Error regenerating ${post.date}:`, error);
+          failed++;
+          await recordGenerationError(user.uid, post.id, error);
+        }
       }
 
-      toast.success(`Regenerated ${selectedPosts.length} post(s)`);
-      setSelectedDates(new Set());
-    } catch (error) {
-      console.error('Error regenerating:', error);
-      toast.error('Failed to regenerate some posts');
+      if (failed > 0) {
+        toast.error(`Failed to regenerate ${failed} of ${selectedPosts.length} post(s)`);
+      } else {
+        toast.success(`Regenerated ${selectedPosts.length} post(s)`);
+        setSelectedIds(new Set());
+      }
     } finally {
       setIsRegenerating(false);
       setRegenProgress({ current: 0, total: 0 });
     }
-  }, [user, workspace, selectedDates, posts]);
+  }, [user, workspace, selectedIds, posts]);
 
   return (
     <AuthGuard>
@@ -224,7 +233,7 @@ export default function InputPage() {
             subtitle="Add content to your scheduled posts"
             actions={
               <div className="flex gap-3">
-                {selectedDates.size > 0 && (
+                {selectedIds.size > 0 && (
                   <>
                     <Button
                       variant="secondary"
@@ -233,13 +242,13 @@ export default function InputPage() {
                     >
                       {isRegenerating
                         ? `Regenerating ${regenProgress.current}/${regenProgress.total}`
-                        : `Regenerate (${selectedDates.size})`}
+                        : `Regenerate (${selectedIds.size})`}
                     </Button>
                     <Button
                       variant="danger"
                       onClick={() => setShowDeleteModal(true)}
                     >
-                      Delete ({selectedDates.size})
+                      Delete ({selectedIds.size})
                     </Button>
                   </>
                 )}
@@ -313,7 +322,7 @@ export default function InputPage() {
                         <input
                           type="checkbox"
                           checked={
-                            selectedDates.size === filteredPosts.length &&
+                            selectedIds.size === filteredPosts.length &&
                             filteredPosts.length > 0
                           }
                           onChange={toggleSelectAll}
@@ -330,10 +339,10 @@ export default function InputPage() {
                   <tbody>
                     {filteredPosts.map((post) => (
                       <PostRow
-                        key={post.date}
+                        key={post.id}
                         post={post}
-                        isSelected={selectedDates.has(post.date)}
-                        onToggleSelect={() => toggleSelect(post.date)}
+                        isSelected={selectedIds.has(post.id)}
+                        onToggleSelect={() => toggleSelect(post.id)}
                         onUploadImage={uploadImage}
                         today={today}
                       />
@@ -389,7 +398,7 @@ export default function InputPage() {
           size="sm"
         >
           <p className="text-gray-600 dark:text-gray-400">
-            Are you sure you want to delete {selectedDates.size} post(s)? This
+            Are you sure you want to delete {selectedIds.size} post(s)? This
             action cannot be undone.
           </p>
           <ModalFooter>
@@ -417,7 +426,7 @@ interface PostRowProps {
   post: Post;
   isSelected: boolean;
   onToggleSelect: () => void;
-  onUploadImage: (file: File, postDate: string) => Promise<any>;
+  onUploadImage: (file: File, postId: string) => Promise<any>;
   today: string;
 }
 
@@ -443,35 +452,23 @@ function PostRow({
 
     setIsGenerating(true);
     try {
-      const result = await generateCaptions(text, workspace.settings.ai);
-
-      await updatePost(user.uid, post.date, {
-        facebook: {
-          caption: result.facebook.caption,
-          hashtags: result.facebook.hashtags,
-          scheduledTime: post.facebook?.scheduledTime || '12:00',
-          timeSource: post.facebook?.timeSource || 'ai',
-        },
-        instagram: {
-          caption: result.instagram.caption,
-          hashtags: result.instagram.hashtags,
-          scheduledTime: post.instagram?.scheduledTime || '19:00',
-          timeSource: post.instagram?.timeSource || 'ai',
-        },
-        status: 'generated',
-        aiMeta: {
-          model: result.model,
-          generatedAt: Timestamp.now(),
-          confidence: result.confidence,
-        },
-      });
+      const result = await generateCaptions(
+        text,
+        workspace.settings.ai,
+        undefined,
+        getEnabledPlatforms(workspace),
+        getObservanceNames(post.date, workspace.settings.customObservances)
+      );
+
+      await updatePost(user.uid, post.id, buildGeneratedPostUpdate(post, result, Timestamp.now()));
     } catch (error) {
       console.error('Error generating captions:', error);
-      // Don't show error toast - generation is automatic, user can manually regenerate in Review
+      // Don't show error toast - generation is automatic; the failure shows on the post
+      await recordGenerationError(user.uid, post.id, error);
     } finally {
       setIsGenerating(false);
     }
-  }, [user, workspace, post.date, post.facebook, post.instagram]);
+  }, [user, workspace, post]);
 
   // Debounced save for starter text
   const [debouncedSave] = useDebouncedCallback(
@@ -480,7 +477,7 @@ function PostRow({
 
       setIsSaving(true);
       try {
-        await updatePostStarterText(user.uid, post.date, text);
+        await updatePostStarterText(user.uid, post.id, text);
         // Trigger auto-generation after saving
         triggerGeneration(text);
       } catch (error) {
@@ -500,17 +497,17 @@ function PostRow({
   };
 
   const handleImageUpload = async (file: File) => {
-    await onUploadImage(file, post.date);
+    await onUploadImage(file, post.id);
   };
 
   const handleImageUrlSubmit = async (url: string) => {
     if (!user) return;
-    await updatePostImage(user.uid, post.date, undefined, url);
+    await updatePostImage(user.uid, post.id, undefined, url);
   };
 
   const handleImageRemove = async () => {
     if (!user) return;
-    await updatePostImage(user.uid, post.date, undefined, undefined);
+    await updatePostImage(user.uid, post.id, undefined, undefined);
   };
 
   const handleDateChange = async () => {
@@ -521,7 +518,13 @@ function PostRow({
 
     setIsChangingDate(true);
     try {
-      const result = await changePostDate(user.uid, post.date, newDate);
+      const result = await changePostDate(
+        user.uid,
+        post.id,
+        newDate,
+        getMaxPostsPerDay(workspace),
+        getWorkspaceTimezone(workspace)
+      );
       if (result.success) {
         toast.success('Date updated');
         setIsEditingDate(false);
@@ -621,7 +624,12 @@ function PostRow({
         </div>
       </td>
       <td className="px-4 py-3">
-        <StatusBadge status={post.status} />
+        <div className="flex flex-wrap gap-1">
+          <StatusBadge status={post.status} />
+          {post.generationError && (
+            <GenerationErrorBadge message={post.generationError.message} />
+          )}
+        </div>
       </td>
     </tr>
   );
@@ -118,7 +118,7 @@ export default function DashboardPage() {
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
                   {thisWeekPosts.slice(0, 5).map((post) => (
                     <div
-                      key={post.date}
+                      key={post.id}
                       className="flex items-center justify-between px-6 py-4"
                     >
                       <div className="flex items-center gap-4">
@@ -1,20 +1,38 @@
 'use client';
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { AuthGuard, Navbar } from '@/components/layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePosts, useWorkspace } from '@/hooks';
-import { createPostsBatch, getPostsByDateRange, updatePost } from '@/lib/services';
-import { generateCaptions } from '@/lib/aiGeneration';
-import { Timestamp } from 'firebase/firestore';
+import {
+  createPostsBatch,
+  createSchedulePlan,
+  getRecentSchedulePlans,
+  getContentSeries,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getPostsByDateRange,
+  getWorkspaceTimezone,
+} from '@/lib/services';
+import { startGenerationJob } from '@/lib/aiGeneration';
+import {
+  getObservanceStarterText,
+  getObservancesInRange,
+} from '@/lib/observances';
 import {
   generateSchedule,
   validateDateRange,
   formatTimeForDisplay,
   getWeeksInRange,
-  generateTimeForPlatform,
+  generateTimesForDates,
+  buildScheduledPlatformPosts,
+  getBlackoutDates,
+  generateSeed,
   type ScheduledPost,
 } from '@/lib/scheduling';
+import { getPlatform } from '@/lib/platforms';
+import { ContentSeriesManager } from '@/components/ContentSeriesManager';
+import { addDays, getTodayInTimezone } from '@/lib/timezone';
 import {
   readFileAsText,
   validateCSVFile,
@@ -22,10 +40,11 @@ import {
 import {
   parseCSVToRows,
   assignDatesWithAnchors,
+  buildOccupiedDates,
+  getFullDates,
   generateDateRange,
   type CSVRow,
   type SchedulingResult,
-  type OccupiedDates,
 } from '@/lib/csvScheduler';
 import {
   PageHeader,
@@ -36,8 +55,11 @@ import {
   EmptyState,
   CalendarIcon,
   Badge,
+  Input,
+  Toggle,
   toast,
 } from '@/components/ui';
+import type { ContentSeries, Observance, PlatformId, SchedulePlan } from '@/types';
 
 type TabType = 'schedule' | 'csv';
 
@@ -49,15 +71,18 @@ export default function PlanningPage() {
   // Tab state
   const [activeTab, setActiveTab] = useState<TabType>('schedule');
 
-  // AI generation progress state
-  const [isGeneratingCaptions, setIsGeneratingCaptions] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0 });
-
   // Schedule generator state
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [postsPerWeek, setPostsPerWeek] = useState(7);
   const [generatedSchedule, setGeneratedSchedule] = useState<ScheduledPost[]>([]);
+  const [scheduleSeed, setScheduleSeed] = useState<number | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [recentPlans, setRecentPlans] = useState<SchedulePlan[]>([]);
+  // Platforms of a loaded plan, used instead of the enabled ones so it reproduces
+  const [planPlatforms, setPlanPlatforms] = useState<PlatformId[] | null>(null);
+  const [series, setSeries] = useState<ContentSeries[]>([]);
+  const [prefillObservances, setPrefillObservances] = useState(true);
   const [selectedScheduleDates, setSelectedScheduleDates] = useState<Set<string>>(new Set());
   const [isGenerating, setIsGenerating] = useState(false);
   const [isApplying, setIsApplying] = useState(false);
@@ -76,19 +101,35 @@ export default function PlanningPage() {
   const [isScheduling, setIsScheduling] = useState(false);
   const [showIssuesModal, setShowIssuesModal] = useState(false);
 
-  // Get existing post dates
+  const maxPostsPerDay = getMaxPostsPerDay(workspace);
+  const timezone = getWorkspaceTimezone(workspace);
+  const schedulingPreferences = workspace?.settings.scheduling;
+  const enabledPlatforms = useMemo(() => getEnabledPlatforms(workspace), [workspace]);
+  const schedulePlatforms = planPlatforms ?? enabledPlatforms;
+  const planPlatformsDiffer =
+    !!planPlatforms &&
+    (planPlatforms.length !== enabledPlatforms.length ||
+      planPlatforms.some((platform) => !enabledPlatforms.includes(platform)));
+
+  // Get dates that have reached the daily post limit
   const existingPostDates = useMemo(() => {
-    return new Set(posts.map((p) => p.date));
-  }, [posts]);
+    return getFullDates(buildOccupiedDates(posts), maxPostsPerDay, enabledPlatforms);
+  }, [posts, maxPostsPerDay, enabledPlatforms]);
 
-  // Get today's date in YYYY-MM-DD format
-  const today = new Date().toISOString().split('T')[0];
+  // Get today's date in YYYY-MM-DD format (workspace timezone)
+  const today = getTodayInTimezone(timezone);
 
   // Validate date range
   const dateValidation = useMemo(() => {
     if (!startDate || !endDate) return { valid: false, error: undefined };
-    return validateDateRange(startDate, endDate);
-  }, [startDate, endDate]);
+    return validateDateRange(startDate, endDate, timezone);
+  }, [startDate, endDate, timezone]);
+
+  // Holidays and food observances in the selected range
+  const observancesByDate = useMemo(() => {
+    if (!startDate || !endDate || !dateValidation.valid) return new Map<string, Observance[]>();
+    return getObservancesInRange(startDate, endDate, workspace?.settings.customObservances);
+  }, [startDate, endDate, dateValidation.valid, workspace]);
 
   // Calculate weeks in range
   const weeksInRange = useMemo(() => {
@@ -99,8 +140,8 @@ export default function PlanningPage() {
   // Validate CSV date range
   const csvDateValidation = useMemo(() => {
     if (!csvStartDate || !csvEndDate) return { valid: false, error: undefined };
-    return validateDateRange(csvStartDate, csvEndDate);
-  }, [csvStartDate, csvEndDate]);
+    return validateDateRange(csvStartDate, csvEndDate, timezone);
+  }, [csvStartDate, csvEndDate, timezone]);
 
   // Check if we have enough dates for CSV rows
   const csvDaysInRange = useMemo(() => {
@@ -108,8 +149,32 @@ export default function PlanningPage() {
     return generateDateRange(csvStartDate, csvEndDate).length;
   }, [csvStartDate, csvEndDate, csvDateValidation.valid]);
 
-  // Generate schedule
-  const handleGenerateSchedule = useCallback(() => {
+  // Load recently applied plans so their seeds can be reused
+  useEffect(() => {
+    if (!user) return;
+    getRecentSchedulePlans(user.uid)
+      .then(setRecentPlans)
+      .catch((error) => console.error('Error loading recent plans:', error));
+  }, [user]);
+
+  // Load recurring series so their dates are reserved when generating
+  useEffect(() => {
+    if (!user) return;
+    getContentSeries(user.uid)
+      .then(setSeries)
+      .catch((error) => console.error('Error loading series:', error));
+  }, [user]);
+
+  // Parsed seed from the seed field, if a valid one was entered
+  const enteredSeed = useMemo(() => {
+    const trimmed = seedInput.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= 0xffffffff ? seed : null;
+  }, [seedInput]);
+
+  // Generate schedule with a given seed
+  const runSchedule = useCallback((seed: number) => {
     if (!dateValidation.valid) return;
 
     setIsGenerating(true);
@@ -121,9 +186,16 @@ export default function PlanningPage() {
         endDate,
         postsPerWeek,
         existingPostDates,
+        existingPosts: posts,
+        platforms: schedulePlatforms,
+        preferences: schedulingPreferences,
+        seed,
+        series,
       });
 
       setGeneratedSchedule(schedule);
+      setScheduleSeed(seed);
+      setSeedInput(String(seed));
       // Auto-select all generated dates
       setSelectedScheduleDates(new Set(schedule.map((s) => s.date)));
       setIsGenerating(false);
@@ -132,7 +204,36 @@ export default function PlanningPage() {
         toast.error('No available dates in the selected range');
       }
     }, 300);
-  }, [startDate, endDate, postsPerWeek, existingPostDates, dateValidation.valid]);
+  }, [
+    startDate,
+    endDate,
+    postsPerWeek,
+    existingPostDates,
+    posts,
+    schedulePlatforms,
+    schedulingPreferences,
+    series,
+    dateValidation.valid,
+  ]);
+
+  // Generate with the entered seed, or a fresh one
+  const handleGenerateSchedule = useCallback(() => {
+    runSchedule(enteredSeed ?? generateSeed());
+  }, [runSchedule, enteredSeed]);
+
+  // Same inputs, new seed
+  const handleReshuffle = useCallback(() => {
+    runSchedule(generateSeed());
+  }, [runSchedule]);
+
+  // Fill the form from a previously applied plan
+  const loadPlan = useCallback((plan: SchedulePlan) => {
+    setStartDate(plan.startDate);
+    setEndDate(plan.endDate);
+    setPostsPerWeek(plan.postsPerWeek);
+    setSeedInput(String(plan.seed));
+    setPlanPlatforms(plan.platforms);
+  }, []);
 
   // Toggle schedule date selection
   const toggleScheduleDate = useCallback((date: string) => {
@@ -158,7 +259,7 @@ export default function PlanningPage() {
 
   // Apply schedule (create posts)
   const handleApplySchedule = useCallback(async () => {
-    if (!user || selectedScheduleDates.size === 0) return;
+    if (!user || scheduleSeed === null || selectedScheduleDates.size === 0) return;
 
     setIsApplying(true);
 
@@ -168,28 +269,41 @@ export default function PlanningPage() {
         selectedScheduleDates.has(item.date)
       );
 
-      const postsToCreate = selectedPosts.map((item) => ({
-        date: item.date,
-        starterText: '',
-        facebook: {
-          caption: '',
-          hashtags: [],
-          scheduledTime: item.facebookTime,
-          timeSource: 'ai' as const,
-        },
-        instagram: {
-          caption: '',
-          hashtags: [],
-          scheduledTime: item.instagramTime,
-          timeSource: 'ai' as const,
-        },
-      }));
+      // Series dates come pre-filled with the series' starter text and image;
+      // observance dates can be pre-filled with a suggestion for the day
+      const postsToCreate = selectedPosts.map((item) => {
+        const observance = observancesByDate.get(item.date)?.[0];
+        const observanceText =
+          prefillObservances && observance ? getObservanceStarterText(observance) : '';
+        return {
+          date: item.date,
+          starterText: item.series?.starterText || observanceText,
+          imageAssetId: item.series?.imageAssetId,
+          imageUrl: item.series?.imageUrl,
+          seriesId: item.series?.id,
+          ...buildScheduledPlatformPosts(item.times),
+        };
+      });
 
       await createPostsBatch(user.uid, postsToCreate);
 
+      // Keep the seed and inputs so this schedule can be reproduced
+      const plan = await createSchedulePlan(user.uid, {
+        seed: scheduleSeed,
+        startDate,
+        endDate,
+        postsPerWeek,
+        platforms: schedulePlatforms,
+        postCount: postsToCreate.length,
+      });
+      setRecentPlans((prev) => [plan, ...prev].slice(0, 5));
+
       toast.success(`Created ${postsToCreate.length} posts`);
       setGeneratedSchedule([]);
       setSelectedScheduleDates(new Set());
+      setScheduleSeed(null);
+      setSeedInput('');
+      setPlanPlatforms(null);
       setStartDate('');
       setEndDate('');
     } catch (error) {
@@ -198,7 +312,18 @@ export default function PlanningPage() {
     } finally {
       setIsApplying(false);
     }
-  }, [user, generatedSchedule, selectedScheduleDates]);
+  }, [
+    user,
+    generatedSchedule,
+    selectedScheduleDates,
+    scheduleSeed,
+    startDate,
+    endDate,
+    postsPerWeek,
+    schedulePlatforms,
+    observancesByDate,
+    prefillObservances,
+  ]);
 
   // Handle CSV file selection
   const handleCsvFileSelect = useCallback(async (file: File) => {
@@ -268,25 +393,20 @@ export default function PlanningPage() {
       const existingPosts = await getPostsByDateRange(user.uid, csvStartDate, csvEndDate);
 
       // Build occupied dates map
-      const occupiedDates: OccupiedDates = {
-        instagram: new Set<string>(),
-        facebook: new Set<string>(),
-      };
-
-      for (const post of existingPosts) {
-        if (post.instagram && (post.instagram.caption || post.instagram.scheduledTime)) {
-          occupiedDates.instagram.add(post.date);
-        }
-        if (post.facebook && (post.facebook.caption || post.facebook.scheduledTime)) {
-          occupiedDates.facebook.add(post.date);
-        }
-      }
+      const occupiedDates = buildOccupiedDates(existingPosts);
 
       // Generate date range
       const allDates = generateDateRange(csvStartDate, csvEndDate);
 
       // Run the scheduling algorithm
-      const result = assignDatesWithAnchors(csvRows, allDates, occupiedDates);
+      const result = assignDatesWithAnchors(
+        csvRows,
+        allDates,
+        occupiedDates,
+        enabledPlatforms,
+        maxPostsPerDay,
+        getBlackoutDates(allDates, schedulingPreferences)
+      );
       setSchedulingResult(result);
       // Auto-select all scheduled rows
       setSelectedCsvRows(new Set(result.scheduledRows.map((r) => r.rowIndex)));
@@ -306,7 +426,16 @@ export default function PlanningPage() {
     } finally {
       setIsScheduling(false);
     }
-  }, [csvDateValidation.valid, csvRows, csvStartDate, csvEndDate, user]);
+  }, [
+    csvDateValidation.valid,
+    csvRows,
+    csvStartDate,
+    csvEndDate,
+    user,
+    maxPostsPerDay,
+    schedulingPreferences,
+    enabledPlatforms,
+  ]);
 
   // Toggle CSV row selection
   const toggleCsvRow = useCallback((rowIndex: number) => {
@@ -348,78 +477,48 @@ export default function PlanningPage() {
         selectedCsvRows.has(row.rowIndex)
       );
 
-      // Build posts array with assigned dates and platform-specific times
-      const postsToCreate = selectedRows.map((row) => {
-        const date = new Date(row.finalDate + 'T00:00:00');
-        const dayOfWeek = date.getDay();
-
-        return {
-          date: row.finalDate!,
-          starterText: row.starterText,
-          imageUrl: row.imageUrl || undefined,
-          facebook: {
-            caption: '',
-            hashtags: [],
-            scheduledTime: generateTimeForPlatform('facebook', dayOfWeek),
-            timeSource: 'ai' as const,
-          },
-          instagram: {
-            caption: '',
-            hashtags: [],
-            scheduledTime: generateTimeForPlatform('instagram', dayOfWeek),
-            timeSource: 'ai' as const,
-          },
-        };
+      // Times follow the seed and spacing rules, like a generated schedule; the
+      // day before the range is loaded so its posts count for spacing
+      const dates = selectedRows.map((row) => row.finalDate!);
+      const sortedDates = [...dates].sort();
+      const existingPosts = await getPostsByDateRange(
+        user.uid,
+        addDays(sortedDates[0], -1),
+        sortedDates[sortedDates.length - 1]
+      );
+      const timesByRow = generateTimesForDates(dates, {
+        platforms: enabledPlatforms,
+        preferences: schedulingPreferences,
+        seed: enteredSeed ?? generateSeed(),
+        existingPosts,
       });
 
-      await createPostsBatch(user.uid, postsToCreate);
+      // Build posts array with assigned dates and platform-specific times
+      const postsToCreate = selectedRows.map((row, index) => ({
+        date: row.finalDate!,
+        starterText: row.starterText,
+        imageUrl: row.imageUrl || undefined,
+        ...buildScheduledPlatformPosts(timesByRow[index]),
+      }));
+
+      const createdPosts = await createPostsBatch(user.uid, postsToCreate);
 
       toast.success(`Imported ${postsToCreate.length} posts`);
 
       // Now generate captions for posts with starter text
-      const postsWithText = postsToCreate.filter((p) => p.starterText.trim());
-
-      if (postsWithText.length > 0 && workspace) {
-        setIsGeneratingCaptions(true);
-        setGenerationProgress({ current: 0, total: postsWithText.length });
-
-        toast.success(`Generating AI captions for ${postsWithText.length} posts...`);
-
-        for (let i = 0; i < postsWithText.length; i++) {
-          const post = postsWithText[i];
-          setGenerationProgress({ current: i + 1, total: postsWithText.length });
-
-          try {
-            const result = await generateCaptions(post.starterText, workspace.settings.ai);
-
-            await updatePost(user.uid, post.date, {
-              facebook: {
-                caption: result.facebook.caption,
-                hashtags: result.facebook.hashtags,
-                scheduledTime: post.facebook.scheduledTime,
-                timeSource: 'ai' as const,
-              },
-              instagram: {
-                caption: result.instagram.caption,
-                hashtags: result.instagram.hashtags,
-                scheduledTime: post.instagram.scheduledTime,
-                timeSource: 'ai' as const,
-              },
-              status: 'generated',
-              aiMeta: {
-                model: result.model,
-                generatedAt: Timestamp.now(),
-                confidence: result.confidence,
-              },
-            });
-          } catch (error) {
-            console.error(`Error generating captions for ${post.date}:`, error);
-            // Continue with other posts even if one fails
-          }
+      const postsWithText = postsToCreate
+        .map((p, i) => ({ ...p, id: createdPosts[i].id }))
+        .filter((p) => p.starterText.trim());
+
+      // Captions are generated by a server-side job; progress shows on the Review page
+      if (postsWithText.length > 0) {
+        try {
+          await startGenerationJob(postsWithText.map((post) => post.id), enabledPlatforms);
+          toast.success(`Generating AI captions for ${postsWithText.length} posts...`);
+        } catch (error) {
+          console.error('Error starting caption generation:', error);
+          toast.error('Posts imported, but caption generation could not start');
         }
-
-        setIsGeneratingCaptions(false);
-        toast.success(`Generated captions for ${postsWithText.length} posts`);
       }
 
       setCsvFile(null);
@@ -436,9 +535,15 @@ export default function PlanningPage() {
       toast.error(message);
     } finally {
       setIsApplying(false);
-      setIsGeneratingCaptions(false);
     }
-  }, [user, schedulingResult, selectedCsvRows, workspace]);
+  }, [
+    user,
+    schedulingResult,
+    selectedCsvRows,
+    enteredSeed,
+    enabledPlatforms,
+    schedulingPreferences,
+  ]);
 
   return (
     <AuthGuard>
@@ -515,14 +620,93 @@ export default function PlanningPage() {
                     helperText="Default: 7 posts per week (daily posting)"
                   />
 
+                  {observancesByDate.size > 0 && (
+                    <div>
+                      <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Holidays &amp; observances in this range
+                      </p>
+                      <ul className="mb-3 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                        {[...observancesByDate.entries()].map(([date, observances]) => (
+                          <li key={date}>
+                            <span className="font-medium">{formatDateShort(date)}</span> ·{' '}
+                            {observances.map((o) => o.name).join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                      <Toggle
+                        label="Pre-fill starter text"
+                        description="Scheduled posts on these dates start with a suggestion for the day"
+                        enabled={prefillObservances}
+                        onChange={setPrefillObservances}
+                      />
+                    </div>
+                  )}
+
+                  <Input
+                    label="Seed (optional)"
+                    placeholder="Random"
+                    inputMode="numeric"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    error={
+                      seedInput.trim() && enteredSeed === null
+                        ? 'Seed must be a whole number up to 4294967295'
+                        : undefined
+                    }
+                    helperText="The same dates, settings, and seed always produce the same schedule"
+                  />
+
+                  {planPlatformsDiffer && (
+                    <p className="rounded-lg bg-amber-50 p-3 text-sm text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+                      This plan was made for{' '}
+                      {planPlatforms!.map((platform) => getPlatform(platform).label).join(', ')}, so
+                      it is generated for those platforms to come out the same.{' '}
+                      <button
+                        type="button"
+                        onClick={() => setPlanPlatforms(null)}
+                        className="font-medium underline"
+                      >
+                        Use enabled platforms
+                      </button>
+                    </p>
+                  )}
+
                   <Button
                     onClick={handleGenerateSchedule}
-                    disabled={!dateValidation.valid}
+                    disabled={!dateValidation.valid || (!!seedInput.trim() && enteredSeed === null)}
                     isLoading={isGenerating}
                     className="w-full"
                   >
                     Generate Schedule
                   </Button>
+
+                  {recentPlans.length > 0 && (
+                    <div>
+                      <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Recent plans
+                      </p>
+                      <ul className="space-y-1">
+                        {recentPlans.map((plan) => (
+                          <li
+                            key={plan.id}
+                            className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400"
+                          >
+                            <span>
+                              {formatDateShort(plan.startDate)} – {formatDateShort(plan.endDate)} ·{' '}
+                              {plan.postsPerWeek}/week · seed {plan.seed}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => loadPlan(plan)}
+                              className="font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                            >
+                              Load
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </Card>
 
@@ -533,7 +717,19 @@ export default function PlanningPage() {
                     Schedule Preview
                   </h2>
                   {generatedSchedule.length > 0 && (
-                    <Badge variant="primary">{generatedSchedule.length} posts</Badge>
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Seed {scheduleSeed}</span>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={handleReshuffle}
+                        isLoading={isGenerating}
+                        disabled={!dateValidation.valid}
+                      >
+                        Reshuffle
+                      </Button>
+                      <Badge variant="primary">{generatedSchedule.length} posts</Badge>
+                    </div>
                   )}
                 </div>
 
@@ -559,18 +755,14 @@ export default function PlanningPage() {
                             </th>
                             <th className="pb-3 pr-4">Date</th>
                             <th className="pb-3 pr-4">Day</th>
-                            <th className="pb-3 pr-4">
-                              <span className="inline-flex items-center gap-1">
-                                <span className="h-2 w-2 rounded-full bg-facebook" />
-                                FB
-                              </span>
-                            </th>
-                            <th className="pb-3">
-                              <span className="inline-flex items-center gap-1">
-                                <span className="h-2 w-2 rounded-full bg-instagram" />
-                                IG
-                              </span>
-                            </th>
+                            {schedulePlatforms.map((platform) => (
+                              <th key={platform} className="pb-3 pr-4">
+                                <span className="inline-flex items-center gap-1">
+                                  <span className={`h-2 w-2 rounded-full ${getPlatform(platform).colors.dot}`} />
+                                  {getPlatform(platform).shortLabel}
+                                </span>
+                              </th>
+                            ))}
                           </tr>
                         </thead>
                         <tbody>
@@ -591,16 +783,28 @@ export default function PlanningPage() {
                               </td>
                               <td className="py-3 pr-4 font-medium text-gray-900 dark:text-white">
                                 {formatDateShort(item.date)}
+                                {item.series && (
+                                  <Badge variant="primary" size="sm" className="ml-2">
+                                    {item.series.name}
+                                  </Badge>
+                                )}
+                                {observancesByDate.has(item.date) && (
+                                  <p className="text-xs font-normal text-amber-600 dark:text-amber-400">
+                                    {observancesByDate
+                                      .get(item.date)!
+                                      .map((o) => o.name)
+                                      .join(', ')}
+                                  </p>
+                                )}
                               </td>
                               <td className="py-3 pr-4 text-gray-600 dark:text-gray-400">
                                 {item.dayOfWeek.slice(0, 3)}
                               </td>
-                              <td className="py-3 pr-4 text-gray-600 dark:text-gray-400">
-                                {formatTimeForDisplay(item.facebookTime)}
-                              </td>
-                              <td className="py-3 text-gray-600 dark:text-gray-400">
-                                {formatTimeForDisplay(item.instagramTime)}
-                              </td>
+                              {schedulePlatforms.map((platform) => (
+                                <td key={platform} className="py-3 pr-4 text-gray-600 dark:text-gray-400">
+                                  {item.times[platform] ? formatTimeForDisplay(item.times[platform]) : '—'}
+                                </td>
+                              ))}
                             </tr>
                           ))}
                         </tbody>
@@ -630,6 +834,21 @@ export default function PlanningPage() {
                   </div>
                 )}
               </Card>
+
+              {/* Recurring Series */}
+              {user && (
+                <Card padding="lg" className="lg:col-span-2">
+                  <h2 className="mb-6 text-lg font-semibold text-gray-900 dark:text-white">
+                    Recurring Series
+                  </h2>
+                  <ContentSeriesManager
+                    workspaceId={user.uid}
+                    series={series}
+                    onSeriesChange={setSeries}
+                    today={today}
+                  />
+                </Card>
+              )}
             </div>
           ) : (
             /* CSV Upload Tab */
@@ -925,13 +1144,11 @@ export default function PlanningPage() {
                       </Button>
                       <Button
                         onClick={handleApplyCsv}
-                        isLoading={isApplying || isGeneratingCaptions}
+                        isLoading={isApplying}
                         disabled={!schedulingResult.canProceed || selectedCsvRows.size === 0}
                         className="flex-1"
                       >
-                        {isGeneratingCaptions
-                          ? `Generating ${generationProgress.current}/${generationProgress.total}`
-                          : `Import (${selectedCsvRows.size})`}
+                        Import ({selectedCsvRows.size})
                       </Button>
                     </div>
                   </div>
@@ -1,22 +1,37 @@
 'use client';
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Timestamp } from 'firebase/firestore';
 import Image from 'next/image';
 import { AuthGuard, Navbar } from '@/components/layout';
+import { CaptionRefineInput } from '@/components/CaptionRefineInput';
+import { RevisionHistoryPanel } from '@/components/RevisionHistoryPanel';
+import { CaptionVariantsModal } from '@/components/CaptionVariantsModal';
 import { useAuth } from '@/contexts/AuthContext';
-import { usePosts, useWorkspace, useDebouncedCallback } from '@/hooks';
+import { usePosts, useWorkspace, useGenerationJob, useDebouncedCallback } from '@/hooks';
 import {
-  updatePostFacebook,
-  updatePostInstagram,
+  updatePostPlatform,
+  restorePostRevision,
+  recordGenerationError,
   updatePost,
   changePostDate,
+  comparePostsBySchedule,
   deletePostsBatch,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getWorkspaceTimezone,
 } from '@/lib/services';
+import { getTodayInTimezone } from '@/lib/timezone';
+import { findSpacingViolations } from '@/lib/scheduling';
+import { lintPost } from '@/lib/captionLint';
 import {
   generateCaptions,
-  buildFullCaption,
-  type GenerationResult,
+  startGenerationJob,
+  resumeGenerationJob,
+  getGenerationJobProgress,
 } from '@/lib/aiGeneration';
+import { buildFullCaption, buildGeneratedPostUpdate, buildPlatformRegenerateUpdate } from '@/lib/generatedCaptions';
+import { getObservanceNames } from '@/lib/observances';
 import {
   PageHeader,
   Card,
@@ -26,28 +41,28 @@ import {
   Toggle,
   Badge,
   StatusBadge,
+  GenerationErrorBadge,
+  LintBadge,
   EmptyState,
   DocumentIcon,
   PhotoIcon,
+  PlatformIcon,
   Spinner,
   toast,
   TimePicker,
   formatTime12Hour,
   HashtagInput,
 } from '@/components/ui';
-import type { Post } from '@/types';
-import { Timestamp } from 'firebase/firestore';
+import { getPlatform } from '@/lib/platforms';
+import type { CaptionVariant, PlatformId, Post, PostRevision } from '@/types';
 
-type PlatformFilter = 'all' | 'facebook' | 'instagram';
-
-// Character limits
-const FB_CHAR_LIMIT = 2200;
-const IG_CHAR_LIMIT = 2200;
+type PlatformFilter = 'all' | PlatformId;
 
 export default function ReviewPage() {
   const { user } = useAuth();
   const { posts, loading: postsLoading } = usePosts();
   const { workspace } = useWorkspace();
+  const enabledPlatforms = useMemo(() => getEnabledPlatforms(workspace), [workspace]);
 
   // Filter state
   const [platformFilter, setPlatformFilter] = useState<PlatformFilter>('all');
@@ -55,18 +70,21 @@ export default function ReviewPage() {
   const [hideEmpty, setHideEmpty] = useState(true);
 
   // Selection state
-  const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-  // Bulk generation state
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0 });
+  // Bulk generation runs as a server-side job, so progress survives a reload
+  const { job, isRunning: isJobRunning } = useGenerationJob();
+  const jobProgress = job ? getGenerationJobProgress(job) : null;
+  const [isStartingJob, setIsStartingJob] = useState(false);
+  const isGeneratingAll = isStartingJob || isJobRunning;
+  const previousJobStatus = useRef(job?.status);
 
   // Delete state
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Get today's date
-  const today = new Date().toISOString().split('T')[0];
+  // Get today's date in the workspace timezone
+  const today = getTodayInTimezone(getWorkspaceTimezone(workspace));
 
   // Filter posts
   const filteredPosts = useMemo(() => {
@@ -84,98 +102,94 @@ export default function ReviewPage() {
       );
     }
 
-    // Sort by date
-    result.sort((a, b) => a.date.localeCompare(b.date));
+    // Sort by date, then scheduled time
+    result.sort(comparePostsBySchedule);
 
     return result;
   }, [posts, hidePast, hideEmpty, today]);
 
-  // Posts that need generation
+  // Posts whose times break the workspace spacing rules (e.g. after manual edits)
+  const spacingViolations = useMemo(
+    () => findSpacingViolations(posts, workspace?.settings.scheduling, enabledPlatforms),
+    [posts, workspace, enabledPlatforms]
+  );
+
+  // Posts that need generation; edited and exported posts are left alone, since
+  // a job rewrites every platform's caption
   const postsNeedingGeneration = useMemo(() => {
     return filteredPosts.filter(
       (post) =>
         (post.starterText || post.imageUrl) &&
-        (!post.facebook || !post.instagram)
+        post.status !== 'edited' &&
+        post.status !== 'exported' &&
+        enabledPlatforms.some((platform) => !post[platform])
     );
-  }, [filteredPosts]);
+  }, [filteredPosts, enabledPlatforms]);
 
   // Selection handlers
   const toggleSelectAll = useCallback(() => {
-    if (selectedDates.size === filteredPosts.length) {
-      setSelectedDates(new Set());
+    if (selectedIds.size === filteredPosts.length) {
+      setSelectedIds(new Set());
     } else {
-      setSelectedDates(new Set(filteredPosts.map((p) => p.date)));
+      setSelectedIds(new Set(filteredPosts.map((p) => p.id)));
     }
-  }, [filteredPosts, selectedDates.size]);
+  }, [filteredPosts, selectedIds.size]);
 
-  const toggleSelect = useCallback((date: string) => {
-    setSelectedDates((prev) => {
+  const toggleSelect = useCallback((postId: string) => {
+    setSelectedIds((prev) => {
       const next = new Set(prev);
-      if (next.has(date)) {
-        next.delete(date);
+      if (next.has(postId)) {
+        next.delete(postId);
       } else {
-        next.add(date);
+        next.add(postId);
       }
       return next;
     });
   }, []);
 
-  // Handle generate all
-  const handleGenerateAll = useCallback(async () => {
-    if (!user || !workspace || postsNeedingGeneration.length === 0) return;
-
-    setIsGeneratingAll(true);
-    setGenerationProgress({ current: 0, total: postsNeedingGeneration.length });
+  // Report when a job this page was watching finishes
+  useEffect(() => {
+    if (previousJobStatus.current === 'running' && job && job.status !== 'running') {
+      const { total, failed } = getGenerationJobProgress(job);
+      if (failed > 0) {
+        toast.error(`Failed to generate captions for ${failed} of ${total} posts`);
+      } else {
+        toast.success(`Generated captions for ${total} posts`);
+      }
+    }
+    previousJobStatus.current = job?.status;
+  }, [job]);
 
-    try {
-      for (let i = 0; i < postsNeedingGeneration.length; i++) {
-        const post = postsNeedingGeneration[i];
-        setGenerationProgress({ current: i + 1, total: postsNeedingGeneration.length });
-
-        const result = await generateCaptions(
-          post.starterText,
-          workspace.settings.ai
-        );
-
-        // Update the post with generated content
-        await updatePost(user.uid, post.date, {
-          facebook: {
-            caption: result.facebook.caption,
-            hashtags: result.facebook.hashtags,
-            scheduledTime: post.facebook?.scheduledTime || '12:00',
-            timeSource: post.facebook?.timeSource || 'ai',
-          },
-          instagram: {
-            caption: result.instagram.caption,
-            hashtags: result.instagram.hashtags,
-            scheduledTime: post.instagram?.scheduledTime || '19:00',
-            timeSource: post.instagram?.timeSource || 'ai',
-          },
-          status: 'generated',
-          aiMeta: {
-            model: result.model,
-            generatedAt: Timestamp.now(),
-            confidence: result.confidence,
-          },
-        });
+  // Start a generation job for the given posts
+  const startJob = useCallback(
+    async (postIds: string[]) => {
+      setIsStartingJob(true);
+      try {
+        await startGenerationJob(postIds, enabledPlatforms);
+        return true;
+      } catch (error) {
+        console.error('Error starting generation:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to start generation');
+        return false;
+      } finally {
+        setIsStartingJob(false);
       }
+    },
+    [enabledPlatforms]
+  );
 
-      toast.success(`Generated captions for ${postsNeedingGeneration.length} posts`);
-    } catch (error) {
-      console.error('Error generating captions:', error);
-      toast.error('Failed to generate some captions');
-    } finally {
-      setIsGeneratingAll(false);
-      setGenerationProgress({ current: 0, total: 0 });
-    }
-  }, [user, workspace, postsNeedingGeneration]);
+  // Handle generate all
+  const handleGenerateAll = useCallback(async () => {
+    if (!user || !workspace || postsNeedingGeneration.length === 0) return;
+    await startJob(postsNeedingGeneration.map((post) => post.id));
+  }, [user, workspace, postsNeedingGeneration, startJob]);
 
   // Regenerate selected posts
   const handleRegenerateSelected = useCallback(async () => {
-    if (!user || !workspace || selectedDates.size === 0) return;
+    if (!user || !workspace || selectedIds.size === 0) return;
 
     const selectedPosts = posts.filter(
-      (p) => selectedDates.has(p.date) && p.starterText.trim()
+      (p) => selectedIds.has(p.id) && p.starterText.trim()
     );
 
     if (selectedPosts.length === 0) {
@@ -183,59 +197,36 @@ export default function ReviewPage() {
       return;
     }
 
-    setIsGeneratingAll(true);
-    setGenerationProgress({ current: 0, total: selectedPosts.length });
+    if (await startJob(selectedPosts.map((post) => post.id))) {
+      setSelectedIds(new Set());
+    }
+  }, [user, workspace, selectedIds, posts, startJob]);
 
-    try {
-      for (let i = 0; i < selectedPosts.length; i++) {
-        const post = selectedPosts[i];
-        setGenerationProgress({ current: i + 1, total: selectedPosts.length });
-
-        const result = await generateCaptions(post.starterText, workspace.settings.ai);
-
-        await updatePost(user.uid, post.date, {
-          facebook: {
-            caption: result.facebook.caption,
-            hashtags: result.facebook.hashtags,
-            scheduledTime: post.facebook?.scheduledTime || '12:00',
-            timeSource: 'ai' as const,
-          },
-          instagram: {
-            caption: result.instagram.caption,
-            hashtags: result.instagram.hashtags,
-            scheduledTime: post.instagram?.scheduledTime || '19:00',
-            timeSource: 'ai' as const,
-          },
-          status: 'generated',
-          aiMeta: {
-            model: result.model,
-            generatedAt: Timestamp.now(),
-            confidence: result.confidence,
-          },
-        });
-      }
+  // Retry the posts that failed in the last job
+  const handleRetryFailed = useCallback(async () => {
+    if (!job) return;
 
-      toast.success(`Regenerated ${selectedPosts.length} post(s)`);
-      setSelectedDates(new Set());
+    setIsStartingJob(true);
+    try {
+      await resumeGenerationJob(job.id);
     } catch (error) {
-      console.error('Error regenerating:', error);
-      toast.error('Failed to regenerate some posts');
+      console.error('Error retrying generation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to retry generation');
     } finally {
-      setIsGeneratingAll(false);
-      setGenerationProgress({ current: 0, total: 0 });
+      setIsStartingJob(false);
     }
-  }, [user, workspace, selectedDates, posts]);
+  }, [job]);
 
   // Delete selected posts
   const handleDeleteSelected = useCallback(async () => {
-    if (!user || selectedDates.size === 0) return;
+    if (!user || selectedIds.size === 0) return;
 
     setIsDeleting(true);
 
     try {
-      await deletePostsBatch(user.uid, Array.from(selectedDates));
-      toast.success(`Deleted ${selectedDates.size} post(s)`);
-      setSelectedDates(new Set());
+      await deletePostsBatch(user.uid, Array.from(selectedIds));
+      toast.success(`Deleted ${selectedIds.size} post(s)`);
+      setSelectedIds(new Set());
       setShowDeleteModal(false);
     } catch (error) {
       console.error('Error deleting posts:', error);
@@ -243,7 +234,7 @@ export default function ReviewPage() {
     } finally {
       setIsDeleting(false);
     }
-  }, [user, selectedDates]);
+  }, [user, selectedIds]);
 
   return (
     <AuthGuard>
@@ -255,22 +246,22 @@ export default function ReviewPage() {
             subtitle="Generate and edit AI captions for your posts"
             actions={
               <div className="flex gap-3">
-                {selectedDates.size > 0 ? (
+                {selectedIds.size > 0 ? (
                   <>
                     <Button
                       variant="secondary"
                       onClick={handleRegenerateSelected}
                       isLoading={isGeneratingAll}
                     >
-                      {isGeneratingAll
-                        ? `Regenerating ${generationProgress.current}/${generationProgress.total}`
-                        : `Regenerate (${selectedDates.size})`}
+                      {isJobRunning && jobProgress
+                        ? `Generating ${jobProgress.total - jobProgress.remaining}/${jobProgress.total}`
+                        : `Regenerate (${selectedIds.size})`}
                     </Button>
                     <Button
                       variant="danger"
                       onClick={() => setShowDeleteModal(true)}
                     >
-                      Delete ({selectedDates.size})
+                      Delete ({selectedIds.size})
                     </Button>
                   </>
                 ) : (
@@ -279,8 +270,8 @@ export default function ReviewPage() {
                       onClick={handleGenerateAll}
                       isLoading={isGeneratingAll}
                     >
-                      {isGeneratingAll
-                        ? `Generating ${generationProgress.current}/${generationProgress.total}`
+                      {isJobRunning && jobProgress
+                        ? `Generating ${jobProgress.total - jobProgress.remaining}/${jobProgress.total}`
                         : `Generate All (${postsNeedingGeneration.length})`}
                     </Button>
                   )
@@ -295,7 +286,7 @@ export default function ReviewPage() {
               <label className="flex cursor-pointer items-center gap-2">
                 <input
                   type="checkbox"
-                  checked={selectedDates.size === filteredPosts.length && filteredPosts.length > 0}
+                  checked={selectedIds.size === filteredPosts.length && filteredPosts.length > 0}
                   onChange={toggleSelectAll}
                   className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                 />
@@ -306,23 +297,20 @@ export default function ReviewPage() {
             )}
 
             <div className="flex gap-2">
-              {(['all', 'facebook', 'instagram'] as const).map((f) => (
+              {(['all', ...enabledPlatforms] as PlatformFilter[]).map((f) => (
                 <button
                   key={f}
                   onClick={() => setPlatformFilter(f)}
                   className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors ${
                     platformFilter === f
-                      ? f === 'facebook'
-                        ? 'bg-facebook/10 text-facebook'
-                        : f === 'instagram'
-                        ? 'bg-instagram/10 text-instagram'
+                      ? f !== 'all'
+                        ? `${getPlatform(f).colors.subtle} ${getPlatform(f).colors.text}`
                         : 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-400'
                       : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
                   }`}
                 >
-                  {f === 'facebook' && <FacebookIcon className="h-4 w-4" />}
-                  {f === 'instagram' && <InstagramIcon className="h-4 w-4" />}
-                  {f.charAt(0).toUpperCase() + f.slice(1)}
+                  {f !== 'all' && <PlatformIcon platform={f} className="h-4 w-4" />}
+                  {f === 'all' ? 'All' : getPlatform(f).label}
                 </button>
               ))}
             </div>
@@ -341,6 +329,24 @@ export default function ReviewPage() {
             </div>
           </div>
 
+          {/* Failed posts from the last generation job */}
+          {job?.status === 'failed' && jobProgress && jobProgress.failed > 0 && (
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              <span>
+                Captions failed to generate for {jobProgress.failed} of {jobProgress.total} posts.
+                Affected posts are marked below.
+              </span>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={handleRetryFailed}
+                isLoading={isStartingJob}
+              >
+                Retry failed ({jobProgress.failed})
+              </Button>
+            </div>
+          )}
+
           {/* Posts List */}
           {postsLoading ? (
             <Card padding="lg">
@@ -369,12 +375,13 @@ export default function ReviewPage() {
             <div className="space-y-6">
               {filteredPosts.map((post) => (
                 <PostCard
-                  key={post.date}
+                  key={post.id}
                   post={post}
                   platformFilter={platformFilter}
                   today={today}
-                  isSelected={selectedDates.has(post.date)}
-                  onToggleSelect={() => toggleSelect(post.date)}
+                  spacingWarnings={spacingViolations.get(post.id)}
+                  isSelected={selectedIds.has(post.id)}
+                  onToggleSelect={() => toggleSelect(post.id)}
                 />
               ))}
             </div>
@@ -396,7 +403,7 @@ export default function ReviewPage() {
           size="sm"
         >
           <p className="text-gray-600 dark:text-gray-400">
-            Are you sure you want to delete {selectedDates.size} post(s)? This
+            Are you sure you want to delete {selectedIds.size} post(s)? This
             action cannot be undone.
           </p>
           <ModalFooter>
@@ -424,13 +431,22 @@ interface PostCardProps {
   post: Post;
   platformFilter: PlatformFilter;
   today: string;
+  spacingWarnings?: string[];
   isSelected: boolean;
   onToggleSelect: () => void;
 }
 
-function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: PostCardProps) {
+function PostCard({
+  post,
+  platformFilter,
+  today,
+  spacingWarnings,
+  isSelected,
+  onToggleSelect,
+}: PostCardProps) {
   const { user } = useAuth();
   const { workspace } = useWorkspace();
+  const enabledPlatforms = getEnabledPlatforms(workspace);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isEditingDate, setIsEditingDate] = useState(false);
   const [newDate, setNewDate] = useState(post.date);
@@ -447,7 +463,13 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
 
     setIsChangingDate(true);
     try {
-      const result = await changePostDate(user.uid, post.date, newDate);
+      const result = await changePostDate(
+        user.uid,
+        post.id,
+        newDate,
+        getMaxPostsPerDay(workspace),
+        getWorkspaceTimezone(workspace)
+      );
       if (result.success) {
         toast.success('Date updated');
         setIsEditingDate(false);
@@ -481,44 +503,32 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
       const result = await generateCaptions(
         post.starterText,
         workspace.settings.ai,
-        {
-          fbCaption: post.facebook?.caption,
-          igCaption: post.instagram?.caption,
-        }
+        Object.fromEntries(
+          enabledPlatforms.map((platform) => [platform, post[platform]?.caption])
+        ),
+        enabledPlatforms,
+        getObservanceNames(post.date, workspace.settings.customObservances)
       );
 
-      await updatePost(user.uid, post.date, {
-        facebook: {
-          caption: result.facebook.caption,
-          hashtags: result.facebook.hashtags,
-          scheduledTime: post.facebook?.scheduledTime || '12:00',
-          timeSource: post.facebook?.timeSource || 'ai',
-        },
-        instagram: {
-          caption: result.instagram.caption,
-          hashtags: result.instagram.hashtags,
-          scheduledTime: post.instagram?.scheduledTime || '19:00',
-          timeSource: post.instagram?.timeSource || 'ai',
-        },
-        status: 'generated',
-        aiMeta: {
-          model: result.model,
-          generatedAt: Timestamp.now(),
-          confidence: result.confidence,
-        },
-      });
+      await updatePost(user.uid, post.id, buildGeneratedPostUpdate(post, result, Timestamp.now()));
 
       toast.success('Captions generated');
     } catch (error) {
       console.error('Error generating:', error);
       toast.error('Failed to generate captions');
+      await recordGenerationError(user.uid, post.id, error);
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const showFacebook = platformFilter === 'all' || platformFilter === 'facebook';
-  const showInstagram = platformFilter === 'all' || platformFilter === 'instagram';
+  const visiblePlatforms = enabledPlatforms.filter(
+    (platform) => platformFilter === 'all' || platformFilter === platform
+  );
+  const lintFindings = lintPost(post, visiblePlatforms, { brand: workspace?.settings.brand });
+  const lintedPlatforms = visiblePlatforms.filter(
+    (platform) => (lintFindings[platform]?.length || 0) > 0
+  );
 
   return (
     <Card padding="none">
@@ -562,6 +572,9 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
                 </button>
               )}
               <StatusBadge status={post.status} />
+              {post.generationError && (
+                <GenerationErrorBadge message={post.generationError.message} />
+              )}
             </div>
             <Button
               size="sm"
@@ -569,7 +582,7 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
               onClick={handleGenerate}
               isLoading={isGenerating}
             >
-              {post.facebook || post.instagram ? 'Regenerate' : 'Generate'}
+              {enabledPlatforms.some((platform) => post[platform]) ? 'Regenerate All' : 'Generate'}
             </Button>
           </div>
 
@@ -598,25 +611,54 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
               </p>
             </div>
           )}
+
+          {spacingWarnings && spacingWarnings.length > 0 && (
+            <div className="mt-3 rounded-lg bg-amber-50 p-2 dark:bg-amber-900/20">
+              <p className="text-xs font-medium text-amber-700 dark:text-amber-400">
+                Spacing
+              </p>
+              <ul className="mt-1 space-y-0.5 text-xs text-amber-700 dark:text-amber-400">
+                {spacingWarnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {lintedPlatforms.length > 0 && (
+            <div className="mt-3">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                Caption checks
+              </p>
+              <ul className="mt-1 space-y-1">
+                {lintedPlatforms.map((platform) => (
+                  <li key={platform} className="flex flex-wrap items-center gap-1">
+                    <PlatformIcon
+                      platform={platform}
+                      className={`h-3.5 w-3.5 ${getPlatform(platform).colors.text}`}
+                    />
+                    {lintFindings[platform]!.map((finding) => (
+                      <LintBadge key={finding.rule} finding={finding} />
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Right column - Platform captions */}
         <div className="flex flex-1 flex-col md:flex-row">
-          {showFacebook && (
-            <PlatformEditor
-              platform="facebook"
-              post={post}
-              charLimit={FB_CHAR_LIMIT}
-              className={showInstagram ? 'border-b md:border-b-0 md:border-r' : ''}
-            />
-          )}
-          {showInstagram && (
+          {visiblePlatforms.map((platform, index) => (
             <PlatformEditor
-              platform="instagram"
+              key={platform}
+              platform={platform}
               post={post}
-              charLimit={IG_CHAR_LIMIT}
+              className={
+                index < visiblePlatforms.length - 1 ? 'border-b md:border-b-0 md:border-r' : ''
+              }
             />
-          )}
+          ))}
         </div>
       </div>
     </Card>
@@ -624,36 +666,40 @@ function PostCard({ post, platformFilter, today, isSelected, onToggleSelect }: P
 }
 
 interface PlatformEditorProps {
-  platform: 'facebook' | 'instagram';
+  platform: PlatformId;
   post: Post;
-  charLimit: number;
   className?: string;
 }
 
-function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformEditorProps) {
+function PlatformEditor({ platform, post, className = '' }: PlatformEditorProps) {
   const { user } = useAuth();
+  const { workspace } = useWorkspace();
   const platformData = post[platform];
+  const config = getPlatform(platform);
+  const charLimit = config.charLimit;
 
   const [caption, setCaption] = useState(platformData?.caption || '');
   const [hashtags, setHashtags] = useState<string[]>(platformData?.hashtags || []);
   const [scheduledTime, setScheduledTime] = useState(platformData?.scheduledTime || '');
   const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showVariants, setShowVariants] = useState(false);
 
   // Debounced save for caption
-  const [debouncedSaveCaption] = useDebouncedCallback(
+  const [debouncedSaveCaption, cancelSaveCaption] = useDebouncedCallback(
     async (newCaption: string) => {
       if (!user || !platformData) return;
 
       setIsSaving(true);
       try {
-        const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-        await updateFn(user.uid, post.date, {
+        await updatePostPlatform(user.uid, post.id, platform, {
           ...platformData,
           caption: newCaption,
         });
         // Mark as edited if it was previously generated
         if (post.status === 'generated') {
-          await updatePost(user.uid, post.date, { status: 'edited' });
+          await updatePost(user.uid, post.id, { status: 'edited' });
         }
       } catch (error) {
         console.error('Error saving caption:', error);
@@ -671,13 +717,12 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
     if (!user || !platformData) return;
 
     try {
-      const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-      await updateFn(user.uid, post.date, {
+      await updatePostPlatform(user.uid, post.id, platform, {
         ...platformData,
         hashtags: newHashtags,
       });
       if (post.status === 'generated') {
-        await updatePost(user.uid, post.date, { status: 'edited' });
+        await updatePost(user.uid, post.id, { status: 'edited' });
       }
     } catch (error) {
       console.error('Error saving hashtags:', error);
@@ -691,14 +736,13 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
     if (!user || !platformData) return;
 
     try {
-      const updateFn = platform === 'facebook' ? updatePostFacebook : updatePostInstagram;
-      await updateFn(user.uid, post.date, {
+      await updatePostPlatform(user.uid, post.id, platform, {
         ...platformData,
         scheduledTime: newTime,
         timeSource: 'manual',
       });
       if (post.status === 'generated') {
-        await updatePost(user.uid, post.date, { status: 'edited' });
+        await updatePost(user.uid, post.id, { status: 'edited' });
       }
     } catch (error) {
       console.error('Error saving time:', error);
@@ -712,23 +756,124 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
     debouncedSaveCaption(newCaption);
   };
 
+  // Restore caption, hashtags and time from an earlier revision
+  const handleRestore = async (revision: PostRevision) => {
+    if (!user) return;
+
+    cancelSaveCaption();
+    try {
+      const restored = await restorePostRevision(user.uid, post, revision);
+      setCaption(restored.caption);
+      setHashtags(restored.hashtags);
+      setScheduledTime(restored.scheduledTime);
+      toast.success(`${config.label} caption restored`);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore');
+    }
+  };
+
+  // Regenerate only this platform; other platforms and their times are left as-is.
+  // The current caption is sent so the new one differs, along with any refine feedback.
+  const handleRegenerate = async (feedback: string = '') => {
+    if (!user || !workspace) return;
+    if (!post.starterText.trim()) {
+      toast.error('No starter text to generate from');
+      return;
+    }
+
+    cancelSaveCaption();
+    setIsRegenerating(true);
+    try {
+      const result = await generateCaptions(
+        post.starterText,
+        workspace.settings.ai,
+        { [platform]: caption },
+        [platform],
+        getObservanceNames(post.date, workspace.settings.customObservances),
+        feedback
+      );
+
+      await updatePost(
+        user.uid,
+        post.id,
+        buildPlatformRegenerateUpdate(post, platform, result, Timestamp.now())
+      );
+
+      const generated = result.captions[platform];
+      if (generated) {
+        setCaption(generated.caption);
+        setHashtags(generated.hashtags);
+      }
+      toast.success(
+        `${config.label} caption ${feedback ? 'refined' : platformData ? 'regenerated' : 'generated'}`
+      );
+    } catch (error) {
+      console.error('Error generating:', error);
+      toast.error(`Failed to generate ${config.label} caption`);
+      await recordGenerationError(user.uid, post.id, error);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  // Apply a chosen or merged variant; the full variant list stays on the post
+  const applyVariant = async (newCaption: string, newHashtags: string[]) => {
+    if (!user || !platformData) return;
+
+    cancelSaveCaption();
+    setCaption(newCaption);
+    setHashtags(newHashtags);
+    setShowVariants(false);
+    try {
+      await updatePostPlatform(user.uid, post.id, platform, {
+        ...platformData,
+        caption: newCaption,
+        hashtags: newHashtags,
+      });
+      if (post.status === 'generated') {
+        await updatePost(user.uid, post.id, { status: 'edited' });
+      }
+    } catch (error) {
+      console.error('Error applying variant:', error);
+      toast.error('Failed to apply variant');
+    }
+  };
+
+  const handleUseVariant = (variant: CaptionVariant) =>
+    applyVariant(variant.caption, variant.hashtags);
+
+  const handleMergeVariant = (variant: CaptionVariant) =>
+    applyVariant(
+      [caption.trim(), variant.caption.trim()].filter(Boolean).join('\n\n'),
+      [...new Set([...hashtags, ...variant.hashtags])]
+    );
+
   const fullText = buildFullCaption(caption, hashtags);
   const charCount = fullText.length;
   const isOverLimit = charCount > charLimit;
-
-  const PlatformIcon = platform === 'facebook' ? FacebookIcon : InstagramIcon;
-  const platformColor = platform === 'facebook' ? 'text-facebook' : 'text-instagram';
-  const platformBgColor = platform === 'facebook' ? 'bg-facebook/10' : 'bg-instagram/10';
+  const variants = platformData?.variants || [];
 
   if (!platformData) {
     return (
       <div
         className={`flex flex-1 flex-col items-center justify-center p-6 text-center ${className} border-gray-200 dark:border-gray-700`}
       >
-        <PlatformIcon className={`mb-2 h-8 w-8 ${platformColor} opacity-30`} />
+        <PlatformIcon platform={platform} className={`mb-2 h-8 w-8 ${config.colors.text} opacity-30`} />
         <p className="text-sm text-gray-500 dark:text-gray-400">
-          Generate captions to edit {platform}
+          Generate captions to edit {config.label}
         </p>
+        {post.starterText.trim() && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleRegenerate()}
+            isLoading={isRegenerating}
+            className="mt-2"
+          >
+            Generate {config.shortLabel}
+          </Button>
+        )}
       </div>
     );
   }
@@ -740,16 +885,30 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
       {/* Header */}
       <div className="mb-3 flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <div className={`rounded-lg p-1.5 ${platformBgColor}`}>
-            <PlatformIcon className={`h-4 w-4 ${platformColor}`} />
+          <div className={`rounded-lg p-1.5 ${config.colors.subtle}`}>
+            <PlatformIcon platform={platform} className={`h-4 w-4 ${config.colors.text}`} />
           </div>
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            {platform.charAt(0).toUpperCase() + platform.slice(1)}
+            {config.label}
           </span>
         </div>
 
         <div className="flex items-center gap-2">
           {isSaving && <Spinner size="sm" />}
+          {variants.length > 1 && (
+            <Button size="sm" variant="ghost" onClick={() => setShowVariants(true)}>
+              Variants ({variants.length})
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleRegenerate()}
+            isLoading={isRegenerating}
+            title={`Regenerate the ${config.label} caption only`}
+          >
+            Regenerate
+          </Button>
           <TimePicker
             value={scheduledTime}
             onChange={(e) => handleTimeChange(e.target.value)}
@@ -758,6 +917,11 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
         </div>
       </div>
 
+      {/* Refine */}
+      <div className="mb-3">
+        <CaptionRefineInput onRefine={handleRegenerate} isLoading={isRegenerating} />
+      </div>
+
       {/* Caption */}
       <div className="relative flex-1">
         <textarea
@@ -803,23 +967,39 @@ function PlatformEditor({ platform, post, charLimit, className = '' }: PlatformE
           </details>
         </div>
       )}
-    </div>
-  );
-}
 
-// Platform Icons
-function FacebookIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z" />
-    </svg>
-  );
-}
+      {/* History */}
+      <div className="mt-3">
+        <button
+          type="button"
+          onClick={() => setShowHistory((open) => !open)}
+          className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+        >
+          {showHistory ? 'Hide history' : 'Show history'}
+        </button>
+        {showHistory && user && (
+          <div className="mt-2">
+            <RevisionHistoryPanel
+              workspaceId={user.uid}
+              post={post}
+              platform={platform}
+              onRestore={handleRestore}
+            />
+          </div>
+        )}
+      </div>
 
-function InstagramIcon({ className }: { className?: string }) {
-  return (
-    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
-      <path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z" />
-    </svg>
+      {variants.length > 1 && (
+        <CaptionVariantsModal
+          isOpen={showVariants}
+          onClose={() => setShowVariants(false)}
+          platform={platform}
+          variants={variants}
+          currentCaption={caption}
+          onUse={handleUseVariant}
+          onMerge={handleMergeVariant}
+        />
+      )}
+    </div>
   );
 }
@@ -5,6 +5,23 @@ import { AuthGuard, Navbar } from '@/components/layout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useWorkspace } from '@/hooks';
+import {
+  DEFAULT_MAX_POSTS_PER_DAY,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getWorkspaceTimezone,
+} from '@/lib/services';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+import { DEFAULT_ENABLED_PLATFORMS, PLATFORM_IDS, getPlatform } from '@/lib/platforms';
+import { getSpacingRules, type SchedulingPreferences } from '@/lib/scheduling';
+import { PostingWindowsEditor } from '@/components/PostingWindowsEditor';
+import { BlackoutDatesEditor } from '@/components/BlackoutDatesEditor';
+import { SpacingRulesEditor } from '@/components/SpacingRulesEditor';
+import { ObservancesEditor } from '@/components/ObservancesEditor';
+import { AIUsageSummary } from '@/components/AIUsageSummary';
+import { BrandProfileEditor } from '@/components/BrandProfileEditor';
+import { WorkspaceBackupCard } from '@/components/WorkspaceBackupCard';
+import { normalizeBrandProfile } from '@/lib/brandProfile';
 import {
   PageHeader,
   Card,
@@ -12,22 +29,75 @@ import {
   CardContent,
   Button,
   Textarea,
+  Input,
   RadioGroup,
   Select,
   TIMEZONE_OPTIONS,
   Spinner,
+  Toggle,
+  PlatformIcon,
   toast,
 } from '@/components/ui';
+import type {
+  AIProviderId,
+  BlackoutRange,
+  BrandProfile,
+  Observance,
+  PlatformId,
+  SpacingRules,
+} from '@/types';
+
+const AI_PROVIDER_OPTIONS = [
+  { value: '', label: 'Server default' },
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'local', label: 'Local model (Ollama or OpenAI-compatible)' },
+  { value: 'stub', label: 'Offline stub (template captions, no AI)' },
+];
+
+const VARIANT_COUNT_OPTIONS = [1, 2, 3, 4, 5].map((n) => ({
+  value: String(n),
+  label: n === 1 ? '1 caption' : `${n} variants`,
+}));
+
+const MAX_POSTS_PER_DAY_OPTIONS = [1, 2, 3, 4, 5].map((n) => ({
+  value: String(n),
+  label: n === 1 ? '1 post' : `${n} posts`,
+}));
 
 export default function SettingsPage() {
   const { user, signOut } = useAuth();
   const { theme, setTheme } = useTheme();
-  const { workspace, loading, updateAI, updateScheduling } = useWorkspace();
+  const {
+    workspace,
+    loading,
+    updateAI,
+    updateScheduling,
+    updatePlatforms,
+    updateObservances,
+    updateBrand,
+  } = useWorkspace();
 
   const [brandVoice, setBrandVoice] = useState('');
   const [hashtagStyle, setHashtagStyle] = useState<'minimal' | 'moderate' | 'heavy'>('moderate');
   const [emojiStyle, setEmojiStyle] = useState<'low' | 'medium' | 'high'>('medium');
-  const [timezone, setTimezone] = useState('America/Denver');
+  const [aiProvider, setAIProvider] = useState<AIProviderId | ''>('');
+  const [aiModel, setAIModel] = useState('');
+  const [variantCount, setVariantCount] = useState(1);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [maxPostsPerDay, setMaxPostsPerDay] = useState(DEFAULT_MAX_POSTS_PER_DAY);
+  const [postingWindows, setPostingWindows] = useState<
+    NonNullable<SchedulingPreferences['postingWindows']>
+  >({});
+  const [dayPriorities, setDayPriorities] = useState<
+    NonNullable<SchedulingPreferences['dayPriorities']>
+  >({});
+  const [spacing, setSpacing] = useState<SpacingRules>(() => getSpacingRules());
+  const [closedDays, setClosedDays] = useState<number[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutRange[]>([]);
+  const [enabledPlatforms, setEnabledPlatforms] = useState<PlatformId[]>(DEFAULT_ENABLED_PLATFORMS);
+  const [customObservances, setCustomObservances] = useState<Observance[]>([]);
+  const [brandProfile, setBrandProfile] = useState<BrandProfile>(() => normalizeBrandProfile());
   const [saving, setSaving] = useState(false);
 
   // Load workspace settings when available
@@ -36,12 +106,37 @@ export default function SettingsPage() {
       setBrandVoice(workspace.settings.ai.brandVoice || '');
       setHashtagStyle(workspace.settings.ai.hashtagStyle || 'moderate');
       setEmojiStyle(workspace.settings.ai.emojiStyle || 'medium');
+      setAIProvider(workspace.settings.ai.provider || '');
+      setAIModel(workspace.settings.ai.model || '');
+      setVariantCount(workspace.settings.ai.variantCount || 1);
     }
     if (workspace?.settings?.scheduling) {
-      setTimezone(workspace.settings.scheduling.timezone || 'America/Denver');
+      setTimezone(getWorkspaceTimezone(workspace));
+      setMaxPostsPerDay(getMaxPostsPerDay(workspace));
+      setPostingWindows(workspace.settings.scheduling.postingWindows || {});
+      setDayPriorities(workspace.settings.scheduling.dayPriorities || {});
+      setSpacing(getSpacingRules(workspace.settings.scheduling));
+      setClosedDays(workspace.settings.scheduling.closedDays || []);
+      setBlackoutDates(workspace.settings.scheduling.blackoutDates || []);
+    }
+    if (workspace) {
+      setEnabledPlatforms(getEnabledPlatforms(workspace));
+      setCustomObservances(workspace.settings.customObservances || []);
+      setBrandProfile(normalizeBrandProfile(workspace.settings.brand));
     }
   }, [workspace]);
 
+  const togglePlatform = (platform: PlatformId, enabled: boolean) => {
+    setEnabledPlatforms((prev) => {
+      if (enabled) {
+        return PLATFORM_IDS.filter((p) => p === platform || prev.includes(p));
+      }
+      // At least one platform must stay enabled
+      if (prev.length === 1) return prev;
+      return prev.filter((p) => p !== platform);
+    });
+  };
+
   const handleSave = async () => {
     setSaving(true);
     try {
@@ -50,10 +145,22 @@ export default function SettingsPage() {
           brandVoice,
           hashtagStyle,
           emojiStyle,
+          provider: aiProvider || undefined,
+          model: aiModel.trim() || undefined,
+          variantCount,
         }),
         updateScheduling({
           timezone,
+          maxPostsPerDay,
+          postingWindows,
+          dayPriorities,
+          closedDays,
+          blackoutDates,
+          spacing,
         }),
+        updatePlatforms(enabledPlatforms),
+        updateObservances(customObservances),
+        updateBrand(brandProfile),
       ]);
       toast.success('Settings saved successfully');
     } catch (error) {
@@ -120,6 +227,30 @@ export default function SettingsPage() {
                       ]}
                     />
 
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <Select
+                        label="AI Provider"
+                        value={aiProvider}
+                        onChange={(e) => setAIProvider(e.target.value as AIProviderId | '')}
+                        options={AI_PROVIDER_OPTIONS}
+                        helperText="API keys and endpoints are configured on the server"
+                      />
+                      <Input
+                        label="Model (optional)"
+                        placeholder="Provider default"
+                        value={aiModel}
+                        onChange={(e) => setAIModel(e.target.value)}
+                        helperText="e.g. gpt-4o-mini, claude-3-5-haiku-latest, llama3.1"
+                      />
+                      <Select
+                        label="Captions per platform"
+                        value={String(variantCount)}
+                        onChange={(e) => setVariantCount(Number(e.target.value))}
+                        options={VARIANT_COUNT_OPTIONS}
+                        helperText="Generate several variants to compare on the review page"
+                      />
+                    </div>
+
                     <div className="pt-4">
                       <Button onClick={handleSave} isLoading={saving}>
                         Save AI Settings
@@ -130,6 +261,37 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Brand Profile */}
+            <Card padding="none">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Brand Profile
+                </h2>
+              </CardHeader>
+              <CardContent padding="lg">
+                <BrandProfileEditor profile={brandProfile} onChange={setBrandProfile} />
+                <div className="mt-6">
+                  <Button onClick={handleSave} isLoading={saving}>
+                    Save Brand Profile
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* AI Usage */}
+            {user && (
+              <Card padding="none">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    AI Usage This Month
+                  </h2>
+                </CardHeader>
+                <CardContent padding="lg">
+                  <AIUsageSummary workspaceId={user.uid} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Scheduling */}
             <Card padding="none">
               <CardHeader>
@@ -143,8 +305,114 @@ export default function SettingsPage() {
                   value={timezone}
                   onChange={(e) => setTimezone(e.target.value)}
                   options={TIMEZONE_OPTIONS}
-                  helperText="Used for scheduling posts at the correct local time"
+                  helperText="Posts are scheduled, validated, and exported in this timezone"
+                />
+                <div className="mt-4">
+                  <Select
+                    label="Max posts per day"
+                    value={String(maxPostsPerDay)}
+                    onChange={(e) => setMaxPostsPerDay(Number(e.target.value))}
+                    options={MAX_POSTS_PER_DAY_OPTIONS}
+                    helperText="Limit per platform, applied when planning, importing, and moving posts"
+                  />
+                </div>
+                <div className="mt-4">
+                  <Button onClick={handleSave} isLoading={saving}>
+                    Save Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Platforms */}
+            <Card padding="none">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Platforms
+                </h2>
+              </CardHeader>
+              <CardContent padding="lg" className="space-y-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Choose which platforms get captions, scheduled times, and exports
+                </p>
+                {PLATFORM_IDS.map((platform) => {
+                  const config = getPlatform(platform);
+                  const enabled = enabledPlatforms.includes(platform);
+                  return (
+                    <div key={platform} className="flex items-center gap-3">
+                      <PlatformIcon platform={platform} className={`h-5 w-5 ${config.colors.text}`} />
+                      <div className="flex-1">
+                        <Toggle
+                          label={config.label}
+                          description={`Up to ${config.charLimit.toLocaleString()} characters${
+                            config.requiresImage ? ', image required' : ''
+                          }`}
+                          enabled={enabled}
+                          onChange={(value) => togglePlatform(platform, value)}
+                          disabled={enabled && enabledPlatforms.length === 1}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="pt-2">
+                  <Button onClick={handleSave} isLoading={saving}>
+                    Save Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Posting Windows */}
+            <Card padding="none">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Posting Windows
+                </h2>
+              </CardHeader>
+              <CardContent padding="lg">
+                <PostingWindowsEditor
+                  platforms={enabledPlatforms}
+                  postingWindows={postingWindows}
+                  dayPriorities={dayPriorities}
+                  onWindowsChange={setPostingWindows}
+                  onPrioritiesChange={setDayPriorities}
+                />
+                <div className="mt-6 border-t border-gray-200 pt-6 dark:border-gray-700">
+                  <h3 className="mb-4 text-sm font-semibold text-gray-900 dark:text-white">
+                    Spacing
+                  </h3>
+                  <SpacingRulesEditor
+                    platforms={enabledPlatforms}
+                    rules={spacing}
+                    onChange={setSpacing}
+                  />
+                </div>
+                <div className="mt-4">
+                  <Button onClick={handleSave} isLoading={saving}>
+                    Save Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Closed Days & Blackouts */}
+            <Card padding="none">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Closed Days &amp; Blackouts
+                </h2>
+              </CardHeader>
+              <CardContent padding="lg">
+                <BlackoutDatesEditor
+                  closedDays={closedDays}
+                  blackoutDates={blackoutDates}
+                  onClosedDaysChange={setClosedDays}
+                  onBlackoutDatesChange={setBlackoutDates}
                 />
+                <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+                  The schedule generator and CSV import skip these dates; they are shaded on the calendar.
+                </p>
                 <div className="mt-4">
                   <Button onClick={handleSave} isLoading={saving}>
                     Save Settings
@@ -153,6 +421,44 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Holidays & Observances */}
+            <Card padding="none">
+              <CardHeader>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Holidays &amp; Observances
+                </h2>
+              </CardHeader>
+              <CardContent padding="lg">
+                <ObservancesEditor
+                  observances={customObservances}
+                  onChange={setCustomObservances}
+                />
+                <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+                  Observances are flagged in the schedule preview and mentioned to the AI when
+                  captions are generated for that date.
+                </p>
+                <div className="mt-4">
+                  <Button onClick={handleSave} isLoading={saving}>
+                    Save Settings
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Backup & Restore */}
+            {user && (
+              <Card padding="none">
+                <CardHeader>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Backup &amp; Restore
+                  </h2>
+                </CardHeader>
+                <CardContent padding="lg">
+                  <WorkspaceBackupCard workspaceId={user.uid} workspace={workspace} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Appearance */}
             <Card padding="none">
               <CardHeader>
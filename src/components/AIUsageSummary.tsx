@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getWorkspaceUsage } from '@/lib/services';
+import { formatCost, getUsageMonth } from '@/lib/aiPricing';
+import { Spinner } from '@/components/ui';
+import type { WorkspaceUsage } from '@/types';
+
+interface AIUsageSummaryProps {
+  workspaceId: string;
+}
+
+function UsageMeter({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 0;
+
+  return (
+    <div>
+      <div className="mb-1 flex justify-between text-sm">
+        <span className="text-gray-700 dark:text-gray-300">{label}</span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {used.toLocaleString()}
+          {limit > 0 ? ` / ${limit.toLocaleString()}` : ' (no limit)'}
+        </span>
+      </div>
+      {limit > 0 && (
+        <div className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+          <div
+            className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : 'bg-primary-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AIUsageSummary({ workspaceId }: AIUsageSummaryProps) {
+  const [usage, setUsage] = useState<WorkspaceUsage | null | undefined>(undefined);
+  const month = getUsageMonth();
+
+  useEffect(() => {
+    getWorkspaceUsage(workspaceId, month)
+      .then(setUsage)
+      .catch((error) => {
+        console.error('Error loading AI usage:', error);
+        setUsage(null);
+      });
+  }, [workspaceId, month]);
+
+  if (usage === undefined) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  const monthLabel = new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  if (!usage) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No captions generated in {monthLabel} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <UsageMeter label="Generations" used={usage.requests || 0} limit={usage.requestLimit} />
+      <UsageMeter
+        label="Tokens"
+        used={(usage.inputTokens || 0) + (usage.outputTokens || 0)}
+        limit={usage.tokenLimit}
+      />
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {monthLabel} (UTC) · estimated cost {formatCost(usage.cost || 0)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Button, DateRangePicker, Input } from '@/components/ui';
+import type { BlackoutRange } from '@/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface BlackoutDatesEditorProps {
+  closedDays: number[];
+  blackoutDates: BlackoutRange[];
+  onClosedDaysChange: (closedDays: number[]) => void;
+  onBlackoutDatesChange: (blackoutDates: BlackoutRange[]) => void;
+}
+
+function formatRange(range: BlackoutRange): string {
+  const format = (date: string) =>
+    new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  return range.start === range.end
+    ? format(range.start)
+    : `${format(range.start)} – ${format(range.end)}`;
+}
+
+export function BlackoutDatesEditor({
+  closedDays,
+  blackoutDates,
+  onClosedDaysChange,
+  onBlackoutDatesChange,
+}: BlackoutDatesEditorProps) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [label, setLabel] = useState('');
+
+  const rangeError = startDate && endDate && endDate < startDate
+    ? 'End date must be on or after start date'
+    : undefined;
+
+  const toggleDay = (day: number) => {
+    const next = closedDays.includes(day)
+      ? closedDays.filter((d) => d !== day)
+      : [...closedDays, day].sort((a, b) => a - b);
+    onClosedDaysChange(next);
+  };
+
+  const handleAdd = () => {
+    if (!startDate || rangeError) return;
+
+    const range: BlackoutRange = { start: startDate, end: endDate || startDate };
+    if (label.trim()) {
+      range.label = label.trim();
+    }
+
+    onBlackoutDatesChange(
+      [...blackoutDates, range].sort((a, b) => a.start.localeCompare(b.start))
+    );
+    setStartDate('');
+    setEndDate('');
+    setLabel('');
+  };
+
+  const handleRemove = (index: number) => {
+    onBlackoutDatesChange(blackoutDates.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="mb-1.5 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Closed every week
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((name, day) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={clsx(
+                'rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors',
+                closedDays.includes(day)
+                  ? 'border-gray-500 bg-gray-200 text-gray-900 dark:border-gray-400 dark:bg-gray-700 dark:text-white'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800'
+              )}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-1.5 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Blackout dates
+        </p>
+        {blackoutDates.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No blackout dates. Add holidays, private events, or vacations below.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+            {blackoutDates.map((range, index) => (
+              <li
+                key={`${range.start}-${range.end}-${index}`}
+                className="flex items-center justify-between px-3 py-2 text-sm"
+              >
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {formatRange(range)}
+                  </span>
+                  {range.label && (
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">{range.label}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(index)}
+                  className="text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-4 space-y-3">
+          <DateRangePicker
+            startDate={startDate}
+            endDate={endDate}
+            onStartDateChange={setStartDate}
+            onEndDateChange={setEndDate}
+            error={rangeError}
+          />
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Input
+                label="Label (optional)"
+                placeholder="e.g. Thanksgiving, private event"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <Button variant="secondary" onClick={handleAdd} disabled={!startDate || !!rangeError}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { MAX_SAMPLE_POSTS } from '@/lib/brandProfile';
+import { Button, HashtagInput, Input, Textarea } from '@/components/ui';
+import type { BrandProfile } from '@/types';
+
+interface BrandProfileEditorProps {
+  profile: BrandProfile;
+  onChange: (profile: BrandProfile) => void;
+}
+
+const LABEL_CLASS = 'mb-1.5 block text-sm font-medium text-gray-700 dark:text-gray-300';
+
+/**
+ * Editable list of short phrases, added one at a time
+ */
+function PhraseList({
+  label,
+  items,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}) {
+  const [value, setValue] = useState('');
+
+  const handleAdd = () => {
+    const phrase = value.trim();
+    if (!phrase) return;
+    if (!items.some((item) => item.toLowerCase() === phrase.toLowerCase())) {
+      onChange([...items, phrase]);
+    }
+    setValue('');
+  };
+
+  return (
+    <div>
+      <span className={LABEL_CLASS}>{label}</span>
+      {items.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1.5">
+          {items.map((item) => (
+            <span
+              key={item}
+              className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-0.5 text-sm text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+            >
+              {item}
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((i) => i !== item))}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Remove ${item}`}
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Input
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+          />
+        </div>
+        <Button variant="secondary" onClick={handleAdd} disabled={!value.trim()}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function BrandProfileEditor({ profile, onChange }: BrandProfileEditorProps) {
+  const update = (changes: Partial<BrandProfile>) => onChange({ ...profile, ...changes });
+
+  const updateSample = (index: number, text: string) => {
+    update({ samplePosts: profile.samplePosts.map((post, i) => (i === index ? text : post)) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <span className={LABEL_CLASS}>Posts we love</span>
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+          Paste up to {MAX_SAMPLE_POSTS} past posts. The AI matches their tone and style.
+        </p>
+        <div className="space-y-3">
+          {profile.samplePosts.map((post, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                <Textarea
+                  value={post}
+                  onChange={(e) => updateSample(index, e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  update({ samplePosts: profile.samplePosts.filter((_, i) => i !== index) })
+                }
+                className="mt-2 text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {profile.samplePosts.length < MAX_SAMPLE_POSTS && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => update({ samplePosts: [...profile.samplePosts, ''] })}
+            >
+              Add sample post
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <PhraseList
+        label="Banned words and phrases"
+        items={profile.bannedPhrases}
+        placeholder='e.g. "mouthwatering"'
+        onChange={(bannedPhrases) => update({ bannedPhrases })}
+      />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <span className={LABEL_CLASS}>Always include hashtags</span>
+          <HashtagInput
+            hashtags={profile.requiredHashtags}
+            onChange={(requiredHashtags) => update({ requiredHashtags })}
+            placeholder="#yourbrand"
+          />
+        </div>
+        <div>
+          <span className={LABEL_CLASS}>Never use hashtags</span>
+          <HashtagInput
+            hashtags={profile.bannedHashtags}
+            onChange={(bannedHashtags) => update({ bannedHashtags })}
+            placeholder="#competitor"
+          />
+        </div>
+      </div>
+
+      <PhraseList
+        label="Signature sign-offs"
+        items={profile.signOffs}
+        placeholder="e.g. See you at the counter!"
+        onChange={(signOffs) => update({ signOffs })}
+      />
+
+      <Input
+        label="Default call to action"
+        placeholder="e.g. Book a table at the link in our bio"
+        value={profile.defaultCta}
+        onChange={(e) => update({ defaultCta: e.target.value })}
+      />
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Input
+          label="Address"
+          value={profile.address}
+          onChange={(e) => update({ address: e.target.value })}
+        />
+        <Input
+          label="Phone"
+          value={profile.phone}
+          onChange={(e) => update({ phone: e.target.value })}
+        />
+        <Input
+          label="Website"
+          value={profile.website}
+          onChange={(e) => update({ website: e.target.value })}
+        />
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Captions that use a banned phrase are rewritten automatically. Required hashtags count
+        toward each platform&rsquo;s hashtag total and are skipped on platforms without hashtags.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadBlob } from '@/lib/export';
+import { buildCalendarFeed, formatCalendarFilename } from '@/lib/icalendar';
+import { Button, Card, Input, toast } from '@/components/ui';
+import type { PlatformId, Post, WorkspaceSettings } from '@/types';
+
+interface CalendarFeedCardProps {
+  workspaceId: string;
+  workspace: WorkspaceSettings;
+  posts: Post[];
+  platforms: PlatformId[];
+  timezone: string;
+  onUpdateFeed: (enabled: boolean) => Promise<void>;
+}
+
+function getFeedUrl(workspaceId: string, token: string): string {
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+  return `${origin}/api/calendar/${workspaceId}?token=${token}`;
+}
+
+export function CalendarFeedCard({
+  workspaceId,
+  workspace,
+  posts,
+  platforms,
+  timezone,
+  onUpdateFeed,
+}: CalendarFeedCardProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const calendarName = `${workspace.name} posts`;
+  const feedUrl = workspace.calendarFeed
+    ? getFeedUrl(workspaceId, workspace.calendarFeed.token)
+    : null;
+
+  const handleDownload = () => {
+    const feed = buildCalendarFeed(posts, { name: calendarName, timezone, platforms });
+    downloadBlob(
+      new Blob([feed], { type: 'text/calendar;charset=utf-8;' }),
+      formatCalendarFilename(workspace.name)
+    );
+    toast.success('Downloaded calendar');
+  };
+
+  const handleUpdateFeed = async (enabled: boolean) => {
+    setIsUpdating(true);
+    try {
+      await onUpdateFeed(enabled);
+      toast.success(enabled ? 'Subscription link ready' : 'Subscription link turned off');
+    } catch (error) {
+      console.error('Error updating calendar feed:', error);
+      toast.error('Failed to update subscription link');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <Card padding="lg" className="mt-6">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Calendar</h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            See what posts when in Google Calendar or any calendar app, one event per platform
+            post
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleDownload}>
+          Download .ics
+        </Button>
+      </div>
+
+      {feedUrl ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Input
+                value={feedUrl}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                aria-label="Calendar subscription link"
+              />
+            </div>
+            <Button variant="secondary" onClick={handleCopy}>
+              Copy
+            </Button>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            In Google Calendar, choose Other calendars &rarr; + &rarr; From URL and paste this
+            link. It updates as you edit posts. Anyone with the link can see the schedule, so
+            reset it to revoke access.
+          </p>
+          <div className="flex gap-3">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => handleUpdateFeed(true)}
+              disabled={isUpdating}
+            >
+              Reset link
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleUpdateFeed(false)}
+              disabled={isUpdating}
+            >
+              Turn off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={() => handleUpdateFeed(true)} isLoading={isUpdating}>
+          Create subscription link
+        </Button>
+      )}
+    </Card>
+  );
+}
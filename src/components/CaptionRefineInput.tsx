@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui';
+
+interface CaptionRefineInputProps {
+  onRefine: (feedback: string) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function CaptionRefineInput({ onRefine, isLoading = false }: CaptionRefineInputProps) {
+  const [feedback, setFeedback] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback.trim()) return;
+
+    await onRefine(feedback.trim());
+    setFeedback('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="text"
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        placeholder="Refine: shorter, more playful, mention happy hour..."
+        maxLength={300}
+        disabled={isLoading}
+        className="min-w-0 flex-1 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-900 placeholder-gray-400 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 dark:border-gray-700 dark:bg-gray-800 dark:text-white dark:placeholder-gray-500"
+      />
+      <Button
+        type="submit"
+        size="sm"
+        variant="secondary"
+        isLoading={isLoading}
+        disabled={!feedback.trim()}
+      >
+        Refine
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { buildFullCaption } from '@/lib/generatedCaptions';
+import { getPlatform } from '@/lib/platforms';
+import { Button, Modal, ModalFooter } from '@/components/ui';
+import type { CaptionVariant, PlatformId } from '@/types';
+
+interface CaptionVariantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  platform: PlatformId;
+  variants: CaptionVariant[];
+  currentCaption: string;
+  onUse: (variant: CaptionVariant) => void;
+  onMerge: (variant: CaptionVariant) => void;
+}
+
+export function CaptionVariantsModal({
+  isOpen,
+  onClose,
+  platform,
+  variants,
+  currentCaption,
+  onUse,
+  onMerge,
+}: CaptionVariantsModalProps) {
+  const config = getPlatform(platform);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${config.label} variants`} size="xl">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Use a variant to replace the current caption and hashtags, or merge it to append its
+        text and add its hashtags. All variants stay on the post.
+      </p>
+
+      <div className="mt-4 grid max-h-[60vh] gap-4 overflow-y-auto sm:grid-cols-2 lg:grid-cols-3">
+        {variants.map((variant, index) => {
+          const charCount = buildFullCaption(variant.caption, variant.hashtags).length;
+          const isCurrent = variant.caption === currentCaption;
+
+          return (
+            <div
+              key={index}
+              className={`flex flex-col rounded-lg border p-3 ${
+                isCurrent
+                  ? 'border-primary-500 dark:border-primary-400'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="mb-2 flex items-center justify-between text-xs font-medium text-gray-500 dark:text-gray-400">
+                <span>
+                  Variant {index + 1}
+                  {isCurrent && ' (current)'}
+                </span>
+                <span className={charCount > config.charLimit ? 'text-red-500' : undefined}>
+                  {charCount.toLocaleString()} / {config.charLimit.toLocaleString()}
+                </span>
+              </div>
+              <p className="flex-1 whitespace-pre-wrap text-sm text-gray-900 dark:text-white">
+                {variant.caption}
+              </p>
+              {variant.hashtags.length > 0 && (
+                <p className="mt-2 text-xs text-primary-600 dark:text-primary-400">
+                  {variant.hashtags.join(' ')}
+                </p>
+              )}
+              <div className="mt-3 flex gap-2">
+                <Button size="sm" onClick={() => onUse(variant)} disabled={isCurrent}>
+                  Use this
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onMerge(variant)}
+                  disabled={isCurrent}
+                >
+                  Merge
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { ImageUpload } from '@/components/ImageUpload';
+import { Button, DatePicker, Input, Select, Textarea, Toggle, toast } from '@/components/ui';
+import { describeRecurrence } from '@/lib/recurrence';
+import {
+  createContentSeries,
+  deleteContentSeries,
+  updateContentSeries,
+  uploadAsset,
+} from '@/lib/services';
+import type { ContentSeries, RecurrenceRule } from '@/types';
+
+const WEEKDAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map(
+  (label, day) => ({ value: String(day), label })
+);
+
+const FREQUENCY_OPTIONS = [
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every other week' },
+  { value: 'monthlyWeekday', label: 'Monthly on a weekday' },
+  { value: 'monthlyDate', label: 'Monthly on a date' },
+];
+
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: '1', label: 'First' },
+  { value: '2', label: 'Second' },
+  { value: '3', label: 'Third' },
+  { value: '4', label: 'Fourth' },
+  { value: '-1', label: 'Last' },
+];
+
+type Frequency = 'weekly' | 'biweekly' | 'monthlyWeekday' | 'monthlyDate';
+
+interface ContentSeriesManagerProps {
+  workspaceId: string;
+  series: ContentSeries[];
+  onSeriesChange: (series: ContentSeries[]) => void;
+  today: string;
+}
+
+export function ContentSeriesManager({
+  workspaceId,
+  series,
+  onSeriesChange,
+  today,
+}: ContentSeriesManagerProps) {
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<Frequency>('weekly');
+  const [dayOfWeek, setDayOfWeek] = useState(2);
+  const [weekOfMonth, setWeekOfMonth] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [starterText, setStarterText] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [image, setImage] = useState<{ assetId?: string; url: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayOfMonthValue = Number(dayOfMonth);
+  const dayOfMonthError =
+    frequency === 'monthlyDate' &&
+    !(Number.isInteger(dayOfMonthValue) && dayOfMonthValue >= 1 && dayOfMonthValue <= 31)
+      ? 'Enter a day from 1 to 31'
+      : undefined;
+
+  const buildRule = (): RecurrenceRule => {
+    switch (frequency) {
+      case 'weekly':
+      case 'biweekly':
+        return { frequency: 'weekly', dayOfWeek, interval: frequency === 'biweekly' ? 2 : 1 };
+      case 'monthlyWeekday':
+        return { frequency: 'monthlyWeekday', dayOfWeek, weekOfMonth };
+      case 'monthlyDate':
+        return { frequency: 'monthlyDate', dayOfMonth: dayOfMonthValue };
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    const asset = await uploadAsset(workspaceId, file);
+    setImage({ assetId: asset.id, url: asset.downloadUrl || '' });
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || !starterText.trim() || dayOfMonthError) return;
+
+    setIsSaving(true);
+    try {
+      const created = await createContentSeries(workspaceId, {
+        name: name.trim(),
+        rule: buildRule(),
+        starterText: starterText.trim(),
+        imageAssetId: image?.assetId,
+        imageUrl: image?.url,
+        startDate: startDate || today,
+        active: true,
+      });
+      onSeriesChange([...series, created]);
+      toast.success(`Added ${created.name}`);
+      setName('');
+      setStarterText('');
+      setStartDate('');
+      setImage(null);
+    } catch (error) {
+      console.error('Error creating series:', error);
+      toast.error('Failed to add series');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (item: ContentSeries, active: boolean) => {
+    try {
+      await updateContentSeries(workspaceId, item.id, { active });
+      onSeriesChange(series.map((s) => (s.id === item.id ? { ...s, active } : s)));
+    } catch (error) {
+      console.error('Error updating series:', error);
+      toast.error('Failed to update series');
+    }
+  };
+
+  const handleDelete = async (item: ContentSeries) => {
+    try {
+      await deleteContentSeries(workspaceId, item.id);
+      onSeriesChange(series.filter((s) => s.id !== item.id));
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      toast.error('Failed to remove series');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {series.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No recurring series yet. Add weekly features like &ldquo;Taco Tuesday&rdquo; and they
+          will be placed on their dates first whenever you generate a schedule.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+          {series.map((item) => (
+            <li key={item.id} className="flex items-center gap-4 px-3 py-3 text-sm">
+              {item.imageUrl && (
+                <div className="relative h-10 w-10 flex-shrink-0 overflow-hidden rounded">
+                  <Image src={item.imageUrl} alt={item.name} fill className="object-cover" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-gray-900 dark:text-white">{item.name}</p>
+                <p className="text-gray-500 dark:text-gray-400">{describeRecurrence(item.rule)}</p>
+                <p className="truncate text-gray-500 dark:text-gray-400">{item.starterText}</p>
+              </div>
+              <Toggle
+                label="Active"
+                enabled={item.active}
+                onChange={(active) => handleToggle(item, active)}
+              />
+              <button
+                type="button"
+                onClick={() => handleDelete(item)}
+                className="text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input
+            label="Series name"
+            placeholder="e.g. Taco Tuesday"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select
+            label="Repeats"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as Frequency)}
+            options={FREQUENCY_OPTIONS}
+          />
+          {frequency === 'monthlyWeekday' && (
+            <Select
+              label="Week of the month"
+              value={String(weekOfMonth)}
+              onChange={(e) => setWeekOfMonth(Number(e.target.value))}
+              options={WEEK_OF_MONTH_OPTIONS}
+            />
+          )}
+          {frequency === 'monthlyDate' ? (
+            <Input
+              label="Day of the month"
+              inputMode="numeric"
+              value={dayOfMonth}
+              onChange={(e) => setDayOfMonth(e.target.value)}
+              error={dayOfMonthError}
+              helperText="Months without this day are skipped"
+            />
+          ) : (
+            <Select
+              label="Day"
+              value={String(dayOfWeek)}
+              onChange={(e) => setDayOfWeek(Number(e.target.value))}
+              options={WEEKDAY_OPTIONS}
+            />
+          )}
+          <DatePicker
+            label="Starts"
+            value={startDate}
+            min={today}
+            onChange={(e) => setStartDate(e.target.value)}
+            helperText="Defaults to today; every-other-week series count from here"
+          />
+        </div>
+
+        <Textarea
+          label="Starter text"
+          placeholder="e.g. It's Taco Tuesday! $2 street tacos all day on {date}."
+          value={starterText}
+          onChange={(e) => setStarterText(e.target.value)}
+          rows={3}
+          helperText="Placeholders: {weekday}, {month}, {day}, {date}"
+        />
+
+        <div>
+          <p className="mb-1.5 text-sm font-medium text-gray-700 dark:text-gray-300">
+            Default image (optional)
+          </p>
+          <ImageUpload
+            imageUrl={image?.url}
+            onUpload={handleUpload}
+            onUrlSubmit={async (url) => setImage({ url })}
+            onRemove={async () => setImage(null)}
+            compact
+          />
+        </div>
+
+        <Button
+          variant="secondary"
+          onClick={handleCreate}
+          isLoading={isSaving}
+          disabled={!name.trim() || !starterText.trim() || !!dayOfMonthError}
+        >
+          Add Series
+        </Button>
+      </div>
+    </div>
+  );
+}
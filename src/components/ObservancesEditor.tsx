@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { US_OBSERVANCES } from '@/lib/observances';
+import { Button, Input, Select } from '@/components/ui';
+import type { Observance } from '@/types';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const MONTH_OPTIONS = MONTHS.map((label, index) => ({ value: String(index + 1), label }));
+
+interface ObservancesEditorProps {
+  observances: Observance[];
+  onChange: (observances: Observance[]) => void;
+}
+
+function formatObservanceDate(observance: Observance): string {
+  return observance.date.type === 'fixed'
+    ? `${MONTHS[observance.date.month - 1]} ${observance.date.day}`
+    : 'Varies';
+}
+
+export function ObservancesEditor({ observances, onChange }: ObservancesEditorProps) {
+  const [name, setName] = useState('');
+  const [month, setMonth] = useState(1);
+  const [day, setDay] = useState('1');
+  const [starterText, setStarterText] = useState('');
+
+  // Check against the longest month so Feb 29 is allowed (it is skipped in other years)
+  const dayValue = Number(day);
+  const maxDay = new Date(Date.UTC(2024, month, 0)).getUTCDate();
+  const dayError =
+    Number.isInteger(dayValue) && dayValue >= 1 && dayValue <= maxDay
+      ? undefined
+      : `Enter a day from 1 to ${maxDay}`;
+
+  const handleAdd = () => {
+    if (!name.trim() || dayError) return;
+
+    const observance: Observance = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: name.trim(),
+      category: 'custom',
+      date: { type: 'fixed', month, day: dayValue },
+    };
+    if (starterText.trim()) {
+      observance.starterText = starterText.trim();
+    }
+
+    onChange([...observances, observance]);
+    setName('');
+    setStarterText('');
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(observances.filter((o) => o.id !== id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {US_OBSERVANCES.length} US holidays and food days (Valentine&rsquo;s Day, Cinco de Mayo,
+        National Pizza Day, and more) are built in. Add your own yearly dates, like your opening
+        anniversary or a local festival.
+      </p>
+
+      {observances.length > 0 && (
+        <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+          {observances.map((observance) => (
+            <li key={observance.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900 dark:text-white">{observance.name}</span>
+                <span className="ml-2 text-gray-500 dark:text-gray-400">
+                  {formatObservanceDate(observance)}
+                </span>
+                {observance.starterText && (
+                  <p className="truncate text-gray-500 dark:text-gray-400">{observance.starterText}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(observance.id)}
+                className="text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <Input
+            label="Name"
+            placeholder="e.g. Our anniversary"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select
+            label="Month"
+            value={String(month)}
+            onChange={(e) => setMonth(Number(e.target.value))}
+            options={MONTH_OPTIONS}
+          />
+          <Input
+            label="Day"
+            inputMode="numeric"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            error={dayError}
+          />
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <Input
+              label="Starter text (optional)"
+              placeholder="e.g. We turn 5 today! Thanks for celebrating with us."
+              value={starterText}
+              onChange={(e) => setStarterText(e.target.value)}
+            />
+          </div>
+          <Button variant="secondary" onClick={handleAdd} disabled={!name.trim() || !!dayError}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
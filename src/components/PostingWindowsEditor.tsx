@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { getPlatform } from '@/lib/platforms';
+import {
+  DEFAULT_DAY_PRIORITY,
+  getDayPriority,
+  getPostingWindows,
+  type SchedulingPreferences,
+} from '@/lib/scheduling';
+import { PlatformIcon } from '@/components/ui';
+import type { PlatformId, TimeWindow, WeeklyWindows } from '@/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Hours shown in the grid (each cell covers one hour)
+const GRID_HOURS = Array.from({ length: 19 }, (_, i) => i + 5); // 5 AM – 11 PM
+
+const PRIORITY_OPTIONS = [
+  { value: 1, label: 'Best' },
+  { value: 2, label: 'High' },
+  { value: 3, label: 'Good' },
+  { value: 4, label: 'Moderate' },
+  { value: 5, label: 'Low' },
+  { value: 6, label: 'Avoid' },
+];
+
+type PostingWindows = NonNullable<SchedulingPreferences['postingWindows']>;
+type DayPriorities = NonNullable<SchedulingPreferences['dayPriorities']>;
+
+interface PostingWindowsEditorProps {
+  platforms: PlatformId[];
+  postingWindows: PostingWindows;
+  dayPriorities: DayPriorities;
+  onWindowsChange: (postingWindows: PostingWindows) => void;
+  onPrioritiesChange: (dayPriorities: DayPriorities) => void;
+}
+
+/**
+ * Hours of the grid touched by any of the windows
+ */
+function windowsToHours(windows: TimeWindow[]): Set<number> {
+  return new Set(
+    GRID_HOURS.filter((hour) => windows.some((w) => w.start < hour + 1 && w.end > hour))
+  );
+}
+
+/**
+ * Merge selected hours into contiguous windows
+ */
+function hoursToWindows(hours: Set<number>): TimeWindow[] {
+  const windows: TimeWindow[] = [];
+  for (const hour of [...hours].sort((a, b) => a - b)) {
+    const last = windows[windows.length - 1];
+    if (last && last.end === hour) {
+      last.end = hour + 1;
+    } else {
+      windows.push({ start: hour, end: hour + 1 });
+    }
+  }
+  return windows;
+}
+
+function formatHour(hour: number): string {
+  const period = hour >= 12 ? 'p' : 'a';
+  return `${hour % 12 || 12}${period}`;
+}
+
+export function PostingWindowsEditor({
+  platforms,
+  postingWindows,
+  dayPriorities,
+  onWindowsChange,
+  onPrioritiesChange,
+}: PostingWindowsEditorProps) {
+  const [platform, setPlatform] = useState<PlatformId>(platforms[0]);
+  const [paintMode, setPaintMode] = useState<'add' | 'remove' | null>(null);
+
+  // Fall back to the first platform if the selected one was disabled
+  const activePlatform = platforms.includes(platform) ? platform : platforms[0];
+  const preferences: SchedulingPreferences = { postingWindows, dayPriorities };
+  const isCustomized = !!postingWindows[activePlatform];
+
+  const setHour = (day: number, hour: number, mode: 'add' | 'remove') => {
+    const hours = windowsToHours(getPostingWindows(activePlatform, day, preferences));
+    if (mode === 'add') {
+      hours.add(hour);
+    } else {
+      hours.delete(hour);
+    }
+    // Every day keeps at least one hour; closed days are not a window setting
+    if (hours.size === 0) return;
+
+    // Materialize the whole week so untouched days keep their exact windows
+    const week: WeeklyWindows = {};
+    for (let d = 0; d < 7; d++) {
+      week[d] = d === day ? hoursToWindows(hours) : getPostingWindows(activePlatform, d, preferences);
+    }
+    onWindowsChange({ ...postingWindows, [activePlatform]: week });
+  };
+
+  const handleMouseDown = (day: number, hour: number, selected: boolean) => {
+    const mode = selected ? 'remove' : 'add';
+    setPaintMode(mode);
+    setHour(day, hour, mode);
+  };
+
+  const resetWindows = () => {
+    const next = { ...postingWindows };
+    delete next[activePlatform];
+    onWindowsChange(next);
+  };
+
+  const setPriority = (day: number, value: number) => {
+    const next = { ...dayPriorities, [day]: value };
+    if (value === DEFAULT_DAY_PRIORITY[day]) {
+      delete next[day];
+    }
+    onPrioritiesChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {platforms.map((id) => {
+          const config = getPlatform(id);
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setPlatform(id)}
+              className={clsx(
+                'flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium transition-colors',
+                id === activePlatform
+                  ? `${config.colors.subtle} ${config.colors.text}`
+                  : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+              )}
+            >
+              <PlatformIcon platform={id} className="h-4 w-4" />
+              {config.shortLabel}
+              {postingWindows[id] && <span className="text-xs opacity-70">(custom)</span>}
+            </button>
+          );
+        })}
+        <div className="ml-auto flex gap-3 text-sm">
+          <button
+            type="button"
+            onClick={resetWindows}
+            disabled={!isCustomized}
+            className="font-medium text-primary-600 hover:text-primary-700 disabled:cursor-not-allowed disabled:text-gray-400 dark:text-primary-400"
+          >
+            Reset windows
+          </button>
+          <button
+            type="button"
+            onClick={() => onPrioritiesChange({})}
+            disabled={Object.keys(dayPriorities).length === 0}
+            className="font-medium text-primary-600 hover:text-primary-700 disabled:cursor-not-allowed disabled:text-gray-400 dark:text-primary-400"
+          >
+            Reset day ranks
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="overflow-x-auto"
+        onMouseUp={() => setPaintMode(null)}
+        onMouseLeave={() => setPaintMode(null)}
+      >
+        <table className="w-full select-none border-separate border-spacing-0.5 text-xs">
+          <thead>
+            <tr className="text-gray-500 dark:text-gray-400">
+              <th className="pr-2 text-left font-medium">Day</th>
+              <th className="pr-2 text-left font-medium">Rank</th>
+              {GRID_HOURS.map((hour) => (
+                <th key={hour} className="w-6 font-normal">
+                  {hour % 2 === 1 ? formatHour(hour) : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {WEEKDAYS.map((label, day) => {
+              const hours = windowsToHours(getPostingWindows(activePlatform, day, preferences));
+              return (
+                <tr key={label}>
+                  <td className="pr-2 font-medium text-gray-700 dark:text-gray-300">{label}</td>
+                  <td className="pr-2">
+                    <select
+                      value={getDayPriority(day, preferences)}
+                      onChange={(e) => setPriority(day, Number(e.target.value))}
+                      className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs text-gray-900 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+                    >
+                      {PRIORITY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {GRID_HOURS.map((hour) => {
+                    const selected = hours.has(hour);
+                    return (
+                      <td
+                        key={hour}
+                        title={`${label} ${formatHour(hour)}`}
+                        onMouseDown={() => handleMouseDown(day, hour, selected)}
+                        onMouseEnter={() => paintMode && setHour(day, hour, paintMode)}
+                        className={clsx(
+                          'h-6 w-6 cursor-pointer rounded-sm transition-colors',
+                          selected
+                            ? getPlatform(activePlatform).colors.dot
+                            : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700'
+                        )}
+                      />
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Click or drag across hours to set when {getPlatform(activePlatform).label} posts may be
+        scheduled. Days ranked higher are picked first; &ldquo;Avoid&rdquo; days are skipped
+        when posting four or fewer times a week.
+      </p>
+    </div>
+  );
+}
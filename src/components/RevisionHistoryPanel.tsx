@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPostRevisions } from '@/lib/services';
+import { diffWords } from '@/lib/textDiff';
+import { Badge, Button, Spinner, formatTime12Hour } from '@/components/ui';
+import type { PlatformId, Post, PostRevision } from '@/types';
+
+interface RevisionHistoryPanelProps {
+  workspaceId: string;
+  post: Post;
+  platform: PlatformId;
+  onRestore: (revision: PostRevision) => Promise<void>;
+}
+
+function formatRevisionTime(revision: PostRevision): string {
+  return revision.createdAt.toDate().toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function CaptionDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+      {diffWords(before, after).map((segment, index) =>
+        segment.type === 'equal' ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === 'added' ? (
+          <span
+            key={index}
+            className="rounded bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span
+            key={index}
+            className="rounded bg-red-100 text-red-700 line-through dark:bg-red-900/40 dark:text-red-300"
+          >
+            {segment.text}
+          </span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function RevisionHistoryPanel({
+  workspaceId,
+  post,
+  platform,
+  onRestore,
+}: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const current = post[platform];
+  const updatedAt = post.updatedAt?.toMillis();
+
+  // Reload whenever the post changes so new saves show up
+  useEffect(() => {
+    getPostRevisions(workspaceId, post.id, platform)
+      .then(setRevisions)
+      .catch((error) => {
+        console.error('Error loading revisions:', error);
+        setRevisions([]);
+      });
+  }, [workspaceId, post.id, platform, updatedAt]);
+
+  const handleRestore = async (revision: PostRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!revisions) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="py-2 text-sm text-gray-500 dark:text-gray-400">
+        No changes recorded yet. Edits, regenerations, and restores will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="max-h-80 space-y-3 overflow-y-auto">
+      {revisions.map((revision, index) => {
+        // Each revision is compared with the one before it
+        const previous = revisions[index + 1];
+        const addedTags = revision.hashtags.filter((tag) => !previous?.hashtags.includes(tag));
+        const removedTags = previous
+          ? previous.hashtags.filter((tag) => !revision.hashtags.includes(tag))
+          : [];
+        const timeChanged = !!previous && previous.scheduledTime !== revision.scheduledTime;
+        const isCurrent =
+          !!current &&
+          current.caption === revision.caption &&
+          current.scheduledTime === revision.scheduledTime &&
+          current.hashtags.join(' ') === revision.hashtags.join(' ');
+
+        return (
+          <li
+            key={revision.id}
+            className="rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+          >
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <div className="flex min-w-0 items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <Badge variant={revision.source === 'ai' ? 'primary' : 'default'}>
+                  {revision.restoredFrom ? 'Restored' : revision.source === 'ai' ? 'AI' : 'Manual'}
+                </Badge>
+                <span className="truncate">
+                  {formatRevisionTime(revision)}
+                  {revision.authorName && ` · ${revision.authorName}`}
+                </span>
+              </div>
+              {isCurrent ? (
+                <span className="text-xs font-medium text-gray-400 dark:text-gray-500">Current</span>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRestore(revision)}
+                  isLoading={restoringId === revision.id}
+                  disabled={!!restoringId}
+                >
+                  Restore
+                </Button>
+              )}
+            </div>
+
+            {previous &&
+              previous.caption === revision.caption &&
+              addedTags.length === 0 &&
+              removedTags.length === 0 &&
+              !timeChanged && (
+                <p className="text-xs text-gray-400 dark:text-gray-500">No changes</p>
+              )}
+
+            {previous?.caption !== revision.caption && (
+              <CaptionDiff before={previous?.caption || ''} after={revision.caption} />
+            )}
+
+            {(addedTags.length > 0 || removedTags.length > 0) && (
+              <p className="mt-1 text-xs">
+                {addedTags.map((tag) => (
+                  <span key={tag} className="mr-1 text-green-700 dark:text-green-400">
+                    +{tag}
+                  </span>
+                ))}
+                {removedTags.map((tag) => (
+                  <span key={tag} className="mr-1 text-red-600 line-through dark:text-red-400">
+                    {tag}
+                  </span>
+                ))}
+              </p>
+            )}
+
+            {timeChanged && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Time {formatTime12Hour(previous.scheduledTime)} →{' '}
+                {formatTime12Hour(revision.scheduledTime)}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { getPlatform } from '@/lib/platforms';
+import { Select, Toggle, PlatformIcon } from '@/components/ui';
+import type { PlatformId, SpacingRules } from '@/types';
+
+const GAP_OPTIONS = [
+  { value: '0', label: 'Off' },
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '120', label: '2 hours' },
+];
+
+const HOURS_OPTIONS = [0, 4, 8, 12, 18, 24].map((hours) => ({
+  value: String(hours),
+  label: hours === 0 ? 'Off' : `${hours} hours`,
+}));
+
+interface SpacingRulesEditorProps {
+  platforms: PlatformId[];
+  rules: SpacingRules;
+  onChange: (rules: SpacingRules) => void;
+}
+
+export function SpacingRulesEditor({ platforms, rules, onChange }: SpacingRulesEditorProps) {
+  const enforceOrder = rules.platformOrder.length > 0;
+
+  // Enabled platforms in the preferred order, then the rest
+  const ordered = [
+    ...rules.platformOrder.filter((p) => platforms.includes(p)),
+    ...platforms.filter((p) => !rules.platformOrder.includes(p)),
+  ];
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...ordered];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange({ ...rules, platformOrder: next });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <Select
+          label="Gap between platforms"
+          value={String(rules.minPlatformGapMinutes)}
+          onChange={(e) => onChange({ ...rules, minPlatformGapMinutes: Number(e.target.value) })}
+          options={GAP_OPTIONS}
+          helperText="Minimum time between different platforms on the same day"
+        />
+        <Select
+          label="Time between posts"
+          value={String(rules.minHoursBetweenPosts)}
+          onChange={(e) => onChange({ ...rules, minHoursBetweenPosts: Number(e.target.value) })}
+          options={HOURS_OPTIONS}
+          helperText="Minimum time between consecutive posts on one platform"
+        />
+      </div>
+
+      <Toggle
+        label="Preferred order"
+        description="Post to platforms in this order each day"
+        enabled={enforceOrder}
+        onChange={(enabled) => onChange({ ...rules, platformOrder: enabled ? ordered : [] })}
+      />
+
+      {enforceOrder && (
+        <ol className="space-y-2">
+          {ordered.map((platform, index) => (
+            <li
+              key={platform}
+              className="flex items-center gap-3 rounded-lg border border-gray-200 px-3 py-2 text-sm dark:border-gray-700"
+            >
+              <span className="w-4 text-gray-500 dark:text-gray-400">{index + 1}</span>
+              <PlatformIcon platform={platform} className={`h-4 w-4 ${getPlatform(platform).colors.text}`} />
+              <span className="flex-1 text-gray-900 dark:text-white">{getPlatform(platform).label}</span>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30 dark:text-gray-400"
+                aria-label={`Move ${getPlatform(platform).label} earlier`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === ordered.length - 1}
+                className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30 dark:text-gray-400"
+                aria-label={`Move ${getPlatform(platform).label} later`}
+              >
+                ↓
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
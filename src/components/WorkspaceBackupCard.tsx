@@ -0,0 +1,313 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  createWorkspaceBackup,
+  getMaxPostsPerDay,
+  getPosts,
+  restoreWorkspaceBackup,
+} from '@/lib/services';
+import { downloadBlob } from '@/lib/export';
+import {
+  formatBackupFilename,
+  getPostsToRestore,
+  parseBackupArchive,
+  planBackupRestore,
+  type BackupArchive,
+  type RestorePlan,
+} from '@/lib/workspaceBackup';
+import { Button, Toggle, toast } from '@/components/ui';
+import type { WorkspaceSettings } from '@/types';
+
+interface WorkspaceBackupCardProps {
+  workspaceId: string;
+  workspace: WorkspaceSettings | null;
+}
+
+export function WorkspaceBackupCard({ workspaceId, workspace }: WorkspaceBackupCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeImages, setIncludeImages] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [imageProgress, setImageProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+
+  // Restore state: a validated archive and what restoring it would do
+  const [pending, setPending] = useState<{ archive: BackupArchive; plan: RestorePlan } | null>(
+    null
+  );
+  // Left-out posts chosen to restore on their open dates
+  const [movedIds, setMovedIds] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const { archive, imageErrors } = await createWorkspaceBackup(workspaceId, {
+        includeImages,
+        onProgress: (done, total) => setImageProgress({ done, total }),
+      });
+      downloadBlob(
+        new Blob([JSON.stringify(archive)], { type: 'application/json' }),
+        formatBackupFilename(archive.workspace.name)
+      );
+      if (imageErrors > 0) {
+        toast.error(`Backup downloaded, but ${imageErrors} image(s) could not be included`);
+      } else {
+        toast.success(`Backed up ${archive.posts.length} posts`);
+      }
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error('Failed to create backup');
+    } finally {
+      setIsBackingUp(false);
+      setImageProgress(null);
+    }
+  };
+
+  const handleFileSelect = async (file: File) => {
+    setPending(null);
+    setMovedIds(new Set());
+    setErrors([]);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setErrors(['This file is not valid JSON']);
+      return;
+    }
+
+    const result = parseBackupArchive(data);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+
+    try {
+      const existingPosts = await getPosts(workspaceId);
+      setPending({
+        archive: result.archive,
+        plan: planBackupRestore(
+          result.archive,
+          existingPosts,
+          getMaxPostsPerDay(workspace),
+          workspace?.settings.scheduling
+        ),
+      });
+    } catch (error) {
+      console.error('Error checking existing posts:', error);
+      toast.error('Failed to check existing posts');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    setIsRestoring(true);
+    try {
+      const summary = await restoreWorkspaceBackup(
+        workspaceId,
+        pending.archive,
+        getPostsToRestore(pending.plan, movedIds),
+        { restoreSettings }
+      );
+      toast.success(
+        `Restored ${summary.posts} posts, ${summary.assets} images and ${summary.series} series`
+      );
+      setPending(null);
+      setMovedIds(new Set());
+      setRestoreSettings(false);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPending(null);
+    setMovedIds(new Set());
+  };
+
+  const toggleMoved = (postId: string) => {
+    setMovedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(postId)) {
+        next.delete(postId);
+      } else {
+        next.add(postId);
+      }
+      return next;
+    });
+  };
+
+  const archive = pending?.archive;
+  const imagesInArchive = archive?.assets.filter((asset) => asset.data).length ?? 0;
+  const movableIds =
+    pending?.plan.conflicts.filter(({ openDate }) => openDate).map(({ post }) => post.id) ?? [];
+  const allMoved = movableIds.length > 0 && movableIds.every((id) => movedIds.has(id));
+  const postsToRestore = pending ? getPostsToRestore(pending.plan, movedIds) : [];
+
+  const toggleAllMoved = () => {
+    setMovedIds(allMoved ? new Set() : new Set(movableIds));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Backup */}
+      <div>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Download everything in this workspace (posts, image records, series, schedule plans
+          and settings) as one JSON file.
+        </p>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Toggle
+            label="Include images"
+            description="Embed the image files so the backup restores into any workspace"
+            enabled={includeImages}
+            onChange={setIncludeImages}
+          />
+          <Button onClick={handleBackup} isLoading={isBackingUp}>
+            {imageProgress
+              ? `Downloading images ${imageProgress.done}/${imageProgress.total}`
+              : 'Download backup'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Restore */}
+      <div className="border-t border-gray-200 pt-6 dark:border-gray-700">
+        <h3 className="mb-1 text-sm font-semibold text-gray-900 dark:text-white">Restore</h3>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Restore a backup into this workspace. Posts keep their dates; posts whose date is
+          already full for their platforms can be moved to the next open date or left out.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileSelect(file);
+            e.target.value = '';
+          }}
+        />
+        <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+          Choose backup file
+        </Button>
+
+        {errors.length > 0 && (
+          <div className="mt-4 rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+            <p className="mb-2 text-sm font-medium text-red-700 dark:text-red-400">
+              This backup can&rsquo;t be restored
+            </p>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-red-600 dark:text-red-400">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {pending && archive && (
+          <div className="mt-4 space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+            <div className="text-sm text-gray-700 dark:text-gray-300">
+              <p className="font-medium text-gray-900 dark:text-white">
+                {archive.workspace.name}, backed up{' '}
+                {new Date(archive.exportedAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </p>
+              <p className="mt-1">
+                {archive.posts.length} posts,{' '}
+                {`${archive.assets.length} image records (${imagesInArchive} with images)`},{' '}
+                {archive.series.length} series, {archive.plans.length} schedule plans
+              </p>
+              {archive.sourceWorkspaceId === workspaceId && (
+                <p className="mt-1 text-gray-500 dark:text-gray-400">
+                  This backup is from this workspace; posts still here are replaced by their
+                  backed-up versions.
+                </p>
+              )}
+            </div>
+
+            {pending.plan.conflicts.length > 0 && (
+              <div className="rounded-lg bg-amber-50 p-3 dark:bg-amber-900/20">
+                <div className="mb-2 flex items-center justify-between gap-3">
+                  <p className="text-sm font-medium text-amber-700 dark:text-amber-400">
+                    {pending.plan.conflicts.length} posts don&rsquo;t fit on their dates
+                  </p>
+                  {movableIds.length > 0 && (
+                    <label className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-400">
+                      <input
+                        type="checkbox"
+                        checked={allMoved}
+                        onChange={toggleAllMoved}
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Move all
+                    </label>
+                  )}
+                </div>
+                <ul className="max-h-60 space-y-2 overflow-y-auto text-sm text-amber-700 dark:text-amber-400">
+                  {pending.plan.conflicts.map(({ post, reason, openDate }) => (
+                    <li key={post.id}>
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="checkbox"
+                          checked={movedIds.has(post.id)}
+                          disabled={!openDate}
+                          onChange={() => toggleMoved(post.id)}
+                          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        <span>
+                          {post.starterText ? `"${post.starterText.slice(0, 40)}": ` : `${post.date}: `}
+                          {reason}
+                          <span className="block text-xs text-amber-600 dark:text-amber-500">
+                            {openDate ? `Restore on ${openDate} instead` : 'No open date within a year'}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-xs text-amber-600 dark:text-amber-500">
+                  Ticked posts are restored on the next open date with room for their
+                  platforms; the rest are left out.
+                </p>
+              </div>
+            )}
+
+            <Toggle
+              label="Replace workspace settings"
+              description="Use the backup's name, AI, scheduling, brand and platform settings"
+              enabled={restoreSettings}
+              onChange={setRestoreSettings}
+            />
+
+            <div className="flex gap-3">
+              <Button
+                onClick={handleRestore}
+                isLoading={isRestoring}
+                disabled={postsToRestore.length === 0 && !restoreSettings}
+              >
+                Restore {postsToRestore.length} posts
+              </Button>
+              <Button variant="ghost" onClick={handleCancel} disabled={isRestoring}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import { HTMLAttributes, forwardRef } from 'react';
 import { clsx } from 'clsx';
+import { PLATFORM_IDS, getPlatform } from '@/lib/platforms';
+import type { LintFinding } from '@/lib/captionLint';
+import type { PlatformId } from '@/types';
 
-type BadgeVariant = 'default' | 'primary' | 'success' | 'warning' | 'danger' | 'facebook' | 'instagram';
+type BadgeVariant = 'default' | 'primary' | 'success' | 'warning' | 'danger' | PlatformId;
 type BadgeSize = 'sm' | 'md';
 
 interface BadgeProps extends HTMLAttributes<HTMLSpanElement> {
@@ -19,8 +22,9 @@ const variantStyles: Record<BadgeVariant, string> = {
   success: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
   warning: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
   danger: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-  facebook: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
-  instagram: 'bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-400',
+  ...(Object.fromEntries(
+    PLATFORM_IDS.map((id) => [id, getPlatform(id).colors.badge])
+  ) as Record<PlatformId, string>),
 };
 
 const sizeStyles: Record<BadgeSize, string> = {
@@ -94,11 +98,29 @@ export function StatusBadge({ status }: { status: 'draft' | 'generated' | 'edite
   return <Badge variant={variants[status]}>{labels[status]}</Badge>;
 }
 
+// Shown while a post's last caption generation failed; hover for the reason
+export function GenerationErrorBadge({ message }: { message: string }) {
+  return (
+    <Badge variant="danger" title={message}>
+      Generation failed
+    </Badge>
+  );
+}
+
+// One caption lint finding; hover for the details
+export function LintBadge({ finding }: { finding: LintFinding }) {
+  return (
+    <Badge variant={finding.severity === 'error' ? 'danger' : 'warning'} title={finding.message}>
+      {finding.label}
+    </Badge>
+  );
+}
+
 // Platform badges
-export function PlatformBadge({ platform }: { platform: 'facebook' | 'instagram' }) {
+export function PlatformBadge({ platform }: { platform: PlatformId }) {
   return (
     <Badge variant={platform} size="sm">
-      {platform === 'facebook' ? 'FB' : 'IG'}
+      {getPlatform(platform).shortLabel}
     </Badge>
   );
 }
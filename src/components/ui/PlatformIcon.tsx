@@ -0,0 +1,15 @@
+import { getPlatform } from '@/lib/platforms';
+import type { PlatformId } from '@/types';
+
+interface PlatformIconProps {
+  platform: PlatformId;
+  className?: string;
+}
+
+export function PlatformIcon({ platform, className }: PlatformIconProps) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+      <path d={getPlatform(platform).icon} />
+    </svg>
+  );
+}
@@ -3,7 +3,8 @@ export { Card, CardHeader, CardContent } from './Card';
 export { Modal, ModalFooter } from './Modal';
 export { ToastProvider, toast } from './Toast';
 export { Input, Textarea } from './Input';
-export { Badge, StatusBadge, PlatformBadge } from './Badge';
+export { Badge, StatusBadge, GenerationErrorBadge, LintBadge, PlatformBadge } from './Badge';
+export { PlatformIcon } from './PlatformIcon';
 export { Toggle, RadioGroup } from './Toggle';
 export { PageHeader } from './PageHeader';
 export { EmptyState, CalendarIcon, DocumentIcon, PhotoIcon } from './EmptyState';
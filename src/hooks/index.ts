@@ -2,3 +2,4 @@ export { usePosts, usePost, usePostsStats, usePostsThisWeek } from './usePosts';
 export { useWorkspace } from './useWorkspace';
 export { useAssetUpload } from './useAssets';
 export { useDebounce, useDebouncedCallback, useAutoSave } from './useDebounce';
+export { useGenerationJob } from './useGenerationJob';
@@ -14,8 +14,8 @@ interface UseAssetUploadReturn {
   uploading: boolean;
   progress: number;
   error: string | null;
-  uploadImage: (file: File, postDate?: string) => Promise<Asset | null>;
-  removeImage: (assetId: string, postDate?: string) => Promise<void>;
+  uploadImage: (file: File, postId?: string) => Promise<Asset | null>;
+  removeImage: (assetId: string, postId?: string) => Promise<void>;
   clearError: () => void;
 }
 
@@ -30,7 +30,7 @@ export function useAssetUpload(): UseAssetUploadReturn {
   }, []);
 
   const uploadImage = useCallback(
-    async (file: File, postDate?: string): Promise<Asset | null> => {
+    async (file: File, postId?: string): Promise<Asset | null> => {
       if (!user) {
         setError('You must be logged in to upload images');
         return null;
@@ -55,9 +55,9 @@ export function useAssetUpload(): UseAssetUploadReturn {
 
         setProgress(80);
 
-        // If postDate is provided, link the asset to the post
-        if (postDate) {
-          await updatePostImage(user.uid, postDate, asset.id, asset.downloadUrl);
+        // If postId is provided, link the asset to the post
+        if (postId) {
+          await updatePostImage(user.uid, postId, asset.id, asset.downloadUrl);
         }
 
         setProgress(100);
@@ -75,7 +75,7 @@ export function useAssetUpload(): UseAssetUploadReturn {
   );
 
   const removeImage = useCallback(
-    async (assetId: string, postDate?: string): Promise<void> => {
+    async (assetId: string, postId?: string): Promise<void> => {
       if (!user) {
         setError('You must be logged in to remove images');
         return;
@@ -84,9 +84,9 @@ export function useAssetUpload(): UseAssetUploadReturn {
       setError(null);
 
       try {
-        // If postDate is provided, unlink the asset from the post first
-        if (postDate) {
-          await updatePostImage(user.uid, postDate, undefined, undefined);
+        // If postId is provided, unlink the asset from the post first
+        if (postId) {
+          await updatePostImage(user.uid, postId, undefined, undefined);
         }
 
         // Delete the asset
@@ -0,0 +1,54 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { collection, query, orderBy, limit, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { getFirebaseDb } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { GenerationJob } from '@/types';
+
+interface UseGenerationJobReturn {
+  job: GenerationJob | null;
+  isRunning: boolean;
+}
+
+/**
+ * Follow the workspace's most recent bulk generation job
+ */
+export function useGenerationJob(): UseGenerationJobReturn {
+  const { user } = useAuth();
+  // Tagged with the workspace so a signed-out user never sees a stale job
+  const [latest, setLatest] = useState<{ workspaceId: string; job: GenerationJob | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!user) return;
+
+    const db = getFirebaseDb();
+    const q = query(
+      collection(db, 'workspaces', user.uid, 'generationJobs'),
+      orderBy('createdAt', 'desc'),
+      limit(1)
+    );
+
+    const unsubscribe: Unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const jobDoc = snapshot.docs[0];
+        setLatest({
+          workspaceId: user.uid,
+          job: jobDoc ? ({ ...jobDoc.data(), id: jobDoc.id } as GenerationJob) : null,
+        });
+      },
+      (err) => {
+        console.error('Error fetching generation job:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  const job = user && latest?.workspaceId === user.uid ? latest.job : null;
+
+  return { job, isRunning: job?.status === 'running' };
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
   collection,
+  doc,
   query,
   orderBy,
   where,
@@ -10,7 +11,11 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { getFirebaseDb } from '@/lib/firebase';
+import { postFromSnapshot } from '@/lib/services/posts';
+import { getWorkspaceTimezone } from '@/lib/services/workspace';
+import { addDays, getDayOfWeek, getTodayInTimezone } from '@/lib/timezone';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from './useWorkspace';
 import type { Post } from '@/types';
 
 interface UsePostsOptions {
@@ -71,7 +76,7 @@ export function usePosts(options: UsePostsOptions = {}): UsePostsReturn {
     const unsubscribe: Unsubscribe = onSnapshot(
       q,
       (snapshot) => {
-        const newPosts = snapshot.docs.map((doc) => doc.data() as Post);
+        const newPosts = snapshot.docs.map(postFromSnapshot);
         setPosts(newPosts);
         setLoading(false);
       },
@@ -88,8 +93,8 @@ export function usePosts(options: UsePostsOptions = {}): UsePostsReturn {
   return { posts, loading, error, refetch };
 }
 
-// Hook for a single post by date
-export function usePost(date: string | null): {
+// Hook for a single post by ID
+export function usePost(postId: string | null): {
   post: Post | null;
   loading: boolean;
   error: Error | null;
@@ -100,7 +105,7 @@ export function usePost(date: string | null): {
   const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
-    if (!user || !date) {
+    if (!user || !postId) {
       setPost(null);
       setLoading(false);
       return;
@@ -110,16 +115,15 @@ export function usePost(date: string | null): {
     setError(null);
 
     const db = getFirebaseDb();
-    const postsRef = collection(db, 'workspaces', user.uid, 'posts');
-    const q = query(postsRef, where('date', '==', date));
+    const postRef = doc(db, 'workspaces', user.uid, 'posts', postId);
 
     const unsubscribe: Unsubscribe = onSnapshot(
-      q,
+      postRef,
       (snapshot) => {
-        if (snapshot.empty) {
+        if (!snapshot.exists()) {
           setPost(null);
         } else {
-          setPost(snapshot.docs[0].data() as Post);
+          setPost({ ...(snapshot.data() as Post), id: snapshot.id });
         }
         setLoading(false);
       },
@@ -131,7 +135,7 @@ export function usePost(date: string | null): {
     );
 
     return () => unsubscribe();
-  }, [user, date]);
+  }, [user, postId]);
 
   return { post, loading, error };
 }
@@ -157,19 +161,15 @@ export function usePostsStats(): {
   return stats;
 }
 
-// Hook for posts this week
+// Hook for posts this week (in the workspace timezone)
 export function usePostsThisWeek(): UsePostsReturn {
-  const today = new Date();
-  const startOfWeek = new Date(today);
-  startOfWeek.setDate(today.getDate() - today.getDay()); // Sunday
-
-  const endOfWeek = new Date(startOfWeek);
-  endOfWeek.setDate(startOfWeek.getDate() + 6); // Saturday
-
-  const formatDate = (date: Date) => date.toISOString().split('T')[0];
+  const { workspace } = useWorkspace();
+  const today = getTodayInTimezone(getWorkspaceTimezone(workspace));
+  const startOfWeek = addDays(today, -getDayOfWeek(today)); // Sunday
+  const endOfWeek = addDays(startOfWeek, 6); // Saturday
 
   return usePosts({
-    startDate: formatDate(startOfWeek),
-    endDate: formatDate(endOfWeek),
+    startDate: startOfWeek,
+    endDate: endOfWeek,
   });
 }
@@ -8,9 +8,14 @@ import {
   ensureWorkspaceExists,
   updateAISettings,
   updateSchedulingSettings,
+  updateEnabledPlatforms,
+  updateCustomObservances,
+  updateBrandProfile,
+  enableCalendarFeed,
+  disableCalendarFeed,
   updateWorkspaceName,
 } from '@/lib/services/workspace';
-import type { WorkspaceSettings } from '@/types';
+import type { BrandProfile, Observance, PlatformId, WorkspaceSettings } from '@/types';
 
 interface UseWorkspaceReturn {
   workspace: WorkspaceSettings | null;
@@ -19,6 +24,11 @@ interface UseWorkspaceReturn {
   updateName: (name: string) => Promise<void>;
   updateAI: (settings: Partial<WorkspaceSettings['settings']['ai']>) => Promise<void>;
   updateScheduling: (settings: Partial<WorkspaceSettings['settings']['scheduling']>) => Promise<void>;
+  updatePlatforms: (platforms: PlatformId[]) => Promise<void>;
+  updateObservances: (observances: Observance[]) => Promise<void>;
+  updateBrand: (profile: BrandProfile) => Promise<void>;
+  // Enabling always issues a new feed token
+  updateCalendarFeed: (enabled: boolean) => Promise<void>;
 }
 
 export function useWorkspace(): UseWorkspaceReturn {
@@ -87,6 +97,42 @@ export function useWorkspace(): UseWorkspaceReturn {
     [user]
   );
 
+  const updatePlatforms = useCallback(
+    async (platforms: PlatformId[]) => {
+      if (!user) return;
+      await updateEnabledPlatforms(user.uid, platforms);
+    },
+    [user]
+  );
+
+  const updateObservances = useCallback(
+    async (observances: Observance[]) => {
+      if (!user) return;
+      await updateCustomObservances(user.uid, observances);
+    },
+    [user]
+  );
+
+  const updateBrand = useCallback(
+    async (profile: BrandProfile) => {
+      if (!user) return;
+      await updateBrandProfile(user.uid, profile);
+    },
+    [user]
+  );
+
+  const updateCalendarFeed = useCallback(
+    async (enabled: boolean) => {
+      if (!user) return;
+      if (enabled) {
+        await enableCalendarFeed(user.uid);
+      } else {
+        await disableCalendarFeed(user.uid);
+      }
+    },
+    [user]
+  );
+
   return {
     workspace,
     loading,
@@ -94,5 +140,9 @@ export function useWorkspace(): UseWorkspaceReturn {
     updateName,
     updateAI,
     updateScheduling,
+    updatePlatforms,
+    updateObservances,
+    updateBrand,
+    updateCalendarFeed,
   };
 }
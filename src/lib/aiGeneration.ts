@@ -1,44 +1,59 @@
 /**
  * AI Caption Generation Service
  *
- * This module calls the server-side API route that interfaces with OpenAI
- * to generate social media captions and hashtags.
+ * This module calls the server-side API route that interfaces with the
+ * configured AI provider to generate social media captions and hashtags.
  */
 
-import type { WorkspaceSettings } from '@/types';
+import { getFirebaseAuth } from '@/lib/firebase';
+import { PLATFORM_IDS } from '@/lib/platforms';
+import type {
+  AIProviderId,
+  CaptionVariant,
+  GenerationJob,
+  PlatformId,
+  TokenUsage,
+  WorkspaceSettings,
+} from '@/types';
+
+export type GeneratedCaption = CaptionVariant;
 
 export interface GenerationResult {
-  facebook: {
-    caption: string;
-    hashtags: string[];
-  };
-  instagram: {
-    caption: string;
-    hashtags: string[];
-  };
+  captions: Partial<Record<PlatformId, GeneratedCaption>>; // First variant per platform
+  variants: Partial<Record<PlatformId, GeneratedCaption[]>>;
+  provider?: AIProviderId;
   model: string;
   confidence: number;
+  usage?: TokenUsage;
+  cost?: number; // Estimated USD
 }
 
 /**
- * Generate AI captions for a post using OpenAI
+ * Generate AI captions for a post with the workspace's AI provider. `observances` names the
+ * holidays or food days on the post's date (see getObservanceNames). When regenerating, pass
+ * the current captions as `previousOutputs` so the new ones differ, and optional `feedback`
+ * such as "shorter" or "more playful".
  */
 export async function generateCaptions(
   starterText: string,
   settings: WorkspaceSettings['settings']['ai'],
-  _previousOutputs?: { fbCaption?: string; igCaption?: string }
+  previousOutputs?: Partial<Record<PlatformId, string>>,
+  platforms: PlatformId[] = PLATFORM_IDS,
+  observances: string[] = [],
+  feedback: string = ''
 ): Promise<GenerationResult> {
   const response = await fetch('/api/generate-caption', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await getAuthHeaders(),
     body: JSON.stringify({
       starterText,
       brandVoice: settings.brandVoice,
       hashtagStyle: settings.hashtagStyle,
       emojiStyle: settings.emojiStyle,
-      platform: 'both',
+      platforms,
+      observances,
+      previousOutputs,
+      feedback: feedback.trim() || undefined,
     }),
   });
 
@@ -49,36 +64,86 @@ export async function generateCaptions(
 
   const data = await response.json();
 
+  const captions: GenerationResult['captions'] = {};
+  const variants: GenerationResult['variants'] = {};
+  for (const platform of platforms) {
+    captions[platform] = data.captions?.[platform] || { caption: '', hashtags: [] };
+    variants[platform] = Array.isArray(data.variants?.[platform])
+      ? data.variants[platform]
+      : [captions[platform]];
+  }
+
   return {
-    facebook: data.facebook || { caption: '', hashtags: [] },
-    instagram: data.instagram || { caption: '', hashtags: [] },
-    model: data.model || 'gpt-4o-mini',
-    confidence: 0.95,
+    captions,
+    variants,
+    provider: data.provider,
+    model: data.model || 'unknown',
+    confidence: typeof data.confidence === 'number' ? data.confidence : 0,
+    usage: data.usage,
+    cost: typeof data.cost === 'number' ? data.cost : undefined,
   };
 }
 
+export interface GenerationJobProgress {
+  total: number;
+  done: number;
+  failed: number;
+  remaining: number;
+}
+
 /**
- * Build the full caption with hashtags
+ * Headers for the AI API routes, which act on (and bill) the signed-in user's workspace
  */
-export function buildFullCaption(caption: string, hashtags: string[]): string {
-  if (hashtags.length === 0) return caption;
-  return `${caption}\n\n${hashtags.join(' ')}`;
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await getFirebaseAuth().currentUser?.getIdToken();
+  if (!token) {
+    throw new Error('You must be signed in to generate captions');
+  }
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
 }
 
 /**
- * Parse hashtags from a caption string
+ * Start a server-side job that generates captions for many posts. The job keeps
+ * running if the page is closed; follow it with useGenerationJob. Returns the job ID.
  */
-export function parseHashtags(text: string): string[] {
-  const matches = text.match(/#\w+/g);
-  return matches || [];
+export async function startGenerationJob(
+  postIds: string[],
+  platforms: PlatformId[] = PLATFORM_IDS
+): Promise<string> {
+  const response = await fetch('/api/generation-jobs', {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ postIds, platforms }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to start generation');
+  }
+  return data.jobId;
+}
+
+/**
+ * Retry the failed posts of a finished job
+ */
+export async function resumeGenerationJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/generation-jobs/${encodeURIComponent(jobId)}/resume`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to retry generation');
+  }
 }
 
 /**
- * Remove hashtags from a caption string
+ * Count a job's items by outcome
  */
-export function removeHashtags(text: string): string {
-  return text
-    .replace(/#\w+/g, '')
-    .replace(/\n\n\s*$/g, '')
-    .trim();
+export function getGenerationJobProgress(job: GenerationJob): GenerationJobProgress {
+  const items = Object.values(job.items);
+  const done = items.filter((item) => item.status === 'done').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+  return { total: items.length, done, failed, remaining: items.length - done - failed };
 }
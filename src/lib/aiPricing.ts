@@ -0,0 +1,65 @@
+/**
+ * Estimated AI generation cost
+ *
+ * List prices in USD per million tokens, matched by model name prefix (longest
+ * first, so "gpt-4o-mini" wins over "gpt-4o"). Local and stub models are free;
+ * unknown hosted models are estimated at zero rather than guessed.
+ */
+
+import type { AIProviderId, TokenUsage } from '@/types';
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+};
+
+const PRICE_PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+/**
+ * Usage is tracked per calendar month in UTC; this is the usage document ID for a date
+ */
+export function getUsageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Estimated cost in USD of a generation's token usage
+ */
+export function estimateCost(provider: AIProviderId, model: string, usage: TokenUsage): number {
+  if (provider === 'local' || provider === 'stub') return 0;
+
+  const prefix = PRICE_PREFIXES.find((name) => model.startsWith(name));
+  if (!prefix) return 0;
+
+  const price = MODEL_PRICES[prefix];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Whether a hosted model has a list price here (so its cost can be tracked)
+ */
+export function hasListPrice(model: string): boolean {
+  return PRICE_PREFIXES.some((name) => model.startsWith(name));
+}
+
+/**
+ * Format an estimated cost for display, keeping small amounts visible
+ */
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return '< $0.01';
+  return `$${cost.toFixed(2)}`;
+}
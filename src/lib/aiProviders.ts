@@ -0,0 +1,256 @@
+/**
+ * AI provider layer for caption generation (server-side only)
+ *
+ * Each provider turns a system prompt and user prompt into text. The provider
+ * is picked per request (workspace setting), then the AI_PROVIDER environment
+ * variable, then OpenAI. API keys and endpoints are read from the environment:
+ *
+ * - openai:    OPENAI_API_KEY, OPENAI_MODEL (default gpt-4o-mini)
+ * - anthropic: ANTHROPIC_API_KEY, ANTHROPIC_MODEL (default claude-3-5-haiku-latest)
+ * - local:     LOCAL_AI_BASE_URL (default http://localhost:11434/v1, e.g. Ollama),
+ *              LOCAL_AI_MODEL (default llama3.1), LOCAL_AI_API_KEY (optional)
+ * - stub:      no configuration; deterministic template captions for offline dev
+ *
+ * A workspace's model setting for a hosted provider must be listed in
+ * AI_ALLOWED_MODELS (comma-separated) or, when that is unset, have a list price
+ * in aiPricing, so workspaces can't run arbitrary models on the server's keys.
+ */
+
+import { hasListPrice } from '@/lib/aiPricing';
+import { getPlatform } from '@/lib/platforms';
+import type { AIProviderId, PlatformId, TokenUsage } from '@/types';
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  model?: string; // Overrides the provider's configured model
+  json?: boolean; // Ask for a bare JSON object, where the provider supports it
+  // Structured inputs behind the prompt; only the stub provider reads these
+  caption: {
+    starterText: string;
+    platforms: PlatformId[];
+    hashtagCounts: Partial<Record<PlatformId, number>>;
+    variants: number;
+    feedback?: string;
+  };
+}
+
+// Provider HTTP failures come back as `ok: false` so the route can pass the status through
+export type CompletionResult =
+  // `model` is what actually produced the content; `usage` is zero when the provider omits it
+  | { ok: true; content: string; model: string; usage: TokenUsage }
+  | { ok: false; status: number; details: unknown };
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+export const AI_PROVIDER_IDS: AIProviderId[] = ['openai', 'anthropic', 'local', 'stub'];
+
+export function isAIProviderId(value: unknown): value is AIProviderId {
+  return typeof value === 'string' && (AI_PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Call an OpenAI-compatible chat completions endpoint
+ */
+async function completeChat(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  request: CompletionRequest
+): Promise<CompletionResult> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' } }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    return { ok: false, status: response.status, details: errorData };
+  }
+
+  const data = await response.json();
+  return {
+    ok: true,
+    content: data.choices?.[0]?.message?.content || '',
+    model: data.model || model,
+    usage: {
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  complete: (request) =>
+    completeChat(
+      'https://api.openai.com/v1',
+      process.env.OPENAI_API_KEY,
+      request.model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      request
+    ),
+};
+
+const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  complete: async (request) => {
+    const model = request.model || process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        system: request.system,
+        // No JSON mode; prefilling the reply with "{" keeps it to a bare object
+        messages: [
+          { role: 'user', content: request.prompt },
+          ...(request.json ? [{ role: 'assistant', content: '{' }] : []),
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { ok: false, status: response.status, details: errorData };
+    }
+
+    const data = await response.json();
+    const text = Array.isArray(data.content)
+      ? data.content
+          .filter((block: { type: string }) => block.type === 'text')
+          .map((block: { text: string }) => block.text)
+          .join('')
+      : '';
+    return {
+      ok: true,
+      content: request.json ? `{${text}` : text,
+      model: data.model || model,
+      usage: {
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0,
+      },
+    };
+  },
+};
+
+const localProvider: AIProvider = {
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  isConfigured: () => true,
+  complete: (request) =>
+    completeChat(
+      process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+      process.env.LOCAL_AI_API_KEY,
+      request.model || process.env.LOCAL_AI_MODEL || 'llama3.1',
+      request
+    ),
+};
+
+/**
+ * Turn starter text into a hashtag-safe word list, for stub hashtags
+ */
+function toHashtagWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 3);
+}
+
+// Generic tags padding stub hashtags up to the requested count
+const STUB_HASHTAGS = [
+  'localfood', 'supportlocal', 'foodie', 'restaurantlife', 'eatlocal', 'foodlover',
+  'shoplocal', 'goodeats', 'smallbusiness', 'dinnertime', 'foodstagram', 'yum',
+  'chefslife', 'freshfood', 'community',
+];
+
+const stubProvider: AIProvider = {
+  id: 'stub',
+  label: 'Offline stub',
+  isConfigured: () => true,
+  complete: async (request) => {
+    const { starterText, platforms, hashtagCounts, variants, feedback } = request.caption;
+    const words = [...new Set([...toHashtagWords(starterText), ...STUB_HASHTAGS])];
+
+    const captions: Record<string, { caption: string; hashtags: string[] }[]> = {};
+    for (const platform of platforms) {
+      const config = getPlatform(platform);
+      const count = hashtagCounts[platform] ?? 0;
+      captions[platform] = Array.from({ length: variants }, (_, i) => ({
+        caption: `${starterText.trim()} (${config.label} draft ${i + 1}${
+          feedback ? `, ${feedback}` : ''
+        })`.slice(0, config.charLimit),
+        // Rotate the tag list so each variant differs
+        hashtags: [...words.slice(i), ...words.slice(0, i)]
+          .slice(0, count)
+          .map((word) => `#${word}`),
+      }));
+    }
+
+    return {
+      ok: true,
+      content: JSON.stringify(captions),
+      model: 'stub-template',
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  },
+};
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+  stub: stubProvider,
+};
+
+/**
+ * Pick the provider for a request: the requested one, then AI_PROVIDER, then OpenAI
+ */
+export function getAIProvider(requested?: AIProviderId): AIProvider {
+  const fromEnv = process.env.AI_PROVIDER;
+  const id = requested || (isAIProviderId(fromEnv) ? fromEnv : 'openai');
+  return PROVIDERS[id];
+}
+
+/**
+ * Whether a workspace may override the provider's configured model with this one
+ */
+export function isModelAllowed(provider: AIProviderId, model: string): boolean {
+  if (provider === 'local' || provider === 'stub') return true;
+
+  const allowed = (process.env.AI_ALLOWED_MODELS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return allowed.length > 0 ? allowed.includes(model) : hasListPrice(model);
+}
@@ -0,0 +1,99 @@
+/**
+ * Brand profile rules for generated captions
+ *
+ * The profile steers the prompt (tone examples, sign-offs, call to action,
+ * contact details) and is enforced on the result: banned phrases fail
+ * validation, banned hashtags are dropped and required hashtags are added.
+ * Shared by the settings page and server-side caption generation.
+ */
+
+import type { BrandProfile } from '@/types';
+
+export const MAX_SAMPLE_POSTS = 5;
+const MAX_SAMPLE_LENGTH = 1000;
+const MAX_LIST_ITEMS = 30;
+const MAX_FIELD_LENGTH = 200;
+
+export const EMPTY_BRAND_PROFILE: BrandProfile = {
+  samplePosts: [],
+  bannedPhrases: [],
+  requiredHashtags: [],
+  bannedHashtags: [],
+  signOffs: [],
+  defaultCta: '',
+  address: '',
+  phone: '',
+  website: '',
+};
+
+/**
+ * Trim and dedupe a list of strings, dropping blanks
+ */
+function cleanList(values: unknown, maxItems: number, maxLength: number): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const item = value.trim().slice(0, maxLength);
+    if (!item || seen.has(item.toLowerCase())) continue;
+    seen.add(item.toLowerCase());
+    result.push(item);
+  }
+  return result.slice(0, maxItems);
+}
+
+function cleanHashtags(values: unknown): string[] {
+  return cleanList(values, MAX_LIST_ITEMS, MAX_FIELD_LENGTH)
+    .map((tag) => `#${tag.replace(/^#+/, '').replace(/\s+/g, '')}`)
+    .filter((tag) => tag.length > 1);
+}
+
+function cleanField(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_FIELD_LENGTH) : '';
+}
+
+/**
+ * A complete, cleaned brand profile from stored or submitted data (which may
+ * be missing, partial, or from an older version)
+ */
+export function normalizeBrandProfile(profile?: Partial<BrandProfile> | null): BrandProfile {
+  return {
+    samplePosts: cleanList(profile?.samplePosts, MAX_SAMPLE_POSTS, MAX_SAMPLE_LENGTH),
+    bannedPhrases: cleanList(profile?.bannedPhrases, MAX_LIST_ITEMS, MAX_FIELD_LENGTH),
+    requiredHashtags: cleanHashtags(profile?.requiredHashtags),
+    bannedHashtags: cleanHashtags(profile?.bannedHashtags),
+    signOffs: cleanList(profile?.signOffs, MAX_LIST_ITEMS, MAX_FIELD_LENGTH),
+    defaultCta: cleanField(profile?.defaultCta),
+    address: cleanField(profile?.address),
+    phone: cleanField(profile?.phone),
+    website: cleanField(profile?.website),
+  };
+}
+
+/**
+ * Banned phrases that appear in a text, matched case-insensitively on word boundaries
+ */
+export function findBannedPhrases(text: string, bannedPhrases: string[]): string[] {
+  return bannedPhrases.filter((phrase) => {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\w])${escaped}($|[^\\w])`, 'i').test(text);
+  });
+}
+
+/**
+ * Apply the profile's hashtag rules: drop banned tags, then put required tags
+ * first. The result may be longer than the platform's count; callers trim it.
+ */
+export function applyBrandHashtags(hashtags: string[], profile: BrandProfile): string[] {
+  const banned = new Set(profile.bannedHashtags.map((tag) => tag.toLowerCase()));
+  const required = profile.requiredHashtags.filter((tag) => !banned.has(tag.toLowerCase()));
+  const requiredKeys = new Set(required.map((tag) => tag.toLowerCase()));
+
+  return [
+    ...required,
+    ...hashtags.filter(
+      (tag) => !banned.has(tag.toLowerCase()) && !requiredKeys.has(tag.toLowerCase())
+    ),
+  ];
+}
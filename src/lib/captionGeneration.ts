@@ -0,0 +1,534 @@
+/**
+ * Caption generation core (server-side only)
+ *
+ * Validates a generation request, builds the prompts, calls the configured AI
+ * provider and checks its JSON against the caption schema. Shared by the
+ * generate-caption route and server-side bulk generation jobs.
+ */
+
+import {
+  getAIProvider,
+  isAIProviderId,
+  isModelAllowed,
+  type CompletionRequest,
+  type CompletionResult,
+} from '@/lib/aiProviders';
+import { estimateCost } from '@/lib/aiPricing';
+import { applyBrandHashtags, findBannedPhrases, normalizeBrandProfile } from '@/lib/brandProfile';
+import { PLATFORM_IDS, getPlatform, isPlatformId } from '@/lib/platforms';
+import type { AIProviderId, BrandProfile, PlatformId, TokenUsage } from '@/types';
+
+export interface GenerateRequest {
+  starterText: string;
+  brandVoice: string;
+  hashtagStyle: 'minimal' | 'moderate' | 'heavy';
+  emojiStyle: 'low' | 'medium' | 'high';
+  platforms?: PlatformId[];
+  observances?: string[]; // Holidays or food days falling on the post's date
+  provider?: AIProviderId; // Falls back to AI_PROVIDER, then OpenAI
+  model?: string;
+  variants?: number; // Captions per platform, 1-5 (default 1)
+  previousOutputs?: Partial<Record<PlatformId, string>>; // Captions being regenerated
+  feedback?: string; // What to change, e.g. "shorter" or "mention happy hour"
+  brand?: Partial<BrandProfile>; // Sample posts, banned phrases, required hashtags, etc.
+}
+
+// Earlier captions and user feedback steering a regeneration away from the last result
+interface Refinement {
+  previousOutputs: Partial<Record<PlatformId, string>>;
+  feedback: string;
+}
+
+interface PlatformContent {
+  caption: string;
+  hashtags: string[];
+}
+
+type PlatformCaptions = Partial<Record<PlatformId, PlatformContent>>;
+type PlatformVariants = Partial<Record<PlatformId, PlatformContent[]>>;
+
+// A response either matches the caption schema or lists what is wrong with it
+type ParseResult =
+  | { ok: true; variants: PlatformVariants }
+  | { ok: false; errors: string[] };
+
+export interface GenerateResponse {
+  captions: PlatformCaptions; // First variant per platform
+  variants: PlatformVariants;
+  provider: AIProviderId;
+  model: string;
+  confidence: number; // Share of requested platforms that came back with a caption
+  usage: TokenUsage; // Summed over the first attempt and any repair
+  cost: number; // Estimated USD
+}
+
+// Generation either succeeds or fails with an HTTP status (provider statuses pass through).
+// Failures after a completion still report the tokens it used.
+export type GenerateOutcome =
+  | { ok: true; response: GenerateResponse }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      details?: unknown;
+      usage?: TokenUsage;
+      cost?: number;
+      retryAfter?: number; // Seconds, for rate limits
+    };
+
+const MAX_VARIANTS = 5;
+const MAX_FEEDBACK_LENGTH = 300;
+
+const EMOJI_GUIDANCE = {
+  low: 'Use no emojis or at most 1 emoji.',
+  medium: 'Use 2-3 emojis strategically placed.',
+  high: 'Use 4-6 emojis throughout the caption for energy and visual appeal.',
+};
+
+/**
+ * Check a request before anything is counted or sent: the provider must be
+ * configured, the model allowed, and the starter text and platforms present.
+ * Returns the failure, or null when the request can be generated.
+ */
+export function validateGenerateRequest(
+  body: GenerateRequest
+): Extract<GenerateOutcome, { ok: false }> | null {
+  const provider = getAIProvider(isAIProviderId(body.provider) ? body.provider : undefined);
+
+  if (!provider.isConfigured()) {
+    return { ok: false, status: 500, error: `${provider.label} API key not configured` };
+  }
+
+  const model = getRequestedModel(body);
+  if (model && !isModelAllowed(provider.id, model)) {
+    return { ok: false, status: 400, error: `Model "${model}" is not allowed on this server` };
+  }
+
+  if (typeof body.starterText !== 'string' || !body.starterText.trim()) {
+    return { ok: false, status: 400, error: 'starterText is required' };
+  }
+
+  if (getRequestedPlatforms(body).length === 0) {
+    return { ok: false, status: 400, error: 'At least one valid platform is required' };
+  }
+
+  return null;
+}
+
+function getRequestedModel(body: GenerateRequest): string | undefined {
+  return typeof body.model === 'string' && body.model.trim() ? body.model.trim() : undefined;
+}
+
+// Default to every registered platform when none are specified
+function getRequestedPlatforms(body: GenerateRequest): PlatformId[] {
+  return Array.isArray(body.platforms) ? body.platforms.filter(isPlatformId) : PLATFORM_IDS;
+}
+
+/**
+ * Generate captions for one request. Provider failures keep their HTTP status
+ * so callers can tell rate limits and outages (worth retrying) from bad input.
+ */
+export async function generateCaptionResponse(body: GenerateRequest): Promise<GenerateOutcome> {
+  const invalid = validateGenerateRequest(body);
+  if (invalid) {
+    return invalid;
+  }
+
+  const provider = getAIProvider(isAIProviderId(body.provider) ? body.provider : undefined);
+  const { starterText, brandVoice, hashtagStyle, emojiStyle } = body;
+  const platforms = getRequestedPlatforms(body);
+
+  const variantCount = Number.isInteger(body.variants)
+    ? Math.min(MAX_VARIANTS, Math.max(1, body.variants!))
+    : 1;
+
+  const brand = normalizeBrandProfile(body.brand);
+  const systemPrompt = buildSystemPrompt(brandVoice, emojiStyle, platforms, variantCount, brand);
+  // Keep observance context short; it comes from the caller
+  const observances = Array.isArray(body.observances)
+    ? body.observances
+        .filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+        .slice(0, 5)
+        .map((name) => name.trim().slice(0, 100))
+    : [];
+
+  // Only the requested platforms' previous captions are used, capped at their limits
+  const refinement: Refinement = {
+    previousOutputs: {},
+    feedback:
+      typeof body.feedback === 'string' ? body.feedback.trim().slice(0, MAX_FEEDBACK_LENGTH) : '',
+  };
+  for (const platform of platforms) {
+    const previous = body.previousOutputs?.[platform];
+    if (typeof previous === 'string' && previous.trim()) {
+      refinement.previousOutputs[platform] = previous
+        .trim()
+        .slice(0, getPlatform(platform).charLimit);
+    }
+  }
+
+  const userPrompt = buildUserPrompt(
+    starterText,
+    platforms,
+    hashtagStyle,
+    observances,
+    variantCount,
+    refinement
+  );
+
+  const hashtagCounts = Object.fromEntries(
+    platforms.map((id) => [id, getHashtagCount(id, hashtagStyle)])
+  );
+  const completionRequest: CompletionRequest = {
+    system: systemPrompt,
+    prompt: userPrompt,
+    temperature: 0.8,
+    maxTokens: Math.max(1000, 500 * platforms.length * variantCount),
+    model: getRequestedModel(body),
+    json: true,
+    caption: {
+      starterText,
+      platforms,
+      hashtagCounts,
+      variants: variantCount,
+      feedback: refinement.feedback,
+    },
+  };
+
+  let result = await provider.complete(completionRequest);
+  if (!result.ok) {
+    return providerError(provider.label, result);
+  }
+  const usage: TokenUsage = { ...result.usage };
+  const firstModel = result.model;
+
+  let parsed = parseAIResponse(result.content, platforms, variantCount, hashtagCounts, brand);
+
+  // One repair attempt: show the model its output and what was wrong with it
+  if (!parsed.ok) {
+    console.warn(`Invalid ${provider.label} response, retrying:`, parsed.errors);
+    result = await provider.complete({
+      ...completionRequest,
+      prompt: buildRepairPrompt(userPrompt, result.content, parsed.errors),
+      temperature: 0.2,
+    });
+    if (!result.ok) {
+      return {
+        ...providerError(provider.label, result),
+        usage,
+        cost: estimateCost(provider.id, firstModel, usage),
+      };
+    }
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    parsed = parseAIResponse(result.content, platforms, variantCount, hashtagCounts, brand);
+  }
+
+  if (!parsed.ok) {
+    console.error(
+      `Invalid ${provider.label} response after repair:`,
+      parsed.errors,
+      result.content
+    );
+    return {
+      ok: false,
+      status: 502,
+      error: `AI returned invalid captions: ${parsed.errors[0]}`,
+      details: parsed.errors,
+      usage,
+      cost: estimateCost(provider.id, result.model, usage),
+    };
+  }
+
+  const variants = parsed.variants;
+  const captions: PlatformCaptions = {};
+  for (const platform of platforms) {
+    const first = variants[platform]?.[0];
+    if (first) captions[platform] = first;
+  }
+  const returned = platforms.filter((id) => captions[id]?.caption).length;
+
+  return {
+    ok: true,
+    response: {
+      captions,
+      variants,
+      provider: provider.id,
+      model: result.model,
+      confidence: returned / platforms.length,
+      usage,
+      cost: estimateCost(provider.id, result.model, usage),
+    },
+  };
+}
+
+function providerError(
+  label: string,
+  result: Extract<CompletionResult, { ok: false }>
+): Extract<GenerateOutcome, { ok: false }> {
+  console.error(`${label} API error:`, result.details);
+  return {
+    ok: false,
+    status: result.status,
+    error: 'Failed to generate content',
+    details: result.details,
+  };
+}
+
+/**
+ * Prompt section for the brand profile, empty when nothing is set
+ */
+function buildBrandGuidance(brand: BrandProfile): string {
+  const quoted = (items: string[]) => items.map((item) => `"${item}"`).join(', ');
+  const rules: string[] = [];
+  if (brand.bannedPhrases.length > 0) {
+    rules.push(`- Never use these words or phrases: ${quoted(brand.bannedPhrases)}`);
+  }
+  if (brand.requiredHashtags.length > 0) {
+    rules.push(
+      `- Always include these hashtags (they count toward the hashtag total): ${brand.requiredHashtags.join(' ')}`
+    );
+  }
+  if (brand.bannedHashtags.length > 0) {
+    rules.push(`- Never use these hashtags: ${brand.bannedHashtags.join(' ')}`);
+  }
+  if (brand.signOffs.length > 0) {
+    rules.push(`- Where it fits, end the caption with one of these sign-offs: ${quoted(brand.signOffs)}`);
+  }
+  if (brand.defaultCta) {
+    rules.push(`- Unless the content calls for something else, use this call-to-action: "${brand.defaultCta}"`);
+  }
+  const details = [
+    brand.address && `address ${brand.address}`,
+    brand.phone && `phone ${brand.phone}`,
+    brand.website && `website ${brand.website}`,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    rules.push(`- Business details, written exactly like this when mentioned: ${details.join('; ')}`);
+  }
+
+  const sections: string[] = [];
+  if (brand.samplePosts.length > 0) {
+    sections.push(`POSTS WE LOVE (match their tone and style, not their content):
+${brand.samplePosts.map((post) => `---\n${post}`).join('\n')}
+---`);
+  }
+  if (rules.length > 0) {
+    sections.push(`BRAND RULES:\n${rules.join('\n')}`);
+  }
+  return sections.length > 0 ? `\n${sections.join('\n\n')}\n` : '';
+}
+
+function buildSystemPrompt(
+  brandVoice: string,
+  emojiStyle: string,
+  platforms: PlatformId[],
+  variantCount: number = 1,
+  brand: BrandProfile = normalizeBrandProfile()
+): string {
+  const platformGuidance = platforms
+    .map((id) => `- ${getPlatform(id).prompt.guidance}`)
+    .join('\n');
+
+  // Several variants come back as an array of caption objects per platform
+  const responseFormat = platforms
+    .map((id) => {
+      const content = `{
+    "caption": "Your ${getPlatform(id).label} caption here",
+    "hashtags": ["#hashtag1", "#hashtag2"]
+  }`;
+      return variantCount > 1
+        ? `  "${id}": [\n  ${content},\n  ...${variantCount} items in total\n  ]`
+        : `  "${id}": ${content}`;
+    })
+    .join(',\n');
+
+  return `You are a social media expert for restaurants and local businesses. You create engaging, authentic captions that drive engagement.
+
+BRAND VOICE:
+${brandVoice || 'Friendly, welcoming, and community-focused. Casual but professional.'}
+${buildBrandGuidance(brand)}
+EMOJI STYLE:
+${EMOJI_GUIDANCE[emojiStyle as keyof typeof EMOJI_GUIDANCE]}
+
+GUIDELINES:
+- Write conversational, authentic copy that doesn't sound like AI
+- Focus on creating connection and community
+- Include clear calls-to-action when appropriate
+- Never use clichés like "dive into" or "elevate your experience"
+${platformGuidance}
+- Hashtags should be relevant to restaurants, food, local business, and the specific content
+
+RESPONSE FORMAT:
+You must respond in this exact JSON format:
+{
+${responseFormat}
+}`;
+}
+
+function getHashtagCount(platform: PlatformId, hashtagStyle: string): number {
+  const counts = getPlatform(platform).hashtags.counts;
+  return counts[hashtagStyle as GenerateRequest['hashtagStyle']] ?? counts.moderate;
+}
+
+function buildUserPrompt(
+  starterText: string,
+  platforms: PlatformId[],
+  hashtagStyle: string,
+  observances: string[] = [],
+  variantCount: number = 1,
+  refinement?: Refinement
+): string {
+  const requirements = platforms
+    .map((id) => {
+      const config = getPlatform(id);
+      const count = getHashtagCount(id, hashtagStyle);
+      const hashtagRule = count === 0
+        ? 'no hashtags (return an empty hashtags array)'
+        : `exactly ${count} relevant hashtag${count === 1 ? '' : 's'}`;
+      return `- ${config.label}: ${config.prompt.captionStyle} with ${hashtagRule}, under ${config.charLimit} characters including hashtags`;
+    })
+    .join('\n');
+
+  const occasion = observances.length > 0
+    ? `\nThis post goes out on ${observances.join(' and ')}. Tie the captions to the occasion where it fits naturally.\n`
+    : '';
+
+  const previous = refinement
+    ? platforms
+        .filter((id) => refinement.previousOutputs[id])
+        .map((id) => `- ${getPlatform(id).label}: "${refinement.previousOutputs[id]}"`)
+    : [];
+  const revision = [
+    previous.length > 0
+      ? `\nThese captions were already written and rejected:\n${previous.join('\n')}\nWrite new captions that clearly differ from them in hook, wording, and structure. Do not reuse their sentences.\n`
+      : '',
+    refinement?.feedback
+      ? `\nFeedback on the previous captions: "${refinement.feedback}". Apply it to every caption.\n`
+      : '',
+  ].join('');
+
+  return `Create social media captions based on this content idea:
+
+"${starterText}"
+${occasion}${revision}
+Requirements:
+${requirements}${platforms.length > 1 ? '\n- Each caption should be unique but convey the same message' : ''}${variantCount > 1 ? `\n- Write exactly ${variantCount} variants per platform, each with a clearly different angle, hook, or structure` : ''}
+- Hashtags should be a mix of broad reach (#foodie, #localfood) and specific (#restaurantlife, #supportlocal)
+
+Generate the captions now in the specified JSON format.`;
+}
+
+function buildRepairPrompt(userPrompt: string, content: string, errors: string[]): string {
+  return `${userPrompt}
+
+Your previous response could not be used:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Previous response:
+${content.slice(0, 4000) || '(empty)'}
+
+Return the corrected captions as a single JSON object in the specified format, with no other text.`;
+}
+
+/**
+ * Add the # prefix, drop blanks and spaces, and remove case-insensitive duplicates
+ */
+function normalizeHashtags(hashtags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of hashtags) {
+    const tag = raw.trim().replace(/^#+/, '').replace(/\s+/g, '');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(`#${tag}`);
+  }
+  return result;
+}
+
+/**
+ * Check a model response against the caption schema: every platform present,
+ * each variant with a non-empty caption free of banned phrases and at least the
+ * requested number of hashtags. Brand hashtag rules are applied, then extra
+ * hashtags and variants are trimmed; fewer variants than requested are
+ * accepted. Anything else is reported so it can be repaired.
+ */
+function parseAIResponse(
+  content: string,
+  platforms: PlatformId[],
+  variantCount: number,
+  hashtagCounts: Partial<Record<PlatformId, number>>,
+  brand: BrandProfile
+): ParseResult {
+  // Tolerate code fences or a sentence around the object
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { ok: false, errors: ['Response did not contain a JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch (error) {
+    return {
+      ok: false,
+      errors: [`Response was not valid JSON (${error instanceof Error ? error.message : error})`],
+    };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, errors: ['Response must be a JSON object keyed by platform'] };
+  }
+
+  const errors: string[] = [];
+  const variants: PlatformVariants = {};
+
+  for (const platform of platforms) {
+    const value = (parsed as Record<string, unknown>)[platform];
+    if (value === undefined || value === null) {
+      errors.push(`Missing "${platform}"`);
+      continue;
+    }
+
+    // A single object is accepted even when several variants were asked for
+    const items = (Array.isArray(value) ? value : [value]).slice(0, variantCount);
+    if (items.length === 0) {
+      errors.push(`"${platform}" has no captions`);
+      continue;
+    }
+
+    const expected = hashtagCounts[platform] ?? 0;
+    const contents: PlatformContent[] = [];
+    items.forEach((item, index) => {
+      const path = Array.isArray(value) ? `${platform}[${index}]` : platform;
+      const { caption, hashtags } = (item ?? {}) as Record<string, unknown>;
+
+      if (typeof caption !== 'string' || !caption.trim()) {
+        errors.push(`${path}.caption must be a non-empty string`);
+        return;
+      }
+      if (!Array.isArray(hashtags) || !hashtags.every((tag) => typeof tag === 'string')) {
+        errors.push(`${path}.hashtags must be an array of strings`);
+        return;
+      }
+
+      const banned = findBannedPhrases(caption, brand.bannedPhrases);
+      if (banned.length > 0) {
+        errors.push(`${path}.caption uses banned phrase "${banned[0]}"`);
+        return;
+      }
+
+      const tags = applyBrandHashtags(normalizeHashtags(hashtags), brand);
+      if (tags.length < expected) {
+        errors.push(`${path}.hashtags has ${tags.length}, expected exactly ${expected}`);
+        return;
+      }
+
+      contents.push({ caption: caption.trim(), hashtags: tags.slice(0, expected) });
+    });
+
+    variants[platform] = contents;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, variants };
+}
@@ -0,0 +1,202 @@
+/**
+ * Caption lint engine
+ *
+ * Rule-based checks over one platform's caption and hashtags, using the limits
+ * in the platform registry and the workspace brand profile. Errors break the
+ * platform's rules (or the brand's) and block export; warnings are advice.
+ */
+
+import { buildFullCaption, parseHashtags } from '@/lib/generatedCaptions';
+import { findBannedPhrases } from '@/lib/brandProfile';
+import { getPlatform } from '@/lib/platforms';
+import type { BrandProfile, PlatformId, PlatformPost, Post } from '@/types';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRuleId =
+  | 'char-limit'
+  | 'hashtag-limit'
+  | 'preview-length'
+  | 'link-in-caption'
+  | 'duplicate-hashtags'
+  | 'banned-phrase'
+  | 'banned-hashtag'
+  | 'all-caps'
+  | 'missing-cta';
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  label: string; // Short badge text
+  message: string;
+}
+
+export interface LintOptions {
+  brand?: BrandProfile;
+}
+
+type LintContent = Pick<PlatformPost, 'caption' | 'hashtags'>;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|co|io|us|menu)\b/i;
+
+// Phrases that read as a call to action
+const CTA_PATTERN =
+  /\b(visit|stop by|swing by|come (in|by|see|try|join)|book|reserve|order|call|join us|try|grab|get yours|tag|comment|share|save this|link in (our )?bio|dm us|message us|learn more|sign up|rsvp|follow|tap|click|see you)\b/i;
+
+// A caption is shouting when most of its letters are capitals
+const ALL_CAPS_MIN_LETTERS = 20;
+const ALL_CAPS_RATIO = 0.6;
+
+function findDuplicateHashtags(caption: string, hashtags: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  // Hashtags written inline in the caption count as used too
+  for (const tag of [...parseHashtags(caption), ...hashtags]) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) duplicates.add(tag);
+    seen.add(key);
+  }
+  return [...duplicates];
+}
+
+function isMostlyCaps(text: string): boolean {
+  const letters = text.replace(/#\w+/g, '').replace(/[^a-zA-Z]/g, '');
+  if (letters.length < ALL_CAPS_MIN_LETTERS) return false;
+  const upper = letters.replace(/[^A-Z]/g, '').length;
+  return upper / letters.length >= ALL_CAPS_RATIO;
+}
+
+/**
+ * Lint one platform's caption and hashtags
+ */
+export function lintCaption(
+  platform: PlatformId,
+  content: LintContent,
+  { brand }: LintOptions = {}
+): LintFinding[] {
+  const config = getPlatform(platform);
+  const caption = content.caption || '';
+  const hashtags = content.hashtags || [];
+  const findings: LintFinding[] = [];
+
+  if (!caption.trim()) return findings;
+
+  const length = buildFullCaption(caption, hashtags).length;
+  if (length > config.charLimit) {
+    findings.push({
+      rule: 'char-limit',
+      severity: 'error',
+      label: 'Too long',
+      message: `${length.toLocaleString()} characters; ${config.label} allows ${config.charLimit.toLocaleString()}`,
+    });
+  }
+
+  // Tags written into the caption count the same as the hashtag list
+  const tags = new Map<string, string>();
+  for (const tag of [...parseHashtags(caption), ...hashtags]) {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  const tagCount = tags.size;
+  if (config.lint.maxHashtags !== undefined && tagCount > config.lint.maxHashtags) {
+    findings.push({
+      rule: 'hashtag-limit',
+      severity: 'error',
+      label: 'Too many hashtags',
+      message: `${tagCount} hashtags; ${config.label} allows ${config.lint.maxHashtags}`,
+    });
+  }
+
+  const bannedPhrases = findBannedPhrases(caption, brand?.bannedPhrases || []);
+  if (bannedPhrases.length > 0) {
+    findings.push({
+      rule: 'banned-phrase',
+      severity: 'error',
+      label: 'Banned phrase',
+      message: `Uses ${bannedPhrases.map((phrase) => `"${phrase}"`).join(', ')}`,
+    });
+  }
+
+  const banned = new Set((brand?.bannedHashtags || []).map((tag) => tag.toLowerCase()));
+  const bannedTags = [...tags].filter(([key]) => banned.has(key)).map(([, tag]) => tag);
+  if (bannedTags.length > 0) {
+    findings.push({
+      rule: 'banned-hashtag',
+      severity: 'error',
+      label: 'Banned hashtag',
+      message: `Uses ${bannedTags.join(' ')}`,
+    });
+  }
+
+  // The feed shows the opening before "more"; the hook should fit in it
+  const opening = caption.trim().split('\n')[0];
+  if (config.lint.previewLength && opening.length > config.lint.previewLength) {
+    findings.push({
+      rule: 'preview-length',
+      severity: 'warning',
+      label: 'Hook cut off',
+      message: `The first line is cut off after ${config.lint.previewLength} characters in the ${config.label} feed`,
+    });
+  }
+
+  if (!config.lint.clickableLinks && URL_PATTERN.test(caption)) {
+    findings.push({
+      rule: 'link-in-caption',
+      severity: 'warning',
+      label: 'Link',
+      message: `Links aren't clickable in ${config.label} posts`,
+    });
+  }
+
+  const duplicates = findDuplicateHashtags(caption, hashtags);
+  if (duplicates.length > 0) {
+    findings.push({
+      rule: 'duplicate-hashtags',
+      severity: 'warning',
+      label: 'Duplicate hashtags',
+      message: `Repeated: ${duplicates.join(' ')}`,
+    });
+  }
+
+  if (isMostlyCaps(caption)) {
+    findings.push({
+      rule: 'all-caps',
+      severity: 'warning',
+      label: 'All caps',
+      message: 'Mostly capital letters reads as shouting',
+    });
+  }
+
+  const hasCta =
+    CTA_PATTERN.test(caption) ||
+    (!!brand?.defaultCta && caption.toLowerCase().includes(brand.defaultCta.toLowerCase()));
+  if (!hasCta) {
+    findings.push({
+      rule: 'missing-cta',
+      severity: 'warning',
+      label: 'No CTA',
+      message: 'No call to action (visit, book, order, link in bio, ...)',
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Lint each of the given platforms a post has content for
+ */
+export function lintPost(
+  post: Post,
+  platforms: PlatformId[],
+  options: LintOptions = {}
+): Partial<Record<PlatformId, LintFinding[]>> {
+  const result: Partial<Record<PlatformId, LintFinding[]>> = {};
+  for (const platform of platforms) {
+    const content = post[platform];
+    if (content) result[platform] = lintCaption(platform, content, options);
+  }
+  return result;
+}
+
+export function hasLintErrors(findings: LintFinding[]): boolean {
+  return findings.some((finding) => finding.severity === 'error');
+}
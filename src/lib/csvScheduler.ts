@@ -5,11 +5,18 @@
  * Rows are processed in CSV order, with anchored dates taking priority.
  *
  * Platform Rules:
- * - One IG post per day, one FB post per day
- * - A CSV row creates BOTH IG and FB for that date
- * - A date is only available if BOTH platforms are unoccupied
+ * - Up to `maxPostsPerDay` posts per platform per day
+ * - A CSV row creates a post for EVERY enabled platform on that date
+ * - A date is only available while ALL enabled platforms are below the daily limit
+ *   (posts on platforms the workspace no longer publishes to don't count)
+ * - Auto-assigned rows prefer the emptiest dates so posts stay spread out
+ * - Blackout dates and closed days are never auto-assigned; anchors on them are flagged
  */
 
+import { PLATFORM_IDS, getPlatform, getPostPlatforms } from '@/lib/platforms';
+import { addDays } from '@/lib/timezone';
+import type { PlatformId, Post } from '@/types';
+
 export interface CSVRow {
   rowIndex: number;
   rawDate: string;
@@ -20,10 +27,8 @@ export interface CSVRow {
   error?: string;
 }
 
-export interface OccupiedDates {
-  instagram: Set<string>;
-  facebook: Set<string>;
-}
+/** Number of existing posts per date, per platform */
+export type OccupiedDates = Record<PlatformId, Map<string, number>>;
 
 export interface RowIssue {
   rowIndex: number;
@@ -97,32 +102,76 @@ export function normalizeDateString(dateStr: string): string | null {
  */
 export function generateDateRange(startDate: string, endDate: string): string[] {
   const dates: string[] = [];
-  const current = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
+  for (let current = startDate; current <= endDate; current = addDays(current, 1)) {
+    dates.push(current);
+  }
+  return dates;
+}
 
-  while (current <= end) {
-    dates.push(current.toISOString().split('T')[0]);
-    current.setDate(current.getDate() + 1);
+/**
+ * Count existing posts per date for each platform
+ */
+export function buildOccupiedDates(posts: Post[]): OccupiedDates {
+  const occupiedDates = {} as OccupiedDates;
+  for (const platform of PLATFORM_IDS) {
+    occupiedDates[platform] = new Map<string, number>();
   }
 
-  return dates;
+  for (const post of posts) {
+    for (const platform of getPostPlatforms(post)) {
+      const counts = occupiedDates[platform];
+      counts.set(post.date, (counts.get(post.date) || 0) + 1);
+    }
+  }
+
+  return occupiedDates;
 }
 
 /**
- * Check if a date is available for import (both IG and FB must be unoccupied)
+ * Get dates where any of the given platforms has reached the daily limit
  */
-function isDateAvailable(date: string, occupiedDates: OccupiedDates): boolean {
-  return !occupiedDates.instagram.has(date) && !occupiedDates.facebook.has(date);
+export function getFullDates(
+  occupiedDates: OccupiedDates,
+  maxPostsPerDay: number,
+  platforms: PlatformId[]
+): Set<string> {
+  const fullDates = new Set<string>();
+  for (const platform of platforms) {
+    occupiedDates[platform].forEach((count, date) => {
+      if (count >= maxPostsPerDay) fullDates.add(date);
+    });
+  }
+  return fullDates;
 }
 
 /**
- * Get which platforms are occupied on a date
+ * Get how many more rows a date can take (every given platform needs room)
  */
-function getOccupiedPlatforms(date: string, occupiedDates: OccupiedDates): string[] {
-  const platforms: string[] = [];
-  if (occupiedDates.instagram.has(date)) platforms.push('Instagram');
-  if (occupiedDates.facebook.has(date)) platforms.push('Facebook');
-  return platforms;
+function getRemainingCapacity(
+  date: string,
+  occupiedDates: OccupiedDates,
+  maxPostsPerDay: number,
+  platforms: PlatformId[]
+): number {
+  const used = Math.max(
+    0,
+    ...platforms.map((platform) => occupiedDates[platform].get(date) || 0)
+  );
+  return Math.max(0, maxPostsPerDay - used);
+}
+
+/**
+ * Get which platforms are already at the daily limit on a date
+ */
+function getOccupiedPlatforms(
+  date: string,
+  occupiedDates: OccupiedDates,
+  maxPostsPerDay: number,
+  platforms: PlatformId[]
+): string[] {
+  return platforms
+    .filter((platform) => (occupiedDates[platform].get(date) || 0) >= maxPostsPerDay)
+    .map((platform) => getPlatform(platform).label);
 }
 
 /**
@@ -131,7 +180,10 @@ function getOccupiedPlatforms(date: string, occupiedDates: OccupiedDates): strin
 export function assignDatesWithAnchors(
   rows: CSVRow[],
   rangeDates: string[],
-  occupiedDates: OccupiedDates
+  occupiedDates: OccupiedDates,
+  platforms: PlatformId[], // Enabled platforms each row posts to
+  maxPostsPerDay: number = 1,
+  blackoutDates: Map<string, string> = new Map() // Unavailable date -> reason
 ): SchedulingResult {
   const rangeDateSet = new Set(rangeDates);
   const issues: RowIssue[] = [];
@@ -158,7 +210,7 @@ export function assignDatesWithAnchors(
     return newRow;
   });
 
-  // Step 2: Check for duplicate anchor dates in CSV
+  // Step 2: Check for more anchors on one date than the daily limit allows
   const anchoredDates = new Map<string, number[]>();
   for (const row of processedRows) {
     if (row.anchoredDate && !row.error) {
@@ -169,13 +221,17 @@ export function assignDatesWithAnchors(
   }
 
   for (const [date, rowIndices] of anchoredDates) {
-    if (rowIndices.length > 1) {
+    if (rowIndices.length > maxPostsPerDay) {
       const rowList = rowIndices.join(' and ');
-      blockingErrors.push(`Duplicate date in CSV: ${date} is used on rows ${rowList}`);
+      blockingErrors.push(
+        maxPostsPerDay === 1
+          ? `Duplicate date in CSV: ${date} is used on rows ${rowList}`
+          : `Too many rows for ${date}: rows ${rowList} exceed the limit of ${maxPostsPerDay} posts per day`
+      );
       suggestions.push(`Remove duplicate dates or change one of them`);
 
-      // Mark all but first as errors
-      for (let i = 1; i < rowIndices.length; i++) {
+      // Mark rows beyond the daily limit as errors
+      for (let i = maxPostsPerDay; i < rowIndices.length; i++) {
         const row = processedRows.find(r => r.rowIndex === rowIndices[i]);
         if (row) {
           row.error = `Duplicate anchor date ${date} (also on row ${rowIndices[0]})`;
@@ -190,7 +246,8 @@ export function assignDatesWithAnchors(
     }
   }
 
-  // Step 3: Check anchored dates are within range and not occupied
+  // Step 3: Check anchored dates are within range and have room left
+  const anchorUsage = new Map<string, number>();
   for (const row of processedRows) {
     if (row.anchoredDate && !row.error) {
       // Check if in range
@@ -207,10 +264,32 @@ export function assignDatesWithAnchors(
         continue;
       }
 
-      // Check if date is already occupied
-      const occupiedPlatforms = getOccupiedPlatforms(row.anchoredDate, occupiedDates);
-      if (occupiedPlatforms.length > 0) {
-        const platformList = occupiedPlatforms.join(' and ');
+      // Check the business is open and posting that day
+      const blackoutReason = blackoutDates.get(row.anchoredDate);
+      if (blackoutReason) {
+        row.error = `${row.anchoredDate} is unavailable (${blackoutReason})`;
+        blockingErrors.push(`Row ${row.rowIndex}: ${row.anchoredDate} is unavailable (${blackoutReason})`);
+        suggestions.push(`Pick a different date for row ${row.rowIndex}, or remove the blackout in Settings`);
+        issues.push({
+          rowIndex: row.rowIndex,
+          problem: `${row.anchoredDate} is a blackout date (${blackoutReason})`,
+          suggestedFix: `Choose a date the business is open, or clear the date to auto-assign`,
+          isBlocking: true,
+        });
+        continue;
+      }
+
+      // Check if date still has room after existing posts and earlier anchors
+      const usage = anchorUsage.get(row.anchoredDate) || 0;
+      anchorUsage.set(row.anchoredDate, usage + 1);
+      if (usage >= getRemainingCapacity(row.anchoredDate, occupiedDates, maxPostsPerDay, platforms)) {
+        const occupiedPlatforms = getOccupiedPlatforms(
+          row.anchoredDate,
+          occupiedDates,
+          maxPostsPerDay,
+          platforms
+        );
+        const platformList = occupiedPlatforms.length > 0 ? occupiedPlatforms.join(' and ') : 'the maximum number of';
         row.error = `${row.anchoredDate} already has ${platformList} post(s)`;
         blockingErrors.push(`Row ${row.rowIndex}: ${row.anchoredDate} already has ${platformList} post(s)`);
         suggestions.push(`Pick a different date for row ${row.rowIndex} because ${row.anchoredDate} already has a post`);
@@ -224,25 +303,40 @@ export function assignDatesWithAnchors(
     }
   }
 
-  // Step 4: Calculate available dates (in range, both platforms unoccupied)
-  const availableDates = rangeDates.filter((d) => isDateAvailable(d, occupiedDates));
+  // Step 4: Calculate available dates (in range, open, all platforms below the limit)
+  const capacityByDate = new Map<string, number>();
+  for (const date of rangeDates) {
+    capacityByDate.set(
+      date,
+      blackoutDates.has(date) ? 0 : getRemainingCapacity(date, occupiedDates, maxPostsPerDay, platforms)
+    );
+  }
+  const availableDates = rangeDates.filter((d) => capacityByDate.get(d)! > 0);
 
   // Step 5: Check capacity
   const rowsNeedingDates = processedRows.filter(r => !r.error).length;
   const anchoredRowCount = processedRows.filter(r => r.anchoredDate && !r.error).length;
   const rowsNeedingAutoAssign = rowsNeedingDates - anchoredRowCount;
 
-  // Available dates minus anchored dates
-  const anchoredDatesSet = new Set(
-    processedRows.filter(r => r.anchoredDate && !r.error).map(r => r.anchoredDate!)
+  // Count assigned posts per date, starting with the anchored rows
+  const usedCounts = new Map<string, number>();
+  for (const row of processedRows) {
+    if (row.anchoredDate && !row.error) {
+      usedCounts.set(row.anchoredDate, (usedCounts.get(row.anchoredDate) || 0) + 1);
+    }
+  }
+
+  // Open slots on available dates after anchored rows take theirs
+  const slotsForAutoAssign = availableDates.reduce(
+    (total, d) => total + Math.max(0, capacityByDate.get(d)! - (usedCounts.get(d) || 0)),
+    0
   );
-  const availableForAutoAssign = availableDates.filter(d => !anchoredDatesSet.has(d));
 
-  if (rowsNeedingAutoAssign > availableForAutoAssign.length) {
-    const shortage = rowsNeedingAutoAssign - availableForAutoAssign.length;
-    const neededDays = rangeDates.length + shortage;
+  if (rowsNeedingAutoAssign > slotsForAutoAssign) {
+    const shortage = rowsNeedingAutoAssign - slotsForAutoAssign;
+    const neededDays = rangeDates.length + Math.ceil(shortage / maxPostsPerDay);
     blockingErrors.push(
-      `Not enough available dates: need ${rowsNeedingAutoAssign} dates for auto-assignment, but only ${availableForAutoAssign.length} available`
+      `Not enough available dates: need ${rowsNeedingAutoAssign} slots for auto-assignment, but only ${slotsForAutoAssign} available`
     );
     suggestions.push(`Increase the selected date range to at least ${neededDays} days`);
   }
@@ -267,16 +361,12 @@ export function assignDatesWithAnchors(
   }
 
   // Step 6: Assign dates in row order
-  const usedDates = new Set<string>();
   const scheduledRows: CSVRow[] = [];
   const unscheduledRows: CSVRow[] = [];
 
-  // Mark anchored dates as used
-  for (const row of processedRows) {
-    if (row.anchoredDate && !row.error) {
-      usedDates.add(row.anchoredDate);
-    }
-  }
+  // Posts already on a date, existing or assigned (drives spreading)
+  const getLoad = (date: string) =>
+    maxPostsPerDay - capacityByDate.get(date)! + (usedCounts.get(date) || 0);
 
   for (let i = 0; i < processedRows.length; i++) {
     const row = processedRows[i];
@@ -304,28 +394,30 @@ export function assignDatesWithAnchors(
       }
     }
 
-    // Find earliest available date that satisfies constraints
+    // Find the earliest date with the lowest load that satisfies constraints
     let assignedDate: string | null = null;
 
-    for (const date of availableDates) {
-      // Skip if already used (by anchor or previous auto-assign)
-      if (usedDates.has(date)) {
-        continue;
-      }
+    for (let load = 0; load < maxPostsPerDay && !assignedDate; load++) {
+      for (const date of availableDates) {
+        // Skip if full (by anchors or previous auto-assigns) or busier than this pass allows
+        if ((usedCounts.get(date) || 0) >= capacityByDate.get(date)! || getLoad(date) !== load) {
+          continue;
+        }
 
-      // If there's a next anchor, date must be strictly before it
-      if (nextAnchorDate && date >= nextAnchorDate) {
-        continue;
-      }
+        // If there's a next anchor, date must be strictly before it
+        if (nextAnchorDate && date >= nextAnchorDate) {
+          continue;
+        }
 
-      // This date works
-      assignedDate = date;
-      break;
+        // This date works
+        assignedDate = date;
+        break;
+      }
     }
 
     if (assignedDate) {
       row.finalDate = assignedDate;
-      usedDates.add(assignedDate);
+      usedCounts.set(assignedDate, (usedCounts.get(assignedDate) || 0) + 1);
       scheduledRows.push(row);
     } else {
       const reason = nextAnchorDate
@@ -1,11 +1,18 @@
 /**
- * Export utilities for generating Buffer-compatible CSV files
+ * Export utilities: validating posts for export, writing CSV and building the
+ * ZIP bundle. Each scheduling tool's CSV layout lives in exporters.ts.
  */
 
-import type { Post } from '@/types';
-import { buildFullCaption } from './aiGeneration';
+import JSZip from 'jszip';
+import type { PlatformId, Post } from '@/types';
+import { buildFullCaption } from './generatedCaptions';
+import { hasLintErrors, lintCaption, type LintOptions } from './captionLint';
+import type { ExporterFile } from './exporters';
+import { getPlatform } from './platforms';
+import { DEFAULT_TIMEZONE, convertDateTime } from './timezone';
 
 export interface ExportPost {
+  postId: string;
   text: string;
   mediaUrl: string;
   scheduledDate: string;
@@ -18,21 +25,34 @@ export interface ExportValidation {
     missingCaption: Post[];
     missingImage: Post[];
     missingTime: Post[];
+    lintErrors: Post[]; // Captions breaking a platform or brand rule (see captionLint)
   };
+  flagged: Post[]; // Exported, but with caption lint warnings
+}
+
+export interface ExportTimezoneOptions {
+  timezone: string; // Timezone the posts are scheduled in (the workspace timezone)
+  targetTimezone?: string; // Timezone to write dates and times in, if different
 }
 
 /**
- * Prepare posts for export, separating valid posts from those with warnings
+ * Prepare posts for export, separating valid posts from those with warnings.
+ * Captions with lint errors are held back; lint warnings only flag the post.
+ * Dates and times are converted to the target timezone when one is given.
  */
 export function prepareExport(
   posts: Post[],
-  platform: 'facebook' | 'instagram'
+  platform: PlatformId,
+  { timezone, targetTimezone = timezone }: ExportTimezoneOptions = { timezone: DEFAULT_TIMEZONE },
+  lintOptions: LintOptions = {}
 ): ExportValidation {
   const valid: ExportPost[] = [];
+  const flagged: Post[] = [];
   const warnings = {
     missingCaption: [] as Post[],
     missingImage: [] as Post[],
     missingTime: [] as Post[],
+    lintErrors: [] as Post[],
   };
 
   for (const post of posts) {
@@ -43,7 +63,7 @@ export function prepareExport(
       warnings.missingCaption.push(post);
       continue;
     }
-    if (!post.imageUrl) {
+    if (!post.imageUrl && getPlatform(platform).requiresImage) {
       warnings.missingImage.push(post);
       continue;
     }
@@ -52,21 +72,45 @@ export function prepareExport(
       continue;
     }
 
+    const findings = lintCaption(platform, platformData, lintOptions);
+    if (hasLintErrors(findings)) {
+      warnings.lintErrors.push(post);
+      continue;
+    }
+    if (findings.length > 0) {
+      flagged.push(post);
+    }
+
     // Build full caption with hashtags
     const fullCaption = buildFullCaption(
       platformData.caption,
       platformData.hashtags || []
     );
 
+    const scheduled = convertDateTime(
+      post.date,
+      platformData.scheduledTime,
+      timezone,
+      targetTimezone
+    );
+
     valid.push({
+      postId: post.id,
       text: fullCaption,
-      mediaUrl: post.imageUrl,
-      scheduledDate: post.date,
-      scheduledTime: platformData.scheduledTime,
+      mediaUrl: post.imageUrl || '',
+      scheduledDate: scheduled.date,
+      scheduledTime: scheduled.time,
     });
   }
 
-  return { valid, warnings };
+  // Order by date, then time (a date can hold several posts)
+  valid.sort(
+    (a, b) =>
+      a.scheduledDate.localeCompare(b.scheduledDate) ||
+      a.scheduledTime.localeCompare(b.scheduledTime)
+  );
+
+  return { valid, warnings, flagged };
 }
 
 /**
@@ -74,34 +118,23 @@ export function prepareExport(
  */
 function escapeCSV(value: string): string {
   // If value contains quotes, commas, or newlines, wrap in quotes
-  if (value.includes('"') || value.includes(',') || value.includes('\n')) {
+  if (/["\r\n,]/.test(value)) {
     return `"${value.replace(/"/g, '""')}"`;
   }
   return value;
 }
 
 /**
- * Generate a Buffer-compatible CSV string
+ * Generate a CSV string from rows of values
  */
-export function generateCSV(posts: ExportPost[]): string {
-  const header = 'Text,Media URL,Scheduled Date,Scheduled Time';
-  const rows = posts.map((post) => {
-    return [
-      escapeCSV(post.text),
-      escapeCSV(post.mediaUrl),
-      post.scheduledDate,
-      post.scheduledTime,
-    ].join(',');
-  });
-
-  return [header, ...rows].join('\n');
+export function formatCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCSV).join(',')).join('\n');
 }
 
 /**
- * Download a CSV file
+ * Save a file in the browser
  */
-export function downloadCSV(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -113,21 +146,144 @@ export function downloadCSV(content: string, filename: string): void {
 }
 
 /**
- * Generate and download a ZIP file with multiple CSVs
- * Uses JSZip-like manual approach (simple implementation)
+ * Download a CSV file
+ */
+export function downloadCSV(content: string, filename: string): void {
+  downloadBlob(new Blob([content], { type: 'text/csv;charset=utf-8;' }), filename);
+}
+
+export interface ZipPlatformExport {
+  platform: PlatformId;
+  file: ExporterFile;
+  validation: ExportValidation;
+}
+
+export interface ZipExportOptions {
+  exporter: string; // Scheduling tool label
+  dateRange: string;
+  timezone: string; // Workspace timezone
+  targetTimezone: string; // Timezone the CSVs are written in
+  includeImages: boolean;
+  onProgress?: (done: number, total: number) => void; // Image downloads
+}
+
+// Extensions for image types Storage commonly serves
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+/**
+ * Build a ZIP with each platform's CSV, a manifest.json describing the export
+ * and, optionally, the post images named by scheduled date, time and platform
+ * (e.g. images/2025-03-14_1130_instagram.jpg). Images that fail to download
+ * are listed in the manifest instead of failing the export.
  */
-export async function downloadZIP(
-  files: Array<{ name: string; content: string }>,
-  zipFilename: string
-): Promise<void> {
-  // For simplicity, we'll create individual downloads instead of actual ZIP
-  // In production, you'd use a library like JSZip
-  // For now, we download them sequentially
-  for (const file of files) {
-    downloadCSV(file.content, file.name);
-    // Small delay between downloads
-    await new Promise((resolve) => setTimeout(resolve, 500));
+export async function buildExportZip(
+  exports: ZipPlatformExport[],
+  { exporter, dateRange, timezone, targetTimezone, includeImages, onProgress }: ZipExportOptions
+): Promise<Blob> {
+  const zip = new JSZip();
+  for (const { file } of exports) {
+    zip.file(file.filename, file.content);
+  }
+
+  const images: Array<{
+    file: string;
+    platform: PlatformId;
+    scheduledDate: string;
+    scheduledTime: string;
+    sourceUrl: string;
+  }> = [];
+  const imageErrors: Array<{ sourceUrl: string; error: string }> = [];
+
+  if (includeImages) {
+    // Each image is fetched once, however many platforms use it
+    const downloads = new Map<string, Promise<Blob>>();
+    const fetchImage = (url: string) => {
+      if (!downloads.has(url)) {
+        downloads.set(
+          url,
+          fetch(url).then((response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            return response.blob();
+          })
+        );
+      }
+      return downloads.get(url)!;
+    };
+
+    const entries = exports.flatMap(({ platform, file }) =>
+      file.rows
+        .filter((post) => post.mediaUrl)
+        .map((post) => ({ platform, post }))
+    );
+    const failedUrls = new Set<string>();
+
+    let done = 0;
+    for (const { platform, post } of entries) {
+      try {
+        const blob = await fetchImage(post.mediaUrl);
+        const extension = IMAGE_EXTENSIONS[blob.type] || 'jpg';
+        const name = `${post.scheduledDate}_${post.scheduledTime.replace(':', '')}_${platform}`;
+        // Posts sharing a platform, date and time get a numbered suffix
+        let file = `images/${name}.${extension}`;
+        for (let n = 2; zip.file(file); n++) {
+          file = `images/${name}-${n}.${extension}`;
+        }
+        zip.file(file, blob);
+        images.push({
+          file,
+          platform,
+          scheduledDate: post.scheduledDate,
+          scheduledTime: post.scheduledTime,
+          sourceUrl: post.mediaUrl,
+        });
+      } catch (error) {
+        if (!failedUrls.has(post.mediaUrl)) {
+          failedUrls.add(post.mediaUrl);
+          imageErrors.push({
+            sourceUrl: post.mediaUrl,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      onProgress?.(++done, entries.length);
+    }
   }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    exporter,
+    dateRange,
+    timezone,
+    exportTimezone: targetTimezone,
+    platforms: exports.map(({ platform, file, validation }) => ({
+      platform,
+      label: getPlatform(platform).label,
+      file: file.filename,
+      posts: file.rows.length,
+      flagged: validation.flagged.length,
+      skipped: {
+        missingCaption: validation.warnings.missingCaption.length,
+        missingImage: validation.warnings.missingImage.length,
+        missingTime: validation.warnings.missingTime.length,
+        lintErrors: validation.warnings.lintErrors.length,
+      },
+      rejected: file.rejected.map(({ post, reason }) => ({
+        scheduledDate: post.scheduledDate,
+        scheduledTime: post.scheduledTime,
+        reason,
+      })),
+    })),
+    ...(includeImages && { images, imageErrors }),
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
 }
 
 /**
@@ -151,12 +307,9 @@ export function getDateRange(posts: Post[]): string {
 }
 
 /**
- * Format filename with date
+ * Format the ZIP bundle filename with date
  */
-export function formatExportFilename(
-  platform: 'facebook' | 'instagram',
-  dateRange: string
-): string {
+export function formatZipFilename(dateRange: string): string {
   const cleanDateRange = dateRange.replace(/[^a-zA-Z0-9-]/g, '_');
-  return `${platform}_posts_${cleanDateRange}.csv`;
+  return `social_posts_${cleanDateRange}.zip`;
 }
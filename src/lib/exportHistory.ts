@@ -0,0 +1,133 @@
+/**
+ * Export history helpers
+ *
+ * Each export is recorded as a batch pointing at the files that were
+ * downloaded (kept in Storage) and a content hash per post. Comparing those hashes with the posts as they
+ * are now shows what changed after it went to the scheduling tool.
+ */
+
+import JSZip from 'jszip';
+import type {
+  ExportBatch,
+  ExportBatchFile,
+  ExportedPostSnapshot,
+  PlatformId,
+  Post,
+} from '@/types';
+import { downloadBlob, downloadCSV, formatZipFilename, type ExportPost } from './export';
+
+export type ExportChange = 'edited' | 'deleted';
+
+export interface ChangedExportPost {
+  postId: string;
+  date: string; // Date when exported
+  change: ExportChange;
+}
+
+/**
+ * Short, stable hash of a string (FNV-1a, 32-bit hex). Used to spot changes,
+ * not for security.
+ */
+export function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Hash of what an export writes for a post: its date, image and each
+ * platform's caption, hashtags and time
+ */
+export function hashPostContent(post: Post, platforms: PlatformId[]): string {
+  const content = platforms.map((platform) => {
+    const block = post[platform];
+    return [
+      platform,
+      block?.caption ?? '',
+      (block?.hashtags ?? []).join(' '),
+      block?.scheduledTime ?? '',
+    ];
+  });
+  return hashContent(JSON.stringify([post.date, post.imageUrl ?? '', content]));
+}
+
+/**
+ * Snapshot the posts behind exported rows, keyed by post ID
+ */
+export function snapshotExportedPosts(
+  posts: Post[],
+  files: Array<{ platform: PlatformId; rows: ExportPost[] }>
+): Record<string, ExportedPostSnapshot> {
+  const platformsByPost = new Map<string, PlatformId[]>();
+  for (const file of files) {
+    for (const row of file.rows) {
+      platformsByPost.set(row.postId, [...(platformsByPost.get(row.postId) ?? []), file.platform]);
+    }
+  }
+
+  const snapshots: Record<string, ExportedPostSnapshot> = {};
+  for (const post of posts) {
+    const platforms = platformsByPost.get(post.id);
+    if (!platforms) continue;
+    snapshots[post.id] = {
+      date: post.date,
+      platforms,
+      contentHash: hashPostContent(post, platforms),
+    };
+  }
+  return snapshots;
+}
+
+/**
+ * Hash of a batch's files, in filename order
+ */
+export function hashExportFiles(files: ExportBatchFile[]): string {
+  return hashContent(
+    [...files]
+      .sort((a, b) => a.filename.localeCompare(b.filename))
+      .map((file) => `${file.filename}\n${file.content}`)
+      .join('\n')
+  );
+}
+
+/**
+ * Posts in a batch that were edited or deleted after it was exported, by date
+ */
+export function getChangedExportPosts(batch: ExportBatch, posts: Post[]): ChangedExportPost[] {
+  const postsById = new Map(posts.map((post) => [post.id, post]));
+  const changed: ChangedExportPost[] = [];
+
+  for (const [postId, snapshot] of Object.entries(batch.posts)) {
+    const post = postsById.get(postId);
+    if (!post) {
+      changed.push({ postId, date: snapshot.date, change: 'deleted' });
+    } else if (hashPostContent(post, snapshot.platforms) !== snapshot.contentHash) {
+      changed.push({ postId, date: snapshot.date, change: 'edited' });
+    }
+  }
+
+  return changed.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Download a batch's files again exactly as they were exported (loaded with
+ * getExportBatchFiles): one CSV on its own, several as a ZIP
+ */
+export async function downloadExportBatch(
+  batch: ExportBatch,
+  files: ExportBatchFile[]
+): Promise<void> {
+  if (files.length === 1) {
+    downloadCSV(files[0].content, files[0].filename);
+    return;
+  }
+
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file.filename, file.content);
+  }
+  downloadBlob(await zip.generateAsync({ type: 'blob' }), formatZipFilename(batch.dateRange));
+}
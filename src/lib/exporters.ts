@@ -0,0 +1,270 @@
+/**
+ * Scheduling tool exporters
+ *
+ * Each scheduling tool's bulk upload wants its own CSV: different columns,
+ * date formats, timezone conventions and upload rules. An exporter turns the
+ * rows from `prepareExport` into one tool's file, moving rows the tool would
+ * reject (past times, duplicates, row caps) into `rejected` with a reason.
+ * Buffer uses each platform's `exportColumns` from the registry.
+ */
+
+import type { ExporterId, PlatformId } from '@/types';
+import { formatCSV, type ExportPost } from './export';
+import { PLATFORM_IDS, getPlatform } from './platforms';
+import { getTimezoneOffsetMinutes, zonedTimeToUtc } from './timezone';
+
+export interface ExportContext {
+  timezone: string; // Timezone the rows' dates and times are written in
+  now: Date;
+}
+
+export interface ExporterColumn {
+  header: string;
+  value: (post: ExportPost, context: ExportContext) => string;
+}
+
+export interface ExportRejection {
+  post: ExportPost;
+  reason: string;
+}
+
+export interface Exporter {
+  id: ExporterId;
+  label: string;
+  description: string;
+  platforms: PlatformId[]; // Networks the tool can schedule to
+  timezoneNote: string; // Which timezone the tool reads the times in
+  includeHeader: boolean;
+  maxRows?: number; // Posts accepted per upload
+  uniqueText?: boolean; // Uploads refuse repeated captions
+  columns: (platform: PlatformId) => ExporterColumn[];
+  // Reason the tool would reject a row, if any
+  validate?: (post: ExportPost, context: ExportContext) => string | null;
+  filename: (platform: PlatformId, dateRange: string) => string;
+}
+
+export interface ExporterFile {
+  filename: string;
+  content: string;
+  rows: ExportPost[];
+  rejected: ExportRejection[];
+}
+
+// MM/DD/YYYY from YYYY-MM-DD
+function toUSDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+// h:mm AM/PM from HH:MM
+function to12HourTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+// ISO 8601 with the timezone's offset, e.g. 2025-03-14T11:30:00-06:00
+function toOffsetDateTime(date: string, time: string, timezone: string): string {
+  const offset = getTimezoneOffsetMinutes(zonedTimeToUtc(date, time, timezone), timezone);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${date}T${time}:00${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Reject rows scheduled too soon (or too far ahead) for the tool to accept
+ */
+function checkLeadTime(
+  post: ExportPost,
+  { timezone, now }: ExportContext,
+  minMinutes: number,
+  maxDays?: number
+): string | null {
+  const scheduled = zonedTimeToUtc(post.scheduledDate, post.scheduledTime, timezone);
+  const minutesAhead = (scheduled.getTime() - now.getTime()) / 60000;
+  if (minutesAhead <= 0) {
+    return 'Scheduled time has already passed';
+  }
+  if (minutesAhead < minMinutes) {
+    return `Must be scheduled at least ${minMinutes} minutes ahead`;
+  }
+  if (maxDays !== undefined && minutesAhead > maxDays * 24 * 60) {
+    return `Can't be scheduled more than ${maxDays} days ahead`;
+  }
+  return null;
+}
+
+function cleanDateRange(dateRange: string): string {
+  return dateRange.replace(/[^a-zA-Z0-9-]/g, '_');
+}
+
+export const EXPORTERS: Record<ExporterId, Exporter> = {
+  buffer: {
+    id: 'buffer',
+    label: 'Buffer',
+    description: 'One CSV per channel for the Buffer bulk upload',
+    platforms: PLATFORM_IDS,
+    timezoneNote: 'Buffer reads times in the posting timezone of each channel.',
+    includeHeader: true,
+    columns: (platform) =>
+      getPlatform(platform).exportColumns.map((column) => ({
+        header: column.header,
+        value: (post) => post[column.field],
+      })),
+    filename: (platform, dateRange) => `${platform}_posts_${cleanDateRange(dateRange)}.csv`,
+  },
+  hootsuite: {
+    id: 'hootsuite',
+    label: 'Hootsuite',
+    description: 'Bulk Composer CSV (choose the MM/DD/YYYY date format when uploading)',
+    platforms: ['facebook', 'instagram', 'linkedin', 'threads', 'googleBusiness'],
+    timezoneNote: 'Hootsuite reads times in the timezone set in your Hootsuite account.',
+    includeHeader: false,
+    maxRows: 350,
+    uniqueText: true,
+    columns: () => [
+      {
+        header: 'Date',
+        value: (post) => `${toUSDate(post.scheduledDate)} ${post.scheduledTime}`,
+      },
+      { header: 'Message', value: (post) => post.text },
+      { header: 'Link', value: (post) => post.mediaUrl },
+    ],
+    validate: (post, context) => {
+      // Bulk Composer only schedules on five-minute marks
+      if (Number(post.scheduledTime.split(':')[1]) % 5 !== 0) {
+        return 'Time must be a multiple of 5 minutes';
+      }
+      return checkLeadTime(post, context, 10);
+    },
+    filename: (platform, dateRange) =>
+      `hootsuite_bulk_${platform}_${cleanDateRange(dateRange)}.csv`,
+  },
+  later: {
+    id: 'later',
+    label: 'Later',
+    description: 'CSV import with timestamps that carry their UTC offset',
+    platforms: ['facebook', 'instagram', 'linkedin', 'threads'],
+    timezoneNote:
+      'Times include their UTC offset, so Later schedules them at the same moment in any timezone.',
+    includeHeader: true,
+    columns: () => [
+      {
+        header: 'Scheduled At',
+        value: (post, { timezone }) =>
+          toOffsetDateTime(post.scheduledDate, post.scheduledTime, timezone),
+      },
+      { header: 'Caption', value: (post) => post.text },
+      { header: 'Media URL', value: (post) => post.mediaUrl },
+    ],
+    validate: (post, context) => checkLeadTime(post, context, 5),
+    filename: (platform, dateRange) => `later_${platform}_${cleanDateRange(dateRange)}.csv`,
+  },
+  sproutSocial: {
+    id: 'sproutSocial',
+    label: 'Sprout Social',
+    description: 'Bulk Scheduling CSV, one file per profile',
+    platforms: ['facebook', 'instagram', 'linkedin', 'threads', 'googleBusiness'],
+    timezoneNote: 'Sprout Social reads times in the timezone set in your Sprout settings.',
+    includeHeader: true,
+    maxRows: 350,
+    uniqueText: true,
+    columns: () => [
+      { header: 'Date', value: (post) => toUSDate(post.scheduledDate) },
+      { header: 'Time', value: (post) => to12HourTime(post.scheduledTime) },
+      { header: 'Message', value: (post) => post.text },
+      { header: 'Image URL', value: (post) => post.mediaUrl },
+    ],
+    validate: (post, context) => checkLeadTime(post, context, 0),
+    filename: (platform, dateRange) =>
+      `sprout_bulk_${platform}_${cleanDateRange(dateRange)}.csv`,
+  },
+  metaBusinessSuite: {
+    id: 'metaBusinessSuite',
+    label: 'Meta Business Suite',
+    description: 'Bulk upload CSV for Facebook Pages and Instagram accounts',
+    platforms: ['facebook', 'instagram'],
+    timezoneNote: 'Business Suite reads times in the timezone of your Page.',
+    includeHeader: true,
+    maxRows: 1500,
+    columns: () => [
+      { header: 'Description', value: (post) => post.text },
+      { header: 'Media URL', value: (post) => post.mediaUrl },
+      {
+        header: 'Scheduled Time',
+        value: (post) => `${post.scheduledDate} ${post.scheduledTime}`,
+      },
+    ],
+    // Business Suite schedules 10 minutes to 29 days ahead
+    validate: (post, context) => checkLeadTime(post, context, 10, 29),
+    filename: (platform, dateRange) =>
+      `meta_business_suite_${platform}_${cleanDateRange(dateRange)}.csv`,
+  },
+};
+
+export const EXPORTER_IDS: ExporterId[] = [
+  'buffer',
+  'hootsuite',
+  'later',
+  'sproutSocial',
+  'metaBusinessSuite',
+];
+
+export const DEFAULT_EXPORTER: ExporterId = 'buffer';
+
+export function getExporter(id: ExporterId): Exporter {
+  return EXPORTERS[id];
+}
+
+export function isExporterId(value: unknown): value is ExporterId {
+  return typeof value === 'string' && (EXPORTER_IDS as string[]).includes(value);
+}
+
+/**
+ * Build one platform's file for a scheduling tool from prepared rows.
+ * Rows the tool would reject, repeated captions (which bulk uploaders refuse)
+ * and rows past the tool's per-upload cap are returned in `rejected`.
+ */
+export function buildExporterFile(
+  exporterId: ExporterId,
+  platform: PlatformId,
+  posts: ExportPost[],
+  dateRange: string,
+  { timezone, now = new Date() }: { timezone: string; now?: Date }
+): ExporterFile {
+  const exporter = getExporter(exporterId);
+  const context: ExportContext = { timezone, now };
+  const rows: ExportPost[] = [];
+  const rejected: ExportRejection[] = [];
+  const seenText = new Set<string>();
+
+  for (const post of posts) {
+    const reason = exporter.validate?.(post, context);
+    if (reason) {
+      rejected.push({ post, reason });
+    } else if (exporter.uniqueText && seenText.has(post.text)) {
+      rejected.push({ post, reason: `${exporter.label} rejects duplicate captions` });
+    } else if (exporter.maxRows !== undefined && rows.length >= exporter.maxRows) {
+      rejected.push({
+        post,
+        reason: `Over ${exporter.label}'s ${exporter.maxRows}-post limit per upload`,
+      });
+    } else {
+      seenText.add(post.text);
+      rows.push(post);
+    }
+  }
+
+  const columns = exporter.columns(platform);
+  const table = rows.map((post) => columns.map((column) => column.value(post, context)));
+
+  return {
+    filename: exporter.filename(platform, dateRange),
+    content: formatCSV(
+      exporter.includeHeader ? [columns.map((column) => column.header), ...table] : table
+    ),
+    rows,
+    rejected,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Firebase Admin SDK (server-side only)
+ *
+ * Used by API routes that act on a workspace outside the browser, such as bulk
+ * generation jobs. Credentials come from FIREBASE_SERVICE_ACCOUNT (the service
+ * account key JSON), or Application Default Credentials when it is unset
+ * (e.g. when deployed on Google Cloud).
+ */
+
+import { applicationDefault, cert, getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth, type DecodedIdToken } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) {
+    return existing;
+  }
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+/**
+ * Gets the Admin Firestore instance (bypasses security rules)
+ */
+export function getAdminDb(): Firestore {
+  return getFirestore(getAdminApp());
+}
+
+/**
+ * Verify the Firebase ID token in a request's `Authorization: Bearer` header.
+ * Returns the decoded token, or null when it is missing or invalid.
+ */
+export async function verifyRequestUser(request: Request): Promise<DecodedIdToken | null> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return await getAuth(getAdminApp()).verifyIdToken(match[1]);
+  } catch (error) {
+    console.error('Invalid ID token:', error);
+    return null;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Generated caption helpers
+ *
+ * Pure helpers for caption text and the post updates written after
+ * generation, shared by client pages and server code (generation jobs, the
+ * calendar feed), so no Firebase SDK is imported here. Timestamps are passed
+ * in by the caller (client or admin SDK).
+ */
+
+import { PLATFORM_IDS, getPlatform, isPlatformId } from '@/lib/platforms';
+import type { GenerationResult } from '@/lib/aiGeneration';
+import type { PlatformId, PlatformPosts, Post } from '@/types';
+
+export type GeneratedPostUpdate<TTimestamp> = PlatformPosts & {
+  status: 'generated';
+  aiMeta: Omit<NonNullable<Post['aiMeta']>, 'generatedAt'> & { generatedAt: TTimestamp };
+  generationError: null;
+};
+
+/**
+ * Platform blocks for freshly generated captions. Existing scheduled times and
+ * their source are kept; platforms without a time get the default. When
+ * several variants were generated the first is used and all are kept;
+ * otherwise earlier variants stay available.
+ */
+export function buildGeneratedPlatforms(
+  post: PlatformPosts,
+  result: Pick<GenerationResult, 'captions' | 'variants'>
+): PlatformPosts {
+  const platforms: PlatformPosts = {};
+
+  for (const [platform, generated] of Object.entries(result.captions)) {
+    if (!isPlatformId(platform) || !generated) continue;
+    const existing = post[platform];
+    const variants = result.variants[platform] || [];
+    platforms[platform] = {
+      caption: generated.caption,
+      hashtags: generated.hashtags,
+      scheduledTime: existing?.scheduledTime || getPlatform(platform).defaultTime,
+      timeSource: existing?.timeSource || 'ai',
+      // A single-variant run keeps the options from the last multi-variant one
+      ...(variants.length > 1
+        ? { variants }
+        : existing?.variants && { variants: existing.variants }),
+    };
+  }
+
+  return platforms;
+}
+
+/**
+ * Build the post update for freshly generated captions (see
+ * buildGeneratedPlatforms). Any earlier generation failure is cleared.
+ */
+export function buildGeneratedPostUpdate<TTimestamp>(
+  post: PlatformPosts,
+  result: GenerationResult,
+  generatedAt: TTimestamp
+): GeneratedPostUpdate<TTimestamp> {
+  return {
+    ...buildGeneratedPlatforms(post, result),
+    status: 'generated',
+    aiMeta: {
+      ...(result.provider && { provider: result.provider }),
+      model: result.model,
+      generatedAt,
+      confidence: result.confidence,
+      ...(result.usage && { usage: result.usage }),
+      ...(result.cost !== undefined && { cost: result.cost }),
+    },
+    generationError: null,
+  };
+}
+
+/**
+ * Build the post update for regenerating a single platform's caption. A
+ * hand-edited post stays 'edited' while other platforms keep their captions,
+ * so Generate All still skips it.
+ */
+export function buildPlatformRegenerateUpdate<TTimestamp>(
+  post: PlatformPosts & Pick<Post, 'status'>,
+  platform: PlatformId,
+  result: GenerationResult,
+  generatedAt: TTimestamp
+): Omit<GeneratedPostUpdate<TTimestamp>, 'status'> & { status: 'generated' | 'edited' } {
+  const update = buildGeneratedPostUpdate(post, result, generatedAt);
+  const otherPlatformsEdited =
+    post.status === 'edited' &&
+    PLATFORM_IDS.some((other) => other !== platform && post[other]);
+  return otherPlatformsEdited ? { ...update, status: 'edited' } : update;
+}
+
+/**
+ * Build the full caption with hashtags
+ */
+export function buildFullCaption(caption: string, hashtags: string[]): string {
+  if (hashtags.length === 0) return caption;
+  return `${caption}\n\n${hashtags.join(' ')}`;
+}
+
+/**
+ * Parse hashtags from a caption string
+ */
+export function parseHashtags(text: string): string[] {
+  const matches = text.match(/#\w+/g);
+  return matches || [];
+}
+
+/**
+ * Remove hashtags from a caption string
+ */
+export function removeHashtags(text: string): string {
+  return text
+    .replace(/#\w+/g, '')
+    .replace(/\n\n\s*$/g, '')
+    .trim();
+}
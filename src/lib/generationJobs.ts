@@ -0,0 +1,443 @@
+/**
+ * Bulk caption generation jobs (server-side only)
+ *
+ * A job generates captions for a list of posts in the background, a few at a
+ * time. Each item is retried with exponential backoff when the AI provider is
+ * rate limited (429) or failing (5xx). Progress is written to the job document
+ * at workspaces/{id}/generationJobs/{jobId}, which the UI subscribes to, so a
+ * run survives the tab being closed. Failed items can be resumed later.
+ *
+ * A run works in chunks that fit a serverless invocation: after CHUNK_TIME_MS
+ * it stops taking new items and, once those in flight finish, calls the
+ * continue route with a one-time token stored on the job to start the next.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { FieldValue, Timestamp, type DocumentReference } from 'firebase-admin/firestore';
+import {
+  validateGenerateRequest,
+  type GenerateOutcome,
+  type GenerateRequest,
+} from '@/lib/captionGeneration';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import { buildGeneratedPostUpdate } from '@/lib/generatedCaptions';
+import { generateForWorkspace, reserveRequest } from '@/lib/generationUsage';
+import { getObservanceNames } from '@/lib/observances';
+import { DEFAULT_ENABLED_PLATFORMS, PLATFORM_IDS, isPlatformId } from '@/lib/platforms';
+import type {
+  GenerationJob,
+  GenerationJobItem,
+  PlatformId,
+  Post,
+  WorkspaceSettings,
+} from '@/types';
+
+// Posts generated at the same time
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_JOB_POSTS = 500;
+
+// Routes that run jobs allow 300s (maxDuration). A chunk takes new items for
+// CHUNK_TIME_MS and makes no new attempts after CHUNK_DEADLINE_MS, which leaves
+// time for the last provider calls and the hand-off to the next chunk.
+const CHUNK_TIME_MS = 180 * 1000;
+const CHUNK_DEADLINE_MS = 240 * 1000;
+
+// A running job untouched for this long is assumed abandoned (e.g. the server restarted)
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+export type JobResult =
+  | { ok: true; jobId: string }
+  | { ok: false; status: number; error: string };
+
+function getJobsCollection(workspaceId: string) {
+  return getAdminDb().collection('workspaces').doc(workspaceId).collection('generationJobs');
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a job for the given posts. Posts without starter text are skipped.
+ */
+export async function createGenerationJob(
+  workspaceId: string,
+  postIds: string[],
+  platforms: PlatformId[],
+  authorName?: string
+): Promise<JobResult> {
+  const ids = [...new Set(postIds)].filter(
+    (id) => typeof id === 'string' && id !== '' && !id.includes('/')
+  );
+  if (ids.length === 0 || ids.length > MAX_JOB_POSTS) {
+    return { ok: false, status: 400, error: `Between 1 and ${MAX_JOB_POSTS} posts are required` };
+  }
+
+  const db = getAdminDb();
+  const postsRef = db.collection('workspaces').doc(workspaceId).collection('posts');
+  const snapshots = await db.getAll(...ids.map((id) => postsRef.doc(id)));
+
+  const items: Record<string, GenerationJobItem> = {};
+  for (const snapshot of snapshots) {
+    const post = snapshot.data() as Post | undefined;
+    if (!post?.starterText?.trim()) continue;
+    items[snapshot.id] = { postId: snapshot.id, date: post.date, status: 'pending', attempts: 0 };
+  }
+
+  if (Object.keys(items).length === 0) {
+    return { ok: false, status: 400, error: 'No posts with starter text to generate' };
+  }
+
+  const jobRef = getJobsCollection(workspaceId).doc();
+  const validPlatforms = PLATFORM_IDS.filter((id) => platforms.includes(id));
+  await jobRef.set({
+    id: jobRef.id,
+    status: 'running',
+    platforms: validPlatforms.length > 0 ? validPlatforms : DEFAULT_ENABLED_PLATFORMS,
+    items,
+    ...(authorName && { authorName }),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+
+  return { ok: true, jobId: jobRef.id };
+}
+
+/**
+ * Reset a finished job's failed items (and any left running by an abandoned
+ * run) to pending so runGenerationJob picks them up again
+ */
+export async function resumeGenerationJob(workspaceId: string, jobId: string): Promise<JobResult> {
+  const jobRef = getJobsCollection(workspaceId).doc(jobId);
+  const snapshot = await jobRef.get();
+  const job = snapshot.data() as GenerationJob | undefined;
+
+  if (!job) {
+    return { ok: false, status: 404, error: 'Job not found' };
+  }
+  if (job.status === 'running' && Date.now() - job.updatedAt.toMillis() < STALE_JOB_MS) {
+    return { ok: false, status: 409, error: 'Job is still running' };
+  }
+
+  const resumable = Object.values(job.items).filter((item) => item.status !== 'done');
+  if (resumable.length === 0) {
+    return { ok: false, status: 400, error: 'Job has no failed posts' };
+  }
+
+  await jobRef.update({
+    status: 'running',
+    ...Object.fromEntries(
+      resumable.flatMap((item) => [
+        [`items.${item.postId}.status`, 'pending'],
+        [`items.${item.postId}.error`, FieldValue.delete()],
+      ])
+    ),
+    finishedAt: FieldValue.delete(),
+    runToken: FieldValue.delete(),
+    updatedAt: Timestamp.now(),
+  });
+
+  return { ok: true, jobId };
+}
+
+/**
+ * Generate one post with retries. Provider statuses decide whether a retry is
+ * worth it; thrown errors (network failures) are treated as retryable. The
+ * request is counted against the quota once, not per retry, and hitting the
+ * workspace's own rate limit waits it out without using an attempt. Returns
+ * null when the chunk's deadline comes first, so the item can be picked up by
+ * the next chunk.
+ */
+async function generateWithRetry(
+  workspaceId: string,
+  post: Post,
+  settings: WorkspaceSettings['settings'],
+  platforms: PlatformId[],
+  deadline: number,
+  onAttempt: () => Promise<void>
+): Promise<GenerateOutcome | null> {
+  const request: GenerateRequest = {
+    starterText: post.starterText,
+    brandVoice: settings.ai.brandVoice,
+    hashtagStyle: settings.ai.hashtagStyle,
+    emojiStyle: settings.ai.emojiStyle,
+    platforms,
+    observances: getObservanceNames(post.date, settings.customObservances),
+    provider: settings.ai.provider,
+    model: settings.ai.model,
+    variants: settings.ai.variantCount,
+    brand: settings.brand,
+    // Existing captions steer regenerations away from the last result
+    previousOutputs: Object.fromEntries(
+      platforms.map((platform) => [platform, post[platform]?.caption])
+    ),
+  };
+
+  // Invalid requests fail without counting against the quota
+  const invalid = validateGenerateRequest(request);
+  if (invalid) return invalid;
+
+  let outcome: GenerateOutcome = { ok: false, status: 500, error: 'Not attempted' };
+  let reserved = false;
+  let attempt = 1;
+
+  while (attempt <= MAX_ATTEMPTS) {
+    if (!reserved) {
+      const quota = await reserveRequest(workspaceId);
+      if (!quota.ok && quota.status === 429) {
+        const wait = (quota.retryAfter || 1) * 1000;
+        if (Date.now() + wait > deadline) return null;
+        await sleep(wait);
+        continue;
+      }
+      if (!quota.ok) return quota;
+      reserved = true;
+    }
+
+    await onAttempt();
+    try {
+      outcome = await generateForWorkspace(workspaceId, request, { reserved: true });
+    } catch (error) {
+      console.error('Generation request failed:', error);
+      outcome = { ok: false, status: 503, error: 'AI provider could not be reached' };
+    }
+
+    if (outcome.ok || !isRetryable(outcome.status) || attempt === MAX_ATTEMPTS) {
+      return outcome;
+    }
+
+    // Exponential backoff with jitter so concurrent workers don't retry in step,
+    // waiting at least as long as a rate limit asks
+    console.warn(`Generation got ${outcome.status}, retrying (attempt ${attempt + 1})`);
+    const backoff = BASE_BACKOFF_MS * 2 ** (attempt - 1) + Math.random() * 1000;
+    const wait = Math.max(backoff, (outcome.retryAfter || 0) * 1000);
+    if (Date.now() + wait > deadline) return null;
+    await sleep(wait);
+    attempt++;
+  }
+
+  return outcome;
+}
+
+/**
+ * Generate one job item and save the result (or the failure) on the post and the job
+ */
+async function processJobItem(
+  workspaceId: string,
+  jobRef: DocumentReference,
+  item: GenerationJobItem,
+  settings: WorkspaceSettings['settings'],
+  platforms: PlatformId[],
+  deadline: number,
+  authorName?: string
+): Promise<void> {
+  const db = getAdminDb();
+  const postRef = db.collection('workspaces').doc(workspaceId).collection('posts').doc(item.postId);
+  const itemPath = `items.${item.postId}`;
+
+  const postSnapshot = await postRef.get();
+  const post = postSnapshot.exists
+    ? ({ ...postSnapshot.data(), id: postSnapshot.id } as Post)
+    : null;
+  if (!post?.starterText?.trim()) {
+    await jobRef.update({
+      [`${itemPath}.status`]: 'failed',
+      [`${itemPath}.error`]: post ? 'Post has no starter text' : 'Post was deleted',
+      updatedAt: Timestamp.now(),
+    });
+    return;
+  }
+
+  const outcome = await generateWithRetry(
+    workspaceId,
+    post,
+    settings,
+    platforms,
+    deadline,
+    async () => {
+      await jobRef.update({
+        [`${itemPath}.status`]: 'running',
+        [`${itemPath}.attempts`]: FieldValue.increment(1),
+        updatedAt: Timestamp.now(),
+      });
+    }
+  );
+
+  // Out of time in this chunk; the next one tries again
+  if (!outcome) {
+    await jobRef.update({ [`${itemPath}.status`]: 'pending', updatedAt: Timestamp.now() });
+    return;
+  }
+
+  const batch = db.batch();
+  if (outcome.ok) {
+    const generated = buildGeneratedPostUpdate(post, outcome.response, Timestamp.now());
+    batch.update(postRef, { ...generated, updatedAt: Timestamp.now() });
+
+    // Same revision records the client writes in updatePost (see services/revisions.ts)
+    for (const platform of PLATFORM_IDS) {
+      const content = generated[platform];
+      if (!content) continue;
+      const revisionRef = postRef.collection('revisions').doc();
+      batch.set(revisionRef, {
+        id: revisionRef.id,
+        platform,
+        caption: content.caption,
+        hashtags: content.hashtags,
+        scheduledTime: content.scheduledTime,
+        timeSource: content.timeSource,
+        source: 'ai',
+        authorId: workspaceId,
+        ...(authorName && { authorName }),
+        createdAt: Timestamp.now(),
+      });
+    }
+
+    batch.update(jobRef, {
+      [`${itemPath}.status`]: 'done',
+      updatedAt: Timestamp.now(),
+    });
+  } else {
+    batch.update(postRef, {
+      generationError: { message: outcome.error, failedAt: Timestamp.now() },
+      updatedAt: Timestamp.now(),
+    });
+    batch.update(jobRef, {
+      [`${itemPath}.status`]: 'failed',
+      [`${itemPath}.error`]: outcome.error,
+      updatedAt: Timestamp.now(),
+    });
+  }
+  await batch.commit();
+}
+
+/**
+ * Store a one-time token on the job and ask the continue route (see
+ * continueGenerationJob) to run the next chunk in a fresh invocation
+ */
+async function scheduleNextChunk(
+  workspaceId: string,
+  jobRef: DocumentReference,
+  origin: string
+): Promise<void> {
+  const token = randomBytes(24).toString('hex');
+  await jobRef.update({ runToken: token, updatedAt: Timestamp.now() });
+
+  const response = await fetch(`${origin}/api/generation-jobs/${jobRef.id}/continue`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ workspaceId, token }),
+  });
+  if (!response.ok) {
+    throw new Error(`Continue route returned ${response.status}`);
+  }
+}
+
+/**
+ * Process a job's pending items with bounded concurrency for one chunk. Hands
+ * off to the next chunk while items are pending, otherwise marks the job
+ * completed, or failed if any item failed. `origin` is the app's URL, for the
+ * hand-off.
+ */
+export async function runGenerationJob(
+  workspaceId: string,
+  jobId: string,
+  origin: string
+): Promise<void> {
+  const db = getAdminDb();
+  const jobRef = getJobsCollection(workspaceId).doc(jobId);
+  const startedAt = Date.now();
+
+  try {
+    const [jobSnapshot, workspaceSnapshot] = await Promise.all([
+      jobRef.get(),
+      db.collection('workspaces').doc(workspaceId).get(),
+    ]);
+    const job = jobSnapshot.data() as GenerationJob | undefined;
+    const workspace = workspaceSnapshot.data() as WorkspaceSettings | undefined;
+    if (!job || !workspace) return;
+
+    const platforms = job.platforms.filter(isPlatformId);
+    const queue = Object.values(job.items).filter((item) => item.status === 'pending');
+
+    // Each worker takes the next pending item until none are left or the chunk's time is up
+    const worker = async () => {
+      while (Date.now() - startedAt < CHUNK_TIME_MS) {
+        const item = queue.shift();
+        if (!item) return;
+        try {
+          await processJobItem(
+            workspaceId,
+            jobRef,
+            item,
+            workspace.settings,
+            platforms,
+            startedAt + CHUNK_DEADLINE_MS,
+            job.authorName
+          );
+        } catch (error) {
+          console.error(`Error generating post ${item.postId}:`, error);
+          await jobRef.update({
+            [`items.${item.postId}.status`]: 'failed',
+            [`items.${item.postId}.error`]: 'Failed to save captions',
+            updatedAt: Timestamp.now(),
+          });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker));
+
+    const finished = (await jobRef.get()).data() as GenerationJob;
+    const items = Object.values(finished.items);
+    if (items.some((item) => item.status === 'pending')) {
+      await scheduleNextChunk(workspaceId, jobRef, origin);
+      return;
+    }
+
+    const anyFailed = items.some((item) => item.status !== 'done');
+    await jobRef.update({
+      status: anyFailed ? 'failed' : 'completed',
+      finishedAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error(`Generation job ${jobId} failed:`, error);
+    await jobRef
+      .update({ status: 'failed', finishedAt: Timestamp.now(), updatedAt: Timestamp.now() })
+      .catch((updateError) => console.error('Error marking job failed:', updateError));
+  }
+}
+
+/**
+ * Accept a chunk hand-off: the token must match the one stored on the running
+ * job, and is cleared so it can only start one chunk
+ */
+export async function continueGenerationJob(
+  workspaceId: string,
+  jobId: string,
+  token: string
+): Promise<JobResult> {
+  const jobRef = getJobsCollection(workspaceId).doc(jobId);
+
+  return getAdminDb().runTransaction(async (transaction) => {
+    const job = (await transaction.get(jobRef)).data() as GenerationJob | undefined;
+    const expected = job?.runToken;
+    const valid =
+      job?.status === 'running' &&
+      !!expected &&
+      Buffer.byteLength(token) === Buffer.byteLength(expected) &&
+      timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+    if (!valid) {
+      return { ok: false, status: 404, error: 'Job not found' };
+    }
+
+    transaction.update(jobRef, { runToken: FieldValue.delete(), updatedAt: Timestamp.now() });
+    return { ok: true, jobId };
+  });
+}
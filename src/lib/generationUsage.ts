@@ -0,0 +1,152 @@
+/**
+ * AI usage quotas and accounting per workspace (server-side only)
+ *
+ * Every generation is checked against a per-minute rate limit and monthly
+ * request and token quotas before the provider is called, then its token usage
+ * and estimated cost are added to workspaces/{id}/usage/{YYYY-MM}. Limits come
+ * from the environment (0 disables a limit):
+ *
+ * - AI_RATE_LIMIT_PER_MINUTE  (default 30)
+ * - AI_MONTHLY_REQUEST_LIMIT  (default 1000)
+ * - AI_MONTHLY_TOKEN_LIMIT    (default 2000000)
+ *
+ * The token quota is checked against usage so far, so the request that crosses
+ * it still completes. Requests that fail validation aren't counted.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getUsageMonth } from '@/lib/aiPricing';
+import {
+  generateCaptionResponse,
+  validateGenerateRequest,
+  type GenerateOutcome,
+  type GenerateRequest,
+} from '@/lib/captionGeneration';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import type { TokenUsage, WorkspaceUsage } from '@/types';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export type QuotaCheck = { ok: true } | { ok: false; status: number; error: string; retryAfter?: number };
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getLimits() {
+  return {
+    perMinute: readLimit('AI_RATE_LIMIT_PER_MINUTE', 30),
+    monthlyRequests: readLimit('AI_MONTHLY_REQUEST_LIMIT', 1000),
+    monthlyTokens: readLimit('AI_MONTHLY_TOKEN_LIMIT', 2_000_000),
+  };
+}
+
+function getUsageRef(workspaceId: string, month: string) {
+  return getAdminDb()
+    .collection('workspaces')
+    .doc(workspaceId)
+    .collection('usage')
+    .doc(month);
+}
+
+/**
+ * Count a request against the workspace's limits, refusing it when one is reached
+ */
+export async function reserveRequest(workspaceId: string): Promise<QuotaCheck> {
+  const limits = getLimits();
+  const month = getUsageMonth();
+  const usageRef = getUsageRef(workspaceId, month);
+
+  return getAdminDb().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(usageRef);
+    const usage = snapshot.data() as WorkspaceUsage | undefined;
+    const now = Timestamp.now();
+
+    if (limits.monthlyRequests > 0 && (usage?.requests || 0) >= limits.monthlyRequests) {
+      return { ok: false, status: 403, error: 'Monthly AI request quota reached' };
+    }
+    const tokens = (usage?.inputTokens || 0) + (usage?.outputTokens || 0);
+    if (limits.monthlyTokens > 0 && tokens >= limits.monthlyTokens) {
+      return { ok: false, status: 403, error: 'Monthly AI token quota reached' };
+    }
+
+    const windowAge = usage?.windowStart ? now.toMillis() - usage.windowStart.toMillis() : Infinity;
+    const inWindow = windowAge < RATE_WINDOW_MS;
+    if (limits.perMinute > 0 && inWindow && usage!.windowRequests >= limits.perMinute) {
+      return {
+        ok: false,
+        status: 429,
+        error: 'Too many generation requests, please wait a moment',
+        retryAfter: Math.ceil((RATE_WINDOW_MS - windowAge) / 1000),
+      };
+    }
+
+    transaction.set(
+      usageRef,
+      {
+        month,
+        requests: FieldValue.increment(1),
+        requestLimit: limits.monthlyRequests,
+        tokenLimit: limits.monthlyTokens,
+        windowStart: inWindow ? usage!.windowStart : now,
+        windowRequests: inWindow ? FieldValue.increment(1) : 1,
+        updatedAt: now,
+      },
+      { merge: true }
+    );
+    return { ok: true };
+  });
+}
+
+/**
+ * Add a generation's tokens and estimated cost to the month's usage
+ */
+async function recordUsage(workspaceId: string, usage: TokenUsage, cost: number): Promise<void> {
+  await getUsageRef(workspaceId, getUsageMonth()).set(
+    {
+      inputTokens: FieldValue.increment(usage.inputTokens),
+      outputTokens: FieldValue.increment(usage.outputTokens),
+      cost: FieldValue.increment(cost),
+      updatedAt: Timestamp.now(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Generate captions on behalf of a workspace, enforcing its quotas and
+ * recording the tokens used (also when the response was unusable). Invalid
+ * requests are refused before they count against the quotas. Pass `reserved`
+ * when reserveRequest already counted this request, e.g. when retrying one the
+ * provider failed.
+ */
+export async function generateForWorkspace(
+  workspaceId: string,
+  body: GenerateRequest,
+  { reserved = false }: { reserved?: boolean } = {}
+): Promise<GenerateOutcome> {
+  const invalid = validateGenerateRequest(body);
+  if (invalid) {
+    return invalid;
+  }
+
+  if (!reserved) {
+    const quota = await reserveRequest(workspaceId);
+    if (!quota.ok) {
+      return quota;
+    }
+  }
+
+  const outcome = await generateCaptionResponse(body);
+  const usage = outcome.ok ? outcome.response.usage : outcome.usage;
+  const cost = outcome.ok ? outcome.response.cost : outcome.cost;
+  if (usage) {
+    // Accounting must not fail a generation that already succeeded
+    await recordUsage(workspaceId, usage, cost || 0).catch((error) =>
+      console.error('Error recording AI usage:', error)
+    );
+  }
+
+  return outcome;
+}
@@ -0,0 +1,139 @@
+/**
+ * iCalendar (.ics) feed of the content calendar
+ *
+ * One event per platform post, at its scheduled time in the workspace
+ * timezone (written in UTC so every calendar app places it correctly), with
+ * the caption as the description and the image attached by URL. Shared by the
+ * export page download and the subscription route.
+ */
+
+import { buildFullCaption } from './generatedCaptions';
+import { getPlatform } from './platforms';
+import { zonedTimeToUtc } from './timezone';
+import type { PlatformId, Post } from '@/types';
+
+export interface CalendarFeedOptions {
+  name: string; // Calendar name shown in the subscriber's calendar app
+  timezone: string; // Workspace timezone the posts are scheduled in
+  platforms: PlatformId[];
+}
+
+// How long each event blocks out in the calendar
+const EVENT_DURATION = 'PT15M';
+const SUMMARY_LENGTH = 60;
+// Lines longer than this many bytes are folded (RFC 5545 section 3.1)
+const MAX_LINE_BYTES = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-byte pieces, never splitting a character
+ */
+function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = pieces.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+    if (bytes + size > limit) {
+      pieces.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+/**
+ * Format an instant as a UTC date-time, e.g. 20250314T173000Z
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function summarize(text: string): string {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > SUMMARY_LENGTH
+    ? `${firstLine.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+function buildEvent(post: Post, platform: PlatformId, timezone: string, stamp: Date): string[] {
+  const content = post[platform]!;
+  const label = getPlatform(platform).label;
+  const caption = content.caption
+    ? buildFullCaption(content.caption, content.hashtags || [])
+    : '';
+  const start = zonedTimeToUtc(post.date, content.scheduledTime, timezone);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${post.id}-${platform}@the-social-studio`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DURATION:${EVENT_DURATION}`,
+    `SUMMARY:${escapeText(`${label}: ${summarize(content.caption || post.starterText) || 'Post'}`)}`,
+    `DESCRIPTION:${escapeText(caption || 'Caption not generated yet')}`,
+    `CATEGORIES:${escapeText(label)}`,
+    ...(post.imageUrl ? [`ATTACH:${post.imageUrl}`] : []),
+    // Drafts may still change; calendar apps show tentative events faintly
+    `STATUS:${post.status === 'draft' ? 'TENTATIVE' : 'CONFIRMED'}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build an .ics calendar with one event per scheduled platform post
+ */
+export function buildCalendarFeed(
+  posts: Post[],
+  { name, timezone, platforms }: CalendarFeedOptions
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//The Social Studio//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+    // Ask subscribers to check for changes hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  const now = new Date();
+  for (const post of posts) {
+    for (const platform of platforms) {
+      if (!post[platform]?.scheduledTime) continue;
+      lines.push(...buildEvent(post, platform, timezone, post.updatedAt?.toDate() ?? now));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Format the .ics download filename
+ */
+export function formatCalendarFilename(name: string): string {
+  return `${name.replace(/[^a-zA-Z0-9-]/g, '_')}_calendar.ics`;
+}
@@ -0,0 +1,178 @@
+/**
+ * US holidays and food observances
+ *
+ * A bundled, offline dataset used to flag dates in the planning tab, pre-fill
+ * starter text, and give the caption generator context about the day.
+ * Workspaces can add their own observances (anniversaries, local events) in
+ * settings; those are merged with the bundled list.
+ */
+
+import { addDays, formatDateKey, getDayOfWeek, parseDateKey } from '@/lib/timezone';
+import type { Observance, ObservanceDate } from '@/types';
+
+const fixed = (month: number, day: number): ObservanceDate => ({ type: 'fixed', month, day });
+
+const nthWeekday = (
+  month: number,
+  dayOfWeek: number,
+  weekOfMonth: number,
+  offsetDays?: number
+): ObservanceDate => ({
+  type: 'nthWeekday',
+  month,
+  dayOfWeek,
+  weekOfMonth,
+  ...(offsetDays && { offsetDays }),
+});
+
+const easter = (offsetDays: number): ObservanceDate => ({ type: 'easter', offsetDays });
+
+export const US_OBSERVANCES: Observance[] = [
+  // Holidays
+  { id: 'new-years-day', name: "New Year's Day", category: 'holiday', date: fixed(1, 1), starterText: 'Happy New Year! Start the year off right with brunch with us.' },
+  { id: 'mlk-day', name: 'Martin Luther King Jr. Day', category: 'holiday', date: nthWeekday(1, 1, 3) },
+  { id: 'super-bowl', name: 'Super Bowl Sunday', category: 'holiday', date: nthWeekday(2, 0, 2), starterText: 'Game day catering and takeout for your Super Bowl party. Order ahead!' },
+  { id: 'valentines-day', name: "Valentine's Day", category: 'holiday', date: fixed(2, 14), starterText: "Treat your Valentine to a special dinner. Reservations are filling up!" },
+  { id: 'presidents-day', name: "Presidents' Day", category: 'holiday', date: nthWeekday(2, 1, 3) },
+  { id: 'mardi-gras', name: 'Mardi Gras', category: 'holiday', date: easter(-47), starterText: 'Laissez les bons temps rouler! Mardi Gras specials all day.' },
+  { id: 'st-patricks-day', name: "St. Patrick's Day", category: 'holiday', date: fixed(3, 17), starterText: "Celebrate St. Patrick's Day with us. Green is encouraged!" },
+  { id: 'easter', name: 'Easter', category: 'holiday', date: easter(0), starterText: 'Join us for Easter brunch with the whole family.' },
+  { id: 'cinco-de-mayo', name: 'Cinco de Mayo', category: 'holiday', date: fixed(5, 5), starterText: 'Cinco de Mayo fiesta! Margaritas, tacos, and good times.' },
+  { id: 'mothers-day', name: "Mother's Day", category: 'holiday', date: nthWeekday(5, 0, 2), starterText: "Show Mom some love this Mother's Day. Book her favorite table." },
+  { id: 'memorial-day', name: 'Memorial Day', category: 'holiday', date: nthWeekday(5, 1, -1) },
+  { id: 'fathers-day', name: "Father's Day", category: 'holiday', date: nthWeekday(6, 0, 3), starterText: "Bring Dad in for Father's Day. He deserves it." },
+  { id: 'juneteenth', name: 'Juneteenth', category: 'holiday', date: fixed(6, 19) },
+  { id: 'independence-day', name: 'Independence Day', category: 'holiday', date: fixed(7, 4), starterText: 'Happy 4th of July! Grab your cookout favorites to go.' },
+  { id: 'labor-day', name: 'Labor Day', category: 'holiday', date: nthWeekday(9, 1, 1) },
+  { id: 'halloween', name: 'Halloween', category: 'holiday', date: fixed(10, 31), starterText: 'Happy Halloween! Come in costume for a sweet treat.' },
+  { id: 'veterans-day', name: 'Veterans Day', category: 'holiday', date: fixed(11, 11), starterText: 'Thank you to all who served. Veterans, your meal is on us today.' },
+  { id: 'thanksgiving', name: 'Thanksgiving', category: 'holiday', date: nthWeekday(11, 4, 4), starterText: "We're thankful for our community. Happy Thanksgiving!" },
+  { id: 'black-friday', name: 'Black Friday', category: 'holiday', date: nthWeekday(11, 4, 4, 1) },
+  { id: 'small-business-saturday', name: 'Small Business Saturday', category: 'holiday', date: nthWeekday(11, 4, 4, 2), starterText: 'Shop small, eat local. Thanks for supporting Small Business Saturday!' },
+  { id: 'christmas-eve', name: 'Christmas Eve', category: 'holiday', date: fixed(12, 24) },
+  { id: 'christmas', name: 'Christmas Day', category: 'holiday', date: fixed(12, 25) },
+  { id: 'new-years-eve', name: "New Year's Eve", category: 'holiday', date: fixed(12, 31), starterText: "Ring in the new year with us at our New Year's Eve celebration." },
+
+  // Food observances
+  { id: 'national-pizza-day', name: 'National Pizza Day', category: 'food', date: fixed(2, 9), starterText: "It's National Pizza Day! What's your go-to topping?" },
+  { id: 'national-margarita-day', name: 'National Margarita Day', category: 'food', date: fixed(2, 22), starterText: 'Happy National Margarita Day! Salt or no salt?' },
+  { id: 'pi-day', name: 'Pi Day', category: 'food', date: fixed(3, 14), starterText: 'Happy Pi Day! Celebrate with a slice of pie.' },
+  { id: 'national-burrito-day', name: 'National Burrito Day', category: 'food', date: nthWeekday(4, 4, 1), starterText: "It's National Burrito Day! Come get wrapped up in flavor." },
+  { id: 'national-beer-day', name: 'National Beer Day', category: 'food', date: fixed(4, 7) },
+  { id: 'national-grilled-cheese-day', name: 'National Grilled Cheese Day', category: 'food', date: fixed(4, 12) },
+  { id: 'national-bbq-day', name: 'National Barbecue Day', category: 'food', date: fixed(5, 16) },
+  { id: 'national-wine-day', name: 'National Wine Day', category: 'food', date: fixed(5, 25) },
+  { id: 'national-hamburger-day', name: 'National Hamburger Day', category: 'food', date: fixed(5, 28), starterText: 'Happy National Hamburger Day! Tell us how you build your perfect burger.' },
+  { id: 'national-donut-day', name: 'National Donut Day', category: 'food', date: nthWeekday(6, 5, 1) },
+  { id: 'national-sushi-day', name: 'International Sushi Day', category: 'food', date: fixed(6, 18) },
+  { id: 'national-fried-chicken-day', name: 'National Fried Chicken Day', category: 'food', date: fixed(7, 6) },
+  { id: 'national-french-fry-day', name: 'National French Fry Day', category: 'food', date: fixed(7, 13) },
+  { id: 'national-hot-dog-day', name: 'National Hot Dog Day', category: 'food', date: nthWeekday(7, 3, 3) },
+  { id: 'national-ice-cream-day', name: 'National Ice Cream Day', category: 'food', date: nthWeekday(7, 0, 3), starterText: "It's National Ice Cream Day! Cool off with a sweet treat." },
+  { id: 'national-tequila-day', name: 'National Tequila Day', category: 'food', date: fixed(7, 24) },
+  { id: 'national-chicken-wing-day', name: 'National Chicken Wing Day', category: 'food', date: fixed(7, 29), starterText: 'Happy National Chicken Wing Day! Which sauce is your favorite?' },
+  { id: 'national-avocado-day', name: 'National Avocado Day', category: 'food', date: fixed(7, 31) },
+  { id: 'national-waffle-day', name: 'National Waffle Day', category: 'food', date: fixed(8, 24) },
+  { id: 'national-cheeseburger-day', name: 'National Cheeseburger Day', category: 'food', date: fixed(9, 18) },
+  { id: 'national-pancake-day', name: 'National Pancake Day', category: 'food', date: fixed(9, 26) },
+  { id: 'national-coffee-day', name: 'National Coffee Day', category: 'food', date: fixed(9, 29), starterText: 'Happy National Coffee Day! Stop in for a fresh cup.' },
+  { id: 'national-taco-day', name: 'National Taco Day', category: 'food', date: fixed(10, 4), starterText: "It's National Taco Day! Come celebrate with your favorite tacos." },
+  { id: 'national-dessert-day', name: 'National Dessert Day', category: 'food', date: fixed(10, 14) },
+  { id: 'national-pasta-day', name: 'National Pasta Day', category: 'food', date: fixed(10, 17) },
+  { id: 'national-sandwich-day', name: 'National Sandwich Day', category: 'food', date: fixed(11, 3) },
+  { id: 'national-nacho-day', name: 'National Nacho Day', category: 'food', date: fixed(11, 6) },
+  { id: 'national-cookie-day', name: 'National Cookie Day', category: 'food', date: fixed(12, 4) },
+  { id: 'national-bacon-day', name: 'National Bacon Day', category: 'food', date: fixed(12, 30) },
+];
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm), as YYYY-MM-DD
+ */
+function getEasterDate(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDateKey(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Get the date (YYYY-MM-DD) an observance falls on in a year, or null if it
+ * doesn't occur that year (e.g. February 30)
+ */
+export function getObservanceDate(date: ObservanceDate, year: number): string | null {
+  switch (date.type) {
+    case 'fixed': {
+      const result = new Date(Date.UTC(year, date.month - 1, date.day));
+      return result.getUTCMonth() === date.month - 1 ? formatDateKey(result) : null;
+    }
+    case 'nthWeekday': {
+      let day: string;
+      if (date.weekOfMonth === -1) {
+        const lastDay = formatDateKey(new Date(Date.UTC(year, date.month, 0)));
+        day = addDays(lastDay, -((getDayOfWeek(lastDay) - date.dayOfWeek + 7) % 7));
+      } else {
+        const firstDay = formatDateKey(new Date(Date.UTC(year, date.month - 1, 1)));
+        const first = addDays(firstDay, (date.dayOfWeek - getDayOfWeek(firstDay) + 7) % 7);
+        day = addDays(first, (date.weekOfMonth - 1) * 7);
+      }
+      return addDays(day, date.offsetDays || 0);
+    }
+    case 'easter':
+      return addDays(getEasterDate(year), date.offsetDays);
+  }
+}
+
+/**
+ * Map each date in a range to the observances falling on it, bundled first
+ */
+export function getObservancesInRange(
+  startDate: string,
+  endDate: string,
+  custom: Observance[] = []
+): Map<string, Observance[]> {
+  const result = new Map<string, Observance[]>();
+  const firstYear = parseDateKey(startDate).getUTCFullYear();
+  const lastYear = parseDateKey(endDate).getUTCFullYear();
+
+  for (const observance of [...US_OBSERVANCES, ...custom]) {
+    for (let year = firstYear; year <= lastYear; year++) {
+      const date = getObservanceDate(observance.date, year);
+      if (!date || date < startDate || date > endDate) continue;
+      result.set(date, [...(result.get(date) || []), observance]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the observances falling on a single date
+ */
+export function getObservancesForDate(date: string, custom: Observance[] = []): Observance[] {
+  return getObservancesInRange(date, date, custom).get(date) || [];
+}
+
+/**
+ * Names of the observances on a date, passed to caption generation as context
+ */
+export function getObservanceNames(date: string, custom: Observance[] = []): string[] {
+  return getObservancesForDate(date, custom).map((observance) => observance.name);
+}
+
+/**
+ * Suggested starter text for a post on an observance
+ */
+export function getObservanceStarterText(observance: Observance): string {
+  return observance.starterText || `Happy ${observance.name}! Celebrate with us today.`;
+}
@@ -0,0 +1,274 @@
+/**
+ * Platform Registry
+ *
+ * Single source of truth for every social network the app can schedule to.
+ * Types, the caption API route, scheduling windows and the export page all
+ * read from here, so adding a network means adding an entry below (plus its
+ * id in `PlatformId` and a Tailwind color).
+ */
+
+import type { PlatformId, PlatformPosts, WeeklyWindows, WorkspaceSettings } from '@/types';
+
+type HashtagStyle = WorkspaceSettings['settings']['ai']['hashtagStyle'];
+
+export type ExportField = 'text' | 'mediaUrl' | 'scheduledDate' | 'scheduledTime';
+
+export interface ExportColumn {
+  header: string;
+  field: ExportField;
+}
+
+export interface PlatformConfig {
+  id: PlatformId;
+  label: string;
+  shortLabel: string;
+  icon: string; // SVG path data for a 24x24 viewBox
+  colors: {
+    text: string; // Icon/text color, e.g. 'text-facebook'
+    dot: string; // Solid background, e.g. 'bg-facebook'
+    subtle: string; // Tinted background behind icons
+    badge: string; // Badge background + text
+  };
+  charLimit: number;
+  requiresImage: boolean; // Posts without an image are held back from export
+  lint: {
+    maxHashtags?: number; // Hard cap set by the network
+    previewLength?: number; // Characters shown in the feed before "more"
+    clickableLinks: boolean; // Whether URLs in the caption become links
+  };
+  hashtags: {
+    counts: Record<HashtagStyle, number>; // Hashtags requested per style (0 = none)
+  };
+  prompt: {
+    captionStyle: string; // e.g. 'Engaging caption'
+    guidance: string; // Extra line for the system prompt guidelines
+  };
+  timeWindows: WeeklyWindows; // Defaults; workspaces can override per day
+  defaultTime: string; // HH:MM fallback when a post has no time yet
+  exportColumns: ExportColumn[];
+}
+
+// Buffer CSV format (Buffer schedules every platform below)
+const BUFFER_COLUMNS: ExportColumn[] = [
+  { header: 'Text', field: 'text' },
+  { header: 'Media URL', field: 'mediaUrl' },
+  { header: 'Scheduled Date', field: 'scheduledDate' },
+  { header: 'Scheduled Time', field: 'scheduledTime' },
+];
+
+export const PLATFORMS: Record<PlatformId, PlatformConfig> = {
+  facebook: {
+    id: 'facebook',
+    label: 'Facebook',
+    shortLabel: 'FB',
+    icon: 'M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z',
+    colors: {
+      text: 'text-facebook',
+      dot: 'bg-facebook',
+      subtle: 'bg-facebook/10',
+      badge: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    },
+    charLimit: 63206,
+    requiresImage: true,
+    lint: {
+      clickableLinks: true,
+    },
+    hashtags: {
+      counts: { minimal: 3, moderate: 5, heavy: 7 },
+    },
+    prompt: {
+      captionStyle: 'Engaging caption',
+      guidance: 'Keep Facebook posts slightly longer and more conversational',
+    },
+    timeWindows: {
+      0: [{ start: 10, end: 13 }],          // Sunday: 10:00 AM – 1:00 PM
+      1: [{ start: 12, end: 15 }],          // Monday: 12:00 PM – 3:00 PM
+      2: [{ start: 12, end: 15 }],          // Tuesday: 12:00 PM – 3:00 PM
+      3: [{ start: 11, end: 14 }],          // Wednesday: 11:00 AM – 2:00 PM
+      4: [{ start: 13, end: 16 }],          // Thursday: 1:00 PM – 4:00 PM
+      5: [{ start: 11, end: 13 }],          // Friday: 11:00 AM – 1:00 PM
+      6: [{ start: 9, end: 11 }],           // Saturday: 9:00 AM – 11:00 AM
+    },
+    defaultTime: '12:00',
+    exportColumns: BUFFER_COLUMNS,
+  },
+  instagram: {
+    id: 'instagram',
+    label: 'Instagram',
+    shortLabel: 'IG',
+    icon: 'M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z',
+    colors: {
+      text: 'text-instagram',
+      dot: 'bg-instagram',
+      subtle: 'bg-instagram/10',
+      badge: 'bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-400',
+    },
+    charLimit: 2200,
+    requiresImage: true,
+    lint: {
+      maxHashtags: 30,
+      previewLength: 125,
+      clickableLinks: false,
+    },
+    hashtags: {
+      counts: { minimal: 5, moderate: 10, heavy: 15 },
+    },
+    prompt: {
+      captionStyle: 'Punchy caption',
+      guidance: 'Keep Instagram posts punchy and visual-focused',
+    },
+    timeWindows: {
+      0: [{ start: 9, end: 14 }],           // Sunday: 9:00 AM – 2:00 PM
+      1: [{ start: 11.5, end: 13.5 }],      // Monday: 11:30 AM – 1:30 PM
+      2: [{ start: 11.5, end: 13.5 }],      // Tuesday: 11:30 AM – 1:30 PM
+      3: [{ start: 11, end: 13 }, { start: 17, end: 18 }],  // Wednesday: 11:00 AM – 1:00 PM and 5:00 PM – 6:00 PM
+      4: [{ start: 11, end: 13 }, { start: 16, end: 17 }],  // Thursday: 11:00 AM – 1:00 PM and 4:00 PM – 5:00 PM
+      5: [{ start: 9, end: 11 }, { start: 15, end: 17 }],   // Friday: 9:00 AM – 11:00 AM and 3:00 PM – 5:00 PM
+      6: [{ start: 10, end: 13 }],          // Saturday: 10:00 AM – 1:00 PM
+    },
+    defaultTime: '19:00',
+    exportColumns: BUFFER_COLUMNS,
+  },
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    shortLabel: 'LI',
+    icon: 'M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z',
+    colors: {
+      text: 'text-linkedin',
+      dot: 'bg-linkedin',
+      subtle: 'bg-linkedin/10',
+      badge: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400',
+    },
+    charLimit: 3000,
+    requiresImage: false,
+    lint: {
+      previewLength: 210,
+      clickableLinks: true,
+    },
+    hashtags: {
+      counts: { minimal: 2, moderate: 3, heavy: 5 },
+    },
+    prompt: {
+      captionStyle: 'Professional caption for catering clients, event planners and local businesses',
+      guidance: 'Keep LinkedIn posts professional and B2B-focused (catering, private events, corporate orders), with short paragraphs',
+    },
+    timeWindows: {
+      0: [{ start: 10, end: 12 }],          // Sunday: 10:00 AM – 12:00 PM
+      1: [{ start: 8, end: 10 }],           // Monday: 8:00 AM – 10:00 AM
+      2: [{ start: 8, end: 10 }, { start: 12, end: 13 }],   // Tuesday: 8:00 AM – 10:00 AM and 12:00 PM – 1:00 PM
+      3: [{ start: 8, end: 10 }, { start: 12, end: 13 }],   // Wednesday: 8:00 AM – 10:00 AM and 12:00 PM – 1:00 PM
+      4: [{ start: 8, end: 10 }, { start: 12, end: 13 }],   // Thursday: 8:00 AM – 10:00 AM and 12:00 PM – 1:00 PM
+      5: [{ start: 8, end: 10 }],           // Friday: 8:00 AM – 10:00 AM
+      6: [{ start: 10, end: 12 }],          // Saturday: 10:00 AM – 12:00 PM
+    },
+    defaultTime: '09:00',
+    exportColumns: BUFFER_COLUMNS,
+  },
+  threads: {
+    id: 'threads',
+    label: 'Threads',
+    shortLabel: 'TH',
+    icon: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10h5v-2h-5c-4.34 0-8-3.66-8-8s3.66-8 8-8 8 3.66 8 8v1.43c0 .79-.71 1.57-1.5 1.57s-1.5-.78-1.5-1.57V12c0-2.76-2.24-5-5-5s-5 2.24-5 5 2.24 5 5 5c1.38 0 2.64-.56 3.54-1.47.65.89 1.77 1.47 2.96 1.47 1.97 0 3.5-1.6 3.5-3.57V12c0-5.52-4.48-10-10-10zm0 13c-1.66 0-3-1.34-3-3s1.34-3 3-3 3 1.34 3 3-1.34 3-3 3z',
+    colors: {
+      text: 'text-threads dark:text-white',
+      dot: 'bg-threads dark:bg-white',
+      subtle: 'bg-threads/10 dark:bg-white/10',
+      badge: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+    },
+    charLimit: 500,
+    requiresImage: false,
+    lint: {
+      maxHashtags: 1, // One topic tag per post
+      clickableLinks: true,
+    },
+    hashtags: {
+      counts: { minimal: 1, moderate: 1, heavy: 1 }, // Threads links a single topic tag per post
+    },
+    prompt: {
+      captionStyle: 'Short, casual conversation starter',
+      guidance: 'Keep Threads posts short and chatty, like starting a conversation, well under 500 characters',
+    },
+    timeWindows: {
+      0: [{ start: 9, end: 12 }],           // Sunday: 9:00 AM – 12:00 PM
+      1: [{ start: 12, end: 14 }],          // Monday: 12:00 PM – 2:00 PM
+      2: [{ start: 12, end: 14 }, { start: 19, end: 21 }],  // Tuesday: 12:00 PM – 2:00 PM and 7:00 PM – 9:00 PM
+      3: [{ start: 12, end: 14 }, { start: 19, end: 21 }],  // Wednesday: 12:00 PM – 2:00 PM and 7:00 PM – 9:00 PM
+      4: [{ start: 12, end: 14 }, { start: 19, end: 21 }],  // Thursday: 12:00 PM – 2:00 PM and 7:00 PM – 9:00 PM
+      5: [{ start: 11, end: 13 }],          // Friday: 11:00 AM – 1:00 PM
+      6: [{ start: 10, end: 13 }],          // Saturday: 10:00 AM – 1:00 PM
+    },
+    defaultTime: '12:30',
+    exportColumns: BUFFER_COLUMNS,
+  },
+  googleBusiness: {
+    id: 'googleBusiness',
+    label: 'Google Business Profile',
+    shortLabel: 'GBP',
+    icon: 'M20 4H4v2h16V4zm1 10v-2l-1-5H4l-1 5v2h1v6h10v-6h4v6h2v-6h1zm-9 4H6v-4h6v4z',
+    colors: {
+      text: 'text-google-business',
+      dot: 'bg-google-business',
+      subtle: 'bg-google-business/10',
+      badge: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+    },
+    charLimit: 1500,
+    requiresImage: false,
+    lint: {
+      clickableLinks: false, // Links go in the post's button instead
+    },
+    hashtags: {
+      counts: { minimal: 0, moderate: 0, heavy: 0 }, // Hashtags don't help local search
+    },
+    prompt: {
+      captionStyle: '"What\'s New" update with a clear next step (visit, call or order)',
+      guidance: 'Write Google Business Profile "What\'s New" updates as plain, informative copy for local searchers, with no hashtags',
+    },
+    timeWindows: {
+      0: [{ start: 8, end: 10 }],           // Sunday: 8:00 AM – 10:00 AM
+      1: [{ start: 9, end: 11 }],           // Monday: 9:00 AM – 11:00 AM
+      2: [{ start: 9, end: 11 }],           // Tuesday: 9:00 AM – 11:00 AM
+      3: [{ start: 9, end: 11 }],           // Wednesday: 9:00 AM – 11:00 AM
+      4: [{ start: 9, end: 11 }],           // Thursday: 9:00 AM – 11:00 AM
+      5: [{ start: 9, end: 11 }],           // Friday: 9:00 AM – 11:00 AM
+      6: [{ start: 8, end: 10 }],           // Saturday: 8:00 AM – 10:00 AM
+    },
+    defaultTime: '10:00',
+    exportColumns: BUFFER_COLUMNS,
+  },
+};
+
+// Display/iteration order
+export const PLATFORM_IDS: PlatformId[] = [
+  'facebook',
+  'instagram',
+  'linkedin',
+  'threads',
+  'googleBusiness',
+];
+
+// Platforms a workspace publishes to until it picks its own
+export const DEFAULT_ENABLED_PLATFORMS: PlatformId[] = ['facebook', 'instagram'];
+
+/**
+ * Get the registry entry for a platform
+ */
+export function getPlatform(id: PlatformId): PlatformConfig {
+  return PLATFORMS[id];
+}
+
+/**
+ * Type guard for platform ids coming from requests or stored data
+ */
+export function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === 'string' && (PLATFORM_IDS as string[]).includes(value);
+}
+
+/**
+ * Platforms a post occupies on its date. A post without any platform
+ * content yet is treated as occupying all of them, since generation fills each.
+ */
+export function getPostPlatforms(post: PlatformPosts): PlatformId[] {
+  const platforms = PLATFORM_IDS.filter((platform) => !!post[platform]);
+  return platforms.length > 0 ? platforms : [...PLATFORM_IDS];
+}
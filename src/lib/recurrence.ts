@@ -0,0 +1,99 @@
+/**
+ * Recurrence rules for content series
+ *
+ * A series such as "Taco Tuesday" repeats on a rule (every week on a weekday,
+ * the Nth weekday of each month, or a fixed day of the month). The schedule
+ * generator reserves the dates a series falls on before picking other days.
+ */
+
+import { addDays, getDayOfWeek, parseDateKey } from '@/lib/timezone';
+import type { ContentSeries, RecurrenceRule } from '@/types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', [-1]: 'Last' };
+
+/**
+ * Number of days in the month of a YYYY-MM-DD date
+ */
+function getDaysInMonth(date: string): number {
+  const d = parseDateKey(date);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * Check whether a rule falls on a date. `startDate` anchors weekly intervals.
+ */
+export function matchesRecurrence(rule: RecurrenceRule, date: string, startDate: string): boolean {
+  const dayOfMonth = parseDateKey(date).getUTCDate();
+
+  switch (rule.frequency) {
+    case 'weekly': {
+      if (getDayOfWeek(date) !== rule.dayOfWeek) return false;
+      // Count whole weeks between the Sundays starting each week
+      const anchorWeek = addDays(startDate, -getDayOfWeek(startDate));
+      const dateWeek = addDays(date, -getDayOfWeek(date));
+      const weeks = Math.round(
+        (parseDateKey(dateWeek).getTime() - parseDateKey(anchorWeek).getTime()) / (7 * 86400000)
+      );
+      return weeks % Math.max(1, rule.interval) === 0;
+    }
+    case 'monthlyWeekday': {
+      if (getDayOfWeek(date) !== rule.dayOfWeek) return false;
+      if (rule.weekOfMonth === -1) {
+        return dayOfMonth + 7 > getDaysInMonth(date);
+      }
+      return Math.ceil(dayOfMonth / 7) === rule.weekOfMonth;
+    }
+    case 'monthlyDate':
+      return dayOfMonth === rule.dayOfMonth;
+  }
+}
+
+/**
+ * Get the dates (YYYY-MM-DD) a series runs on within a range, respecting the
+ * series' own start and end dates
+ */
+export function getSeriesDates(series: ContentSeries, startDate: string, endDate: string): string[] {
+  const from = series.startDate > startDate ? series.startDate : startDate;
+  const to = series.endDate && series.endDate < endDate ? series.endDate : endDate;
+
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (matchesRecurrence(series.rule, date, series.startDate)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Describe a rule for display, e.g. "Every Tuesday" or "Last Friday of the month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case 'weekly':
+      return rule.interval > 1
+        ? `Every ${rule.interval} weeks on ${WEEKDAY_NAMES[rule.dayOfWeek]}`
+        : `Every ${WEEKDAY_NAMES[rule.dayOfWeek]}`;
+    case 'monthlyWeekday':
+      return `${ORDINALS[rule.weekOfMonth]} ${WEEKDAY_NAMES[rule.dayOfWeek]} of the month`;
+    case 'monthlyDate':
+      return `Day ${rule.dayOfMonth} of the month`;
+  }
+}
+
+/**
+ * Fill a series' starter-text template for a date. Supported placeholders:
+ * {weekday} ("Tuesday"), {month} ("March"), {day} ("3") and {date} ("March 3").
+ */
+export function fillStarterTemplate(template: string, date: string): string {
+  const d = parseDateKey(date);
+  const month = d.toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' });
+  const day = String(d.getUTCDate());
+
+  return template
+    .replace(/\{weekday\}/g, WEEKDAY_NAMES[d.getUTCDay()])
+    .replace(/\{month\}/g, month)
+    .replace(/\{day\}/g, day)
+    .replace(/\{date\}/g, `${month} ${day}`);
+}
@@ -4,53 +4,90 @@
  * This module handles optimal day and time selection for social media posts
  * based on restaurant-focused engagement patterns.
  *
- * Posting windows are based on research for restaurant/food business engagement.
+ * Default posting windows are based on research for restaurant/food business
+ * engagement and live with each platform in the registry (src/lib/platforms.ts).
+ * Workspaces can override windows per platform and day, and the day rankings,
+ * from the settings page; anything not overridden falls back to the defaults.
+ *
+ * Recurring content series claim their dates first; the remaining weekly
+ * slots are then filled from the best-ranked open days.
+ *
+ * Randomness comes from a seeded generator: the same inputs and seed always
+ * produce the same dates and times, so a plan can be reproduced or reshuffled.
  */
 
+import { PLATFORM_IDS, getPlatform } from '@/lib/platforms';
+import { fillStarterTemplate, getSeriesDates } from '@/lib/recurrence';
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  getDayOfWeek,
+  getTodayInTimezone,
+  parseDateKey,
+} from '@/lib/timezone';
+import type {
+  ContentSeries,
+  PlatformId,
+  PlatformPosts,
+  Post,
+  SpacingRules,
+  TimeWindow,
+  WorkspaceSettings,
+} from '@/types';
+
 export interface ScheduledPost {
   date: string; // YYYY-MM-DD
   dayOfWeek: string;
-  facebookTime: string; // HH:MM (24hr)
-  instagramTime: string; // HH:MM (24hr)
+  times: Partial<Record<PlatformId, string>>; // HH:MM (24hr) per platform
+  series?: ScheduledSeriesPost; // Set when the date is reserved by a recurring series
+}
+
+// Content a recurring series pre-fills on its reserved date
+export interface ScheduledSeriesPost {
+  id: string;
+  name: string;
+  starterText: string; // Template already filled for the date
+  imageAssetId?: string;
+  imageUrl?: string;
 }
 
 export interface ScheduleOptions {
   startDate: string;
   endDate: string;
   postsPerWeek: number;
-  existingPostDates?: Set<string>;
+  existingPostDates?: Set<string>; // Dates already at the daily post limit
+  existingPosts?: Post[]; // Posts new times are spaced from
+  platforms?: PlatformId[]; // Platforms to pick times for (defaults to all)
+  preferences?: SchedulingPreferences; // Workspace overrides for windows and day ranks
+  seed?: number; // Same inputs + seed = same schedule; random when omitted
+  series?: ContentSeries[]; // Recurring series whose dates are reserved first
 }
 
-interface TimeWindow {
-  start: number; // Hours in 24hr format (e.g., 11.5 = 11:30 AM)
-  end: number;
-}
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
 
-// Day-specific posting windows
-// 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-const INSTAGRAM_WINDOWS: Record<number, TimeWindow[]> = {
-  0: [{ start: 9, end: 14 }],           // Sunday: 9:00 AM – 2:00 PM
-  1: [{ start: 11.5, end: 13.5 }],      // Monday: 11:30 AM – 1:30 PM
-  2: [{ start: 11.5, end: 13.5 }],      // Tuesday: 11:30 AM – 1:30 PM
-  3: [{ start: 11, end: 13 }, { start: 17, end: 18 }],  // Wednesday: 11:00 AM – 1:00 PM and 5:00 PM – 6:00 PM
-  4: [{ start: 11, end: 13 }, { start: 16, end: 17 }],  // Thursday: 11:00 AM – 1:00 PM and 4:00 PM – 5:00 PM
-  5: [{ start: 9, end: 11 }, { start: 15, end: 17 }],   // Friday: 9:00 AM – 11:00 AM and 3:00 PM – 5:00 PM
-  6: [{ start: 10, end: 13 }],          // Saturday: 10:00 AM – 1:00 PM
-};
+// Workspace scheduling overrides (see WorkspaceSettings.settings.scheduling)
+export type SchedulingPreferences = Pick<
+  WorkspaceSettings['settings']['scheduling'],
+  'postingWindows' | 'dayPriorities' | 'blackoutDates' | 'closedDays' | 'spacing'
+>;
 
-const FACEBOOK_WINDOWS: Record<number, TimeWindow[]> = {
-  0: [{ start: 10, end: 13 }],          // Sunday: 10:00 AM – 1:00 PM
-  1: [{ start: 12, end: 15 }],          // Monday: 12:00 PM – 3:00 PM
-  2: [{ start: 12, end: 15 }],          // Tuesday: 12:00 PM – 3:00 PM
-  3: [{ start: 11, end: 14 }],          // Wednesday: 11:00 AM – 2:00 PM
-  4: [{ start: 13, end: 16 }],          // Thursday: 1:00 PM – 4:00 PM
-  5: [{ start: 11, end: 13 }],          // Friday: 11:00 AM – 1:00 PM
-  6: [{ start: 9, end: 11 }],           // Saturday: 9:00 AM – 11:00 AM
+// Spacing rules are off unless the workspace turns them on
+export const DEFAULT_SPACING_RULES: SpacingRules = {
+  minPlatformGapMinutes: 0,
+  minHoursBetweenPosts: 0,
+  platformOrder: [],
 };
 
+// A post already placed on a platform, used to keep consecutive posts apart
+export interface PlacedPost {
+  date: string;
+  time: string;
+}
+
 // Day engagement rankings (0 = Sunday, 6 = Saturday)
 // Lower rank = higher priority
-const DAY_PRIORITY: Record<number, number> = {
+export const DEFAULT_DAY_PRIORITY: Record<number, number> = {
   0: 2, // Sunday - high engagement
   1: 6, // Monday - lowest engagement (avoid)
   2: 5, // Tuesday - low
@@ -60,103 +97,455 @@ const DAY_PRIORITY: Record<number, number> = {
   6: 2, // Saturday - high engagement
 };
 
+// Rank given to the least desirable days; skipped when posting 4 or fewer times a week
+export const LOWEST_DAY_PRIORITY = 6;
+
+/**
+ * Get the engagement rank for a day, preferring the workspace override
+ */
+export function getDayPriority(dayOfWeek: number, preferences?: SchedulingPreferences): number {
+  return preferences?.dayPriorities?.[dayOfWeek] ?? DEFAULT_DAY_PRIORITY[dayOfWeek];
+}
+
+/**
+ * Get why a date is unavailable for posting (weekly closed day or blackout
+ * range), or null if it is open
+ */
+export function getBlackoutReason(date: string, preferences?: SchedulingPreferences): string | null {
+  const dayOfWeek = getDayOfWeek(date);
+  if (preferences?.closedDays?.includes(dayOfWeek)) {
+    return `Closed ${getDayName(date)}s`;
+  }
+
+  const range = preferences?.blackoutDates?.find((r) => date >= r.start && date <= r.end);
+  if (range) {
+    return range.label || 'Blackout date';
+  }
+
+  return null;
+}
+
+/**
+ * Map each unavailable date in a list to the reason it is unavailable
+ */
+export function getBlackoutDates(
+  dates: string[],
+  preferences?: SchedulingPreferences
+): Map<string, string> {
+  const blackouts = new Map<string, string>();
+  for (const date of dates) {
+    const reason = getBlackoutReason(date, preferences);
+    if (reason) blackouts.set(date, reason);
+  }
+  return blackouts;
+}
+
+/**
+ * Get the spacing rules, filling any unset rule with the default
+ */
+export function getSpacingRules(preferences?: SchedulingPreferences): SpacingRules {
+  return { ...DEFAULT_SPACING_RULES, ...preferences?.spacing };
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ */
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert minutes since midnight to HH:MM
+ */
+function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Wall-clock minutes from one placed post to another
+ */
+function minutesBetween(from: PlacedPost, to: PlacedPost): number {
+  const days = (parseDateKey(to.date).getTime() - parseDateKey(from.date).getTime()) / 86400000;
+  return days * 24 * 60 + timeToMinutes(to.time) - timeToMinutes(from.time);
+}
+
+/**
+ * Put platforms in the preferred order; unordered platforms keep their order after them
+ */
+function orderPlatforms(platforms: PlatformId[], rules: SpacingRules): PlatformId[] {
+  const ordered = rules.platformOrder.filter((p) => platforms.includes(p));
+  return [...ordered, ...platforms.filter((p) => !ordered.includes(p))];
+}
+
+/**
+ * Get the posting windows for a platform and day, preferring the workspace
+ * override (an empty or missing override falls back to the registry default)
+ */
+export function getPostingWindows(
+  platform: PlatformId,
+  dayOfWeek: number,
+  preferences?: SchedulingPreferences
+): TimeWindow[] {
+  const custom = preferences?.postingWindows?.[platform]?.[dayOfWeek];
+  return custom && custom.length > 0 ? custom : getPlatform(platform).timeWindows[dayOfWeek];
+}
+
+/**
+ * Create a new random seed (unsigned 32-bit integer)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Derive a per-date seed so a date's times don't depend on the rest of the range
+ */
+function seedForDate(seed: number, date: string): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < date.length; i++) {
+    hash = Math.imul(hash ^ date.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
 /**
  * Pick a random window from available windows for a day
  */
-function pickRandomWindow(windows: TimeWindow[]): TimeWindow {
-  const index = Math.floor(Math.random() * windows.length);
+function pickRandomWindow(windows: TimeWindow[], random: RandomSource): TimeWindow {
+  const index = Math.floor(random() * windows.length);
   return windows[index];
 }
 
 /**
  * Generate a random time within a window, rounded to 5-minute increments
  */
-function randomTimeInWindow(window: TimeWindow): string {
+function randomTimeInWindow(window: TimeWindow, random: RandomSource): string {
   const startMinutes = Math.floor(window.start * 60);
   const endMinutes = Math.floor(window.end * 60);
   const rangeMinutes = endMinutes - startMinutes;
 
   // Random time within window
-  const totalMinutes = startMinutes + Math.floor(Math.random() * rangeMinutes);
+  const totalMinutes = startMinutes + Math.floor(random() * rangeMinutes);
 
-  // Round to 5-minute increments
-  const roundedMinutes = Math.round(totalMinutes / 5) * 5;
+  // Round to 5-minute increments (never past 23:55 for windows ending at midnight)
+  const roundedMinutes = Math.min(Math.round(totalMinutes / 5) * 5, 24 * 60 - 5);
 
-  const hours = Math.floor(roundedMinutes / 60);
-  const minutes = roundedMinutes % 60;
+  return minutesToTime(roundedMinutes);
+}
 
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+/**
+ * Generate a time for each of the given platforms on a given day.
+ *
+ * When a date is given, spacing rules are enforced against the times already
+ * picked that day, other posts already on that day and each platform's
+ * previous post. A random time that breaks
+ * a rule is replaced by a random 5-minute slot in the windows that satisfies
+ * them all; if no slot does, the random time is kept.
+ */
+export function generateTimesForDay(
+  dayOfWeek: number,
+  platforms: PlatformId[] = PLATFORM_IDS,
+  preferences?: SchedulingPreferences,
+  random: RandomSource = Math.random,
+  spacing?: {
+    date: string;
+    previousPosts?: Partial<Record<PlatformId, PlacedPost>>;
+    sameDayPosts?: Array<{ platform: PlatformId; time: string }>;
+  }
+): Partial<Record<PlatformId, string>> {
+  const rules = getSpacingRules(preferences);
+  const times: Partial<Record<PlatformId, string>> = {};
+  const placed: PlatformId[] = [];
+
+  for (const platform of orderPlatforms(platforms, rules)) {
+    const candidate = generateTimeForPlatform(platform, dayOfWeek, preferences, random);
+
+    if (!spacing) {
+      times[platform] = candidate;
+      continue;
+    }
+
+    const previous = spacing.previousPosts?.[platform];
+    const fits = (time: string) => {
+      const minutes = timeToMinutes(time);
+      for (const other of placed) {
+        const otherMinutes = timeToMinutes(times[other]!);
+        if (Math.abs(minutes - otherMinutes) < rules.minPlatformGapMinutes) return false;
+        const ordered =
+          rules.platformOrder.includes(other) && rules.platformOrder.includes(platform);
+        if (ordered && minutes <= otherMinutes) return false;
+      }
+      for (const other of spacing.sameDayPosts || []) {
+        const gap = Math.abs(minutes - timeToMinutes(other.time));
+        if (other.platform !== platform && gap < rules.minPlatformGapMinutes) return false;
+        if (other.platform === platform && gap < rules.minHoursBetweenPosts * 60) return false;
+      }
+      if (!previous) return true;
+      return minutesBetween(previous, { date: spacing.date, time }) >= rules.minHoursBetweenPosts * 60;
+    };
+
+    if (fits(candidate)) {
+      times[platform] = candidate;
+    } else {
+      const slots = getPostingWindows(platform, dayOfWeek, preferences)
+        .flatMap((window) => {
+          const result: string[] = [];
+          const start = Math.ceil((window.start * 60) / 5) * 5;
+          const end = Math.min(Math.floor(window.end * 60), 24 * 60 - 5);
+          for (let m = start; m <= end; m += 5) result.push(minutesToTime(m));
+          return result;
+        })
+        .filter(fits);
+      times[platform] = slots.length > 0 ? slots[Math.floor(random() * slots.length)] : candidate;
+    }
+    placed.push(platform);
+  }
+
+  // Keep the caller's platform order in the result
+  const result: Partial<Record<PlatformId, string>> = {};
+  for (const platform of platforms) {
+    result[platform] = times[platform];
+  }
+  return result;
 }
 
 /**
- * Generate Facebook and Instagram times for a given day
+ * Generate times for posts on the given dates (repeats allowed), in date order
+ * so each platform is spaced from its previous post. Existing posts are kept
+ * clear of on their own date and count as previous posts for later dates.
+ * Results follow the order of `dates`.
  */
-function generateTimesForDay(dayOfWeek: number): { facebookTime: string; instagramTime: string } {
-  const igWindows = INSTAGRAM_WINDOWS[dayOfWeek];
-  const fbWindows = FACEBOOK_WINDOWS[dayOfWeek];
+export function generateTimesForDates(
+  dates: string[],
+  {
+    platforms = PLATFORM_IDS,
+    preferences,
+    seed,
+    existingPosts = [],
+  }: {
+    platforms?: PlatformId[];
+    preferences?: SchedulingPreferences;
+    seed: number;
+    existingPosts?: Post[];
+  }
+): Partial<Record<PlatformId, string>>[] {
+  const previousPosts: Partial<Record<PlatformId, PlacedPost>> = {};
+  const existing = existingPosts
+    .flatMap((post) =>
+      platforms
+        .filter((platform) => post[platform]?.scheduledTime)
+        .map((platform) => ({ platform, date: post.date, time: post[platform]!.scheduledTime }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+  let nextExisting = 0;
+
+  // One random source per date, so a date's times don't depend on the rest of the range
+  const randoms = new Map<string, RandomSource>();
+  const results: Partial<Record<PlatformId, string>>[] = new Array(dates.length);
+  const order = dates.map((date, index) => ({ date, index }));
+  order.sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index);
+
+  for (const { date, index } of order) {
+    while (nextExisting < existing.length && existing[nextExisting].date < date) {
+      const { platform, ...placed } = existing[nextExisting++];
+      const previous = previousPosts[platform];
+      if (!previous || minutesBetween(previous, placed) > 0) previousPosts[platform] = placed;
+    }
+
+    let random = randoms.get(date);
+    if (!random) {
+      random = createSeededRandom(seedForDate(seed, date));
+      randoms.set(date, random);
+    }
+
+    const times = generateTimesForDay(getDayOfWeek(date), platforms, preferences, random, {
+      date,
+      previousPosts,
+      sameDayPosts: existing.filter((entry) => entry.date === date),
+    });
+    for (const platform of platforms) {
+      const time = times[platform];
+      if (time) previousPosts[platform] = { date, time };
+    }
+    results[index] = times;
+  }
 
-  const igWindow = pickRandomWindow(igWindows);
-  const fbWindow = pickRandomWindow(fbWindows);
+  return results;
+}
 
-  const instagramTime = randomTimeInWindow(igWindow);
-  const facebookTime = randomTimeInWindow(fbWindow);
+/**
+ * Find posts whose times break the spacing rules, keyed by post id.
+ * Used to warn about manual edits; checks every platform block of every post.
+ */
+export function findSpacingViolations(
+  posts: Post[],
+  preferences?: SchedulingPreferences,
+  platforms: PlatformId[] = PLATFORM_IDS
+): Map<string, string[]> {
+  const rules = getSpacingRules(preferences);
+  const violations = new Map<string, string[]>();
+  const add = (postId: string, message: string) => {
+    const list = violations.get(postId) || [];
+    if (!list.includes(message)) list.push(message);
+    violations.set(postId, list);
+  };
+
+  // Every scheduled platform block, in date/time order
+  const entries = posts
+    .flatMap((post) =>
+      platforms
+        .filter((platform) => post[platform]?.scheduledTime)
+        .map((platform) => ({
+          postId: post.id,
+          platform,
+          date: post.date,
+          time: post[platform]!.scheduledTime,
+        }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+  // Same-day gaps and ordering between different platforms
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length && entries[j].date === entries[i].date; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (a.platform === b.platform) continue;
+
+      const gap = minutesBetween(a, b);
+      if (gap < rules.minPlatformGapMinutes) {
+        const message = `${getPlatform(a.platform).label} and ${getPlatform(b.platform).label} are ${gap} min apart (minimum ${rules.minPlatformGapMinutes})`;
+        add(a.postId, message);
+        add(b.postId, message);
+      }
+
+      const orderA = rules.platformOrder.indexOf(a.platform);
+      const orderB = rules.platformOrder.indexOf(b.platform);
+      if (orderA !== -1 && orderB !== -1 && orderA > orderB) {
+        const message = `${getPlatform(b.platform).label} should go out before ${getPlatform(a.platform).label}`;
+        add(a.postId, message);
+        add(b.postId, message);
+      }
+    }
+  }
 
-  return { facebookTime, instagramTime };
+  // Consecutive posts on the same platform
+  if (rules.minHoursBetweenPosts > 0) {
+    for (const platform of platforms) {
+      const platformEntries = entries.filter((entry) => entry.platform === platform);
+      for (let i = 1; i < platformEntries.length; i++) {
+        const hours = minutesBetween(platformEntries[i - 1], platformEntries[i]) / 60;
+        if (hours < rules.minHoursBetweenPosts) {
+          add(
+            platformEntries[i].postId,
+            `${getPlatform(platform).label} post is ${Math.round(hours * 10) / 10}h after the previous one (minimum ${rules.minHoursBetweenPosts}h)`
+          );
+        }
+      }
+    }
+  }
+
+  return violations;
 }
 
 /**
  * Get the day of week name
  */
-function getDayName(date: Date): string {
-  return date.toLocaleDateString('en-US', { weekday: 'long' });
+function getDayName(date: string): string {
+  return parseDateKey(date).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
 }
 
 /**
- * Get all dates in a range
+ * Get all dates (YYYY-MM-DD) in a range
  */
-function getDatesInRange(startDate: string, endDate: string): Date[] {
-  const dates: Date[] = [];
-  const current = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
-
-  while (current <= end) {
-    dates.push(new Date(current));
-    current.setDate(current.getDate() + 1);
+function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let current = startDate; current <= endDate; current = addDays(current, 1)) {
+    dates.push(current);
   }
-
   return dates;
 }
 
 /**
- * Format date as YYYY-MM-DD
+ * Get the Sunday starting a date's week, used to group dates by week
  */
-function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
+function getWeekKey(date: string): string {
+  return addDays(date, -getDayOfWeek(date));
 }
 
 /**
- * Select optimal days for posting based on engagement patterns
+ * Reserve the dates active series fall on, skipping full, closed, and blacked
+ * out dates. When two series land on the same date the earlier one keeps it.
+ */
+function reserveSeriesDates(
+  series: ContentSeries[],
+  startDate: string,
+  endDate: string,
+  existingPostDates: Set<string>,
+  preferences?: SchedulingPreferences
+): Map<string, ContentSeries> {
+  const reserved = new Map<string, ContentSeries>();
+  for (const item of series) {
+    if (!item.active) continue;
+    for (const date of getSeriesDates(item, startDate, endDate)) {
+      if (reserved.has(date) || existingPostDates.has(date)) continue;
+      if (getBlackoutReason(date, preferences)) continue;
+      reserved.set(date, item);
+    }
+  }
+  return reserved;
+}
+
+/**
+ * Select optimal days for posting based on engagement patterns. Reserved
+ * dates are skipped and count toward their week's posts.
  */
 function selectOptimalDays(
-  availableDates: Date[],
+  availableDates: string[],
   postsPerWeek: number,
-  existingPostDates: Set<string>
-): Date[] {
-  // Filter out dates that already have posts
+  existingPostDates: Set<string>,
+  preferences?: SchedulingPreferences,
+  reservedDates: Set<string> = new Set()
+): string[] {
+  // Filter out dates that are already full, reserved, closed, or blacked out
   const filteredDates = availableDates.filter(
-    (date) => !existingPostDates.has(formatDate(date))
+    (date) =>
+      !existingPostDates.has(date) &&
+      !reservedDates.has(date) &&
+      !getBlackoutReason(date, preferences)
   );
 
+  // Posts per week already taken by reserved dates
+  const reservedPerWeek = new Map<string, number>();
+  reservedDates.forEach((date) => {
+    const weekKey = getWeekKey(date);
+    reservedPerWeek.set(weekKey, (reservedPerWeek.get(weekKey) || 0) + 1);
+  });
+
   if (filteredDates.length === 0) {
     return [];
   }
 
   // Group dates by week
-  const weekMap = new Map<string, Date[]>();
+  const weekMap = new Map<string, string[]>();
   filteredDates.forEach((date) => {
-    const weekStart = new Date(date);
-    weekStart.setDate(date.getDate() - date.getDay());
-    const weekKey = formatDate(weekStart);
+    const weekKey = getWeekKey(date);
 
     if (!weekMap.has(weekKey)) {
       weekMap.set(weekKey, []);
@@ -165,33 +554,36 @@ function selectOptimalDays(
   });
 
   // Select posts from each week
-  const selectedDates: Date[] = [];
+  const selectedDates: string[] = [];
 
-  weekMap.forEach((datesInWeek) => {
+  weekMap.forEach((datesInWeek, weekKey) => {
     // Sort by priority (best days first)
     const sortedDates = [...datesInWeek].sort((a, b) => {
-      const priorityA = DAY_PRIORITY[a.getDay()];
-      const priorityB = DAY_PRIORITY[b.getDay()];
+      const priorityA = getDayPriority(getDayOfWeek(a), preferences);
+      const priorityB = getDayPriority(getDayOfWeek(b), preferences);
       return priorityA - priorityB;
     });
 
-    // If postsPerWeek <= 4, skip Monday (index 6 in priority)
+    // If postsPerWeek <= 4, skip the lowest-ranked days (Monday by default)
     let datesToConsider = sortedDates;
     if (postsPerWeek <= 4) {
-      datesToConsider = sortedDates.filter((d) => d.getDay() !== 1); // Skip Monday
+      datesToConsider = sortedDates.filter(
+        (d) => getDayPriority(getDayOfWeek(d), preferences) < LOWEST_DAY_PRIORITY
+      );
     }
 
-    // Select up to postsPerWeek dates
-    const selected = datesToConsider.slice(0, postsPerWeek);
+    // Select up to postsPerWeek dates, less any reserved this week
+    const remaining = Math.max(0, postsPerWeek - (reservedPerWeek.get(weekKey) || 0));
+    const selected = datesToConsider.slice(0, remaining);
 
     // Sort selected by date order
-    selected.sort((a, b) => a.getTime() - b.getTime());
+    selected.sort();
 
     selectedDates.push(...selected);
   });
 
   // Sort all selected dates
-  selectedDates.sort((a, b) => a.getTime() - b.getTime());
+  selectedDates.sort();
 
   return selectedDates;
 }
@@ -200,23 +592,56 @@ function selectOptimalDays(
  * Generate a complete posting schedule
  */
 export function generateSchedule(options: ScheduleOptions): ScheduledPost[] {
-  const { startDate, endDate, postsPerWeek, existingPostDates = new Set() } = options;
+  const {
+    startDate,
+    endDate,
+    postsPerWeek,
+    existingPostDates = new Set(),
+    existingPosts = [],
+    platforms = PLATFORM_IDS,
+    preferences,
+    seed = generateSeed(),
+    series = [],
+  } = options;
 
   // Get all dates in range
   const allDates = getDatesInRange(startDate, endDate);
 
-  // Select optimal days
-  const selectedDates = selectOptimalDays(allDates, postsPerWeek, existingPostDates);
-
-  // Generate schedule with times
-  const schedule: ScheduledPost[] = selectedDates.map((date) => {
-    const { facebookTime, instagramTime } = generateTimesForDay(date.getDay());
-
+  // Reserve recurring series dates, then fill the remaining slots
+  const reserved = reserveSeriesDates(series, startDate, endDate, existingPostDates, preferences);
+  const selectedDates = [
+    ...reserved.keys(),
+    ...selectOptimalDays(
+      allDates,
+      postsPerWeek,
+      existingPostDates,
+      preferences,
+      new Set(reserved.keys())
+    ),
+  ].sort();
+
+  // Generate schedule with times, keeping each platform's last post for spacing
+  const timesByDate = generateTimesForDates(selectedDates, {
+    platforms,
+    preferences,
+    seed,
+    existingPosts,
+  });
+  const schedule: ScheduledPost[] = selectedDates.map((date, index) => {
+    const item = reserved.get(date);
     return {
-      date: formatDate(date),
+      date,
       dayOfWeek: getDayName(date),
-      facebookTime,
-      instagramTime,
+      times: timesByDate[index],
+      ...(item && {
+        series: {
+          id: item.id,
+          name: item.name,
+          starterText: fillStarterTemplate(item.starterText, date),
+          imageAssetId: item.imageAssetId,
+          imageUrl: item.imageUrl,
+        },
+      }),
     };
   });
 
@@ -227,8 +652,8 @@ export function generateSchedule(options: ScheduleOptions): ScheduledPost[] {
  * Calculate the number of weeks in a date range
  */
 export function getWeeksInRange(startDate: string, endDate: string): number {
-  const start = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
+  const start = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
   const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
   return Math.ceil(days / 7);
 }
@@ -241,22 +666,21 @@ export function getRecommendedPostsPerWeek(_startDate: string, _endDate: string)
 }
 
 /**
- * Validate a date range
+ * Validate a date range, with "today" evaluated in the workspace timezone
  */
 export function validateDateRange(
   startDate: string,
-  endDate: string
+  endDate: string,
+  timezone: string = DEFAULT_TIMEZONE
 ): { valid: boolean; error?: string } {
   if (!startDate || !endDate) {
     return { valid: false, error: 'Please select both start and end dates' };
   }
 
-  const start = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const start = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
 
-  if (start < today) {
+  if (startDate < getTodayInTimezone(timezone)) {
     return { valid: false, error: 'Start date cannot be in the past' };
   }
 
@@ -286,13 +710,33 @@ export function formatTimeForDisplay(time24: string): string {
  * Generate a single time for a specific platform and day
  */
 export function generateTimeForPlatform(
-  platform: 'facebook' | 'instagram',
-  dayOfWeek: number
+  platform: PlatformId,
+  dayOfWeek: number,
+  preferences?: SchedulingPreferences,
+  random: RandomSource = Math.random
 ): string {
-  const windows = platform === 'instagram'
-    ? INSTAGRAM_WINDOWS[dayOfWeek]
-    : FACEBOOK_WINDOWS[dayOfWeek];
+  const windows = getPostingWindows(platform, dayOfWeek, preferences);
+
+  const window = pickRandomWindow(windows, random);
+  return randomTimeInWindow(window, random);
+}
 
-  const window = pickRandomWindow(windows);
-  return randomTimeInWindow(window);
+/**
+ * Build empty platform blocks carrying AI-picked times, ready for generation
+ */
+export function buildScheduledPlatformPosts(
+  times: Partial<Record<PlatformId, string>>
+): PlatformPosts {
+  const blocks: PlatformPosts = {};
+  for (const platform of PLATFORM_IDS) {
+    const time = times[platform];
+    if (!time) continue;
+    blocks[platform] = {
+      caption: '',
+      hashtags: [],
+      scheduledTime: time,
+      timeSource: 'ai',
+    };
+  }
+  return blocks;
 }
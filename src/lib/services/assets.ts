@@ -70,6 +70,30 @@ export async function uploadAsset(
   return asset;
 }
 
+// Restore an asset record from a backup, re-uploading the image when its bytes are given
+export async function restoreAsset(
+  workspaceId: string,
+  asset: Asset,
+  data?: Blob
+): Promise<Asset> {
+  const restored: Asset = { ...asset };
+
+  if (data) {
+    const storagePath = `workspaces/${workspaceId}/images/${asset.id}-${asset.fileName}`;
+    const snapshot = await uploadBytes(ref(getFirebaseStorage(), storagePath), data, {
+      contentType: asset.contentType,
+    });
+    restored.storagePath = storagePath;
+    restored.downloadUrl = await getDownloadURL(snapshot.ref);
+  }
+
+  // Firestore rejects undefined fields
+  if (!restored.downloadUrl) delete restored.downloadUrl;
+
+  await setDoc(getAssetDoc(workspaceId, asset.id), restored);
+  return restored;
+}
+
 // Get a single asset by ID
 export async function getAsset(
   workspaceId: string,
@@ -0,0 +1,182 @@
+import { collection, doc, getDocs, updateDoc, writeBatch } from 'firebase/firestore';
+import { getFirebaseDb } from '@/lib/firebase';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  base64ToBlob,
+  blobToBase64,
+  deserializeTimestamps,
+  serializeTimestamps,
+  type BackupArchive,
+  type BackupAsset,
+  type Serialized,
+} from '@/lib/workspaceBackup';
+import { getAssets, restoreAsset } from './assets';
+import { getPosts } from './posts';
+import { getContentSeries } from './series';
+import { getWorkspaceSettings } from './workspace';
+import type { Asset, ContentSeries, Post, SchedulePlan } from '@/types';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 500;
+
+export interface BackupResult {
+  archive: BackupArchive;
+  imageErrors: number; // Images that couldn't be downloaded (their records are kept)
+}
+
+export interface RestoreSummary {
+  posts: number;
+  assets: number;
+  skippedAssets: number; // Records without image bytes, from another workspace
+  series: number;
+  plans: number;
+  settings: boolean;
+}
+
+// Get reference to a workspace subcollection
+function getWorkspaceCollection(workspaceId: string, name: string) {
+  return collection(getFirebaseDb(), 'workspaces', workspaceId, name);
+}
+
+// Write documents in batches of BATCH_SIZE, keyed by their `id`
+async function setDocuments(
+  workspaceId: string,
+  name: string,
+  documents: Array<{ id: string }>
+): Promise<void> {
+  const db = getFirebaseDb();
+  for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const document of documents.slice(i, i + BATCH_SIZE)) {
+      batch.set(doc(getWorkspaceCollection(workspaceId, name), document.id), document);
+    }
+    await batch.commit();
+  }
+}
+
+// Export the whole workspace as a backup archive, optionally with image bytes
+export async function createWorkspaceBackup(
+  workspaceId: string,
+  {
+    includeImages,
+    onProgress,
+  }: { includeImages: boolean; onProgress?: (done: number, total: number) => void }
+): Promise<BackupResult> {
+  const [workspace, posts, assets, series, planSnapshot] = await Promise.all([
+    getWorkspaceSettings(workspaceId),
+    getPosts(workspaceId),
+    getAssets(workspaceId),
+    getContentSeries(workspaceId),
+    getDocs(getWorkspaceCollection(workspaceId, 'plans')),
+  ]);
+  const plans = planSnapshot.docs.map((snapshot) => snapshot.data() as SchedulePlan);
+
+  let imageErrors = 0;
+  const backupAssets: BackupAsset[] = [];
+  for (const [index, asset] of assets.entries()) {
+    const backupAsset: BackupAsset = serializeTimestamps(asset);
+    if (includeImages && asset.downloadUrl) {
+      try {
+        const response = await fetch(asset.downloadUrl);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        backupAsset.data = await blobToBase64(await response.blob());
+      } catch (error) {
+        console.error(`Error downloading image ${asset.fileName}:`, error);
+        imageErrors++;
+      }
+      onProgress?.(index + 1, assets.length);
+    }
+    backupAssets.push(backupAsset);
+  }
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceWorkspaceId: workspaceId,
+    workspace: {
+      name: workspace.name,
+      settings: serializeTimestamps(workspace.settings),
+    },
+    posts: posts.map(serializeTimestamps),
+    assets: backupAssets,
+    series: series.map(serializeTimestamps),
+    plans: plans.map(serializeTimestamps),
+  };
+
+  return { archive, imageErrors };
+}
+
+// Restore a backup into a workspace (the one it came from or another one), with
+// the posts chosen from its restore plan (see getPostsToRestore). Documents keep
+// their IDs, so restoring into the source workspace replaces them.
+export async function restoreWorkspaceBackup(
+  workspaceId: string,
+  archive: BackupArchive,
+  backupPosts: Serialized<Post>[],
+  { restoreSettings }: { restoreSettings: boolean }
+): Promise<RestoreSummary> {
+  const sameWorkspace = archive.sourceWorkspaceId === workspaceId;
+
+  // Assets first, so posts can point at the restored images
+  const imageUrls = new Map<string, string>(); // Asset ID -> download URL here
+  let restoredAssets = 0;
+  let skippedAssets = 0;
+  for (const { data, ...record } of archive.assets) {
+    // Without the bytes, a record only makes sense where its file already is
+    if (!data && !sameWorkspace) {
+      skippedAssets++;
+      continue;
+    }
+    const asset = await restoreAsset(
+      workspaceId,
+      deserializeTimestamps<Asset>(record),
+      data ? base64ToBlob(data, record.contentType) : undefined
+    );
+    if (asset.downloadUrl) imageUrls.set(asset.id, asset.downloadUrl);
+    restoredAssets++;
+  }
+
+  await setDocuments(
+    workspaceId,
+    'series',
+    archive.series.map((series) => deserializeTimestamps<ContentSeries>(series))
+  );
+
+  // Plans can't be updated, so only add the ones that aren't here yet
+  const existingPlans = await getDocs(getWorkspaceCollection(workspaceId, 'plans'));
+  const existingPlanIds = new Set(existingPlans.docs.map((snapshot) => snapshot.id));
+  const plans = archive.plans
+    .filter((schedulePlan) => !existingPlanIds.has(schedulePlan.id))
+    .map((schedulePlan) => deserializeTimestamps<SchedulePlan>(schedulePlan));
+  await setDocuments(workspaceId, 'plans', plans);
+
+  const posts = backupPosts.map((backupPost) => {
+    const post = deserializeTimestamps<Post>(backupPost);
+    if (!post.imageAssetId) return post;
+
+    const imageUrl = imageUrls.get(post.imageAssetId);
+    if (imageUrl) return { ...post, imageUrl };
+    // The asset wasn't restored here; keep showing the image by its URL
+    if (!sameWorkspace) delete post.imageAssetId;
+    return post;
+  });
+  await setDocuments(workspaceId, 'posts', posts);
+
+  if (restoreSettings) {
+    await updateDoc(doc(getFirebaseDb(), 'workspaces', workspaceId), {
+      name: archive.workspace.name,
+      settings: deserializeTimestamps(archive.workspace.settings),
+    });
+  }
+
+  return {
+    posts: posts.length,
+    assets: restoredAssets,
+    skippedAssets,
+    series: archive.series.length,
+    plans: plans.length,
+    settings: restoreSettings,
+  };
+}
@@ -0,0 +1,101 @@
+import { ref, uploadBytes, getBlob } from 'firebase/storage';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  setDoc,
+  Timestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { getFirebaseDb, getFirebaseStorage } from '@/lib/firebase';
+import { hashContent } from '@/lib/exportHistory';
+import type { ExportBatch, ExportBatchFile, ExportBatchFileRecord } from '@/types';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 500;
+
+// Get reference to export history collection for a workspace
+function getExportsCollection(workspaceId: string) {
+  const db = getFirebaseDb();
+  return collection(db, 'workspaces', workspaceId, 'exports');
+}
+
+// Record an export. The CSVs go to Storage, since a large export would be over
+// Firestore's 1 MiB document limit; the batch document keeps their metadata.
+export async function recordExportBatch(
+  workspaceId: string,
+  data: Omit<ExportBatch, 'id' | 'files' | 'createdAt'>,
+  files: ExportBatchFile[]
+): Promise<ExportBatch> {
+  const storage = getFirebaseStorage();
+  const batchRef = doc(getExportsCollection(workspaceId));
+
+  const records: ExportBatchFileRecord[] = [];
+  for (const file of files) {
+    const storagePath = `workspaces/${workspaceId}/exports/${batchRef.id}/${file.filename}`;
+    const blob = new Blob([file.content], { type: 'text/csv;charset=utf-8' });
+    await uploadBytes(ref(storage, storagePath), blob, { contentType: blob.type });
+    records.push({
+      platform: file.platform,
+      filename: file.filename,
+      storagePath,
+      size: blob.size,
+      contentHash: hashContent(file.content),
+    });
+  }
+
+  const exportBatch: ExportBatch = {
+    ...data,
+    id: batchRef.id,
+    files: records,
+    createdAt: Timestamp.now(),
+  };
+  if (!exportBatch.authorName) delete exportBatch.authorName;
+
+  await setDoc(batchRef, exportBatch);
+  return exportBatch;
+}
+
+// Mark exported posts, separately from the history record so either can
+// succeed without the other
+export async function markPostsExported(workspaceId: string, postIds: string[]): Promise<void> {
+  const db = getFirebaseDb();
+  const now = Timestamp.now();
+
+  for (let i = 0; i < postIds.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const postId of postIds.slice(i, i + BATCH_SIZE)) {
+      batch.update(doc(db, 'workspaces', workspaceId, 'posts', postId), {
+        status: 'exported',
+        updatedAt: now,
+      });
+    }
+    await batch.commit();
+  }
+}
+
+// Load a recorded export's CSVs from Storage
+export async function getExportBatchFiles(batch: ExportBatch): Promise<ExportBatchFile[]> {
+  const storage = getFirebaseStorage();
+  return Promise.all(
+    batch.files.map(async (file) => ({
+      platform: file.platform,
+      filename: file.filename,
+      content: await (await getBlob(ref(storage, file.storagePath))).text(),
+    }))
+  );
+}
+
+// Get the most recent exports, newest first
+export async function getExportBatches(
+  workspaceId: string,
+  count: number = 50
+): Promise<ExportBatch[]> {
+  const q = query(getExportsCollection(workspaceId), orderBy('createdAt', 'desc'), limit(count));
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs.map((doc) => doc.data() as ExportBatch);
+}
@@ -4,22 +4,40 @@ export {
   createPostsBatch,
   getPost,
   getPosts,
+  getPostsByDate,
   getPostsByDateRange,
   getPostsByStatus,
   updatePost,
   updatePostStarterText,
   updatePostImage,
-  updatePostFacebook,
-  updatePostInstagram,
+  updatePostPlatform,
+  restorePostRevision,
+  recordGenerationError,
   updatePostStatus,
   deletePost,
   deletePostsBatch,
   postExists,
   getExistingPostDates,
   changePostDate,
+  migrateDateKeyedPosts,
+  comparePostsBySchedule,
 } from './posts';
 export type { ChangeDateResult } from './posts';
 
+// Caption revision history
+export { getPostRevisions } from './revisions';
+
+// Export history
+export {
+  recordExportBatch,
+  markPostsExported,
+  getExportBatchFiles,
+  getExportBatches,
+} from './exports';
+
+// AI usage
+export { getWorkspaceUsage } from './usage';
+
 // Asset operations
 export {
   uploadAsset,
@@ -31,12 +49,36 @@ export {
   formatFileSize,
 } from './assets';
 
+// Schedule plan operations
+export { createSchedulePlan, getRecentSchedulePlans } from './plans';
+
+// Recurring content series operations
+export {
+  createContentSeries,
+  getContentSeries,
+  updateContentSeries,
+  deleteContentSeries,
+} from './series';
+
+// Workspace backup and restore
+export { createWorkspaceBackup, restoreWorkspaceBackup } from './backup';
+export type { BackupResult, RestoreSummary } from './backup';
+
 // Workspace operations
 export {
   getWorkspaceSettings,
   updateWorkspaceSettings,
   updateAISettings,
   updateSchedulingSettings,
+  updateEnabledPlatforms,
+  updateCustomObservances,
+  updateBrandProfile,
+  enableCalendarFeed,
+  disableCalendarFeed,
   updateWorkspaceName,
   ensureWorkspaceExists,
+  getMaxPostsPerDay,
+  getEnabledPlatforms,
+  getWorkspaceTimezone,
+  DEFAULT_MAX_POSTS_PER_DAY,
 } from './workspace';
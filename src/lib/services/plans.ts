@@ -0,0 +1,46 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  query,
+  orderBy,
+  limit,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFirebaseDb } from '@/lib/firebase';
+import type { SchedulePlan } from '@/types';
+
+// Get reference to plans collection for a workspace
+function getPlansCollection(workspaceId: string) {
+  const db = getFirebaseDb();
+  return collection(db, 'workspaces', workspaceId, 'plans');
+}
+
+// Record an applied schedule so the same seed and inputs can be reused
+export async function createSchedulePlan(
+  workspaceId: string,
+  data: Omit<SchedulePlan, 'id' | 'createdAt'>
+): Promise<SchedulePlan> {
+  const planRef = doc(getPlansCollection(workspaceId));
+
+  const plan: SchedulePlan = {
+    ...data,
+    id: planRef.id,
+    createdAt: Timestamp.now(),
+  };
+
+  await setDoc(planRef, plan);
+  return plan;
+}
+
+// Get the most recently applied plans, newest first
+export async function getRecentSchedulePlans(
+  workspaceId: string,
+  count: number = 5
+): Promise<SchedulePlan[]> {
+  const q = query(getPlansCollection(workspaceId), orderBy('createdAt', 'desc'), limit(count));
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs.map((doc) => doc.data() as SchedulePlan);
+}
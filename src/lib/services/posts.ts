@@ -11,9 +11,14 @@ import {
   orderBy,
   Timestamp,
   writeBatch,
+  type QueryDocumentSnapshot,
+  type DocumentData,
 } from 'firebase/firestore';
 import { getFirebaseDb } from '@/lib/firebase';
-import type { Post } from '@/types';
+import { PLATFORM_IDS, getPlatform, getPostPlatforms } from '@/lib/platforms';
+import { DEFAULT_TIMEZONE, getTodayInTimezone } from '@/lib/timezone';
+import { deletePostRevisions, queuePostRevisions } from './revisions';
+import type { PlatformId, PlatformPost, PlatformPosts, Post, PostRevision } from '@/types';
 
 /**
  * Validate a date string format (YYYY-MM-DD)
@@ -32,6 +37,13 @@ function isValidWorkspaceId(id: unknown): id is string {
   return typeof id === 'string' && id.length > 0;
 }
 
+/**
+ * Validate a post document ID
+ */
+function isValidPostId(id: unknown): id is string {
+  return typeof id === 'string' && id.length > 0 && !id.includes('/');
+}
+
 /**
  * Sanitize an object for Firestore by removing undefined values.
  * Firestore does not accept undefined - use null for missing optional fields.
@@ -55,6 +67,14 @@ function sanitizeForFirestore<T extends Record<string, unknown>>(obj: T): T {
   return result as T;
 }
 
+/**
+ * Map a Firestore snapshot to a Post. The document ID is authoritative so
+ * legacy date-keyed documents (which have no `id` field) still read correctly.
+ */
+export function postFromSnapshot(snapshot: QueryDocumentSnapshot<DocumentData>): Post {
+  return { ...(snapshot.data() as Post), id: snapshot.id };
+}
+
 // Get reference to posts collection for a workspace
 function getPostsCollection(workspaceId: string) {
   if (!isValidWorkspaceId(workspaceId)) {
@@ -65,40 +85,86 @@ function getPostsCollection(workspaceId: string) {
 }
 
 // Get reference to a specific post document
-function getPostDoc(workspaceId: string, date: string) {
+function getPostDoc(workspaceId: string, postId: string) {
   if (!isValidWorkspaceId(workspaceId)) {
     throw new Error('Invalid workspaceId: must be a non-empty string');
   }
-  if (!isValidDateString(date)) {
-    throw new Error(`Invalid date: "${date}" - must be a string in YYYY-MM-DD format`);
+  if (!isValidPostId(postId)) {
+    throw new Error(`Invalid post ID: "${postId}"`);
   }
   const db = getFirebaseDb();
-  return doc(db, 'workspaces', workspaceId, 'posts', date);
+  return doc(db, 'workspaces', workspaceId, 'posts', postId);
+}
+
+// Get a reference for a new post document with an auto-generated ID
+function getNewPostDoc(workspaceId: string) {
+  return doc(getPostsCollection(workspaceId));
+}
+
+// Copy only registered platform blocks from input data
+function pickPlatformPosts(data: PlatformPosts): PlatformPosts {
+  const blocks: PlatformPosts = {};
+  for (const platform of PLATFORM_IDS) {
+    if (data[platform]) blocks[platform] = data[platform];
+  }
+  return blocks;
+}
+
+// Platform blocks whose caption, hashtags or time differ from the current post
+function pickChangedPlatformPosts(data: PlatformPosts, current: PlatformPosts): PlatformPosts {
+  const changed: PlatformPosts = {};
+  for (const platform of PLATFORM_IDS) {
+    const content = data[platform];
+    if (!content) continue;
+    const previous = current[platform];
+    if (
+      !previous ||
+      previous.caption !== content.caption ||
+      previous.scheduledTime !== content.scheduledTime ||
+      previous.hashtags.join(' ') !== content.hashtags.join(' ')
+    ) {
+      changed[platform] = content;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Order posts by date, then by their earliest scheduled time
+ */
+export function comparePostsBySchedule(a: Post, b: Post): number {
+  const byDate = a.date.localeCompare(b.date);
+  if (byDate !== 0) return byDate;
+
+  const earliest = (post: Post) =>
+    PLATFORM_IDS.map((platform) => post[platform]?.scheduledTime)
+      .filter((time): time is string => !!time)
+      .sort()[0] || '99:99';
+
+  return earliest(a).localeCompare(earliest(b));
 }
 
 // Create a new post
 export async function createPost(
   workspaceId: string,
-  data: {
+  data: PlatformPosts & {
     date: string;
     starterText?: string;
     imageUrl?: string;
-    facebook?: Post['facebook'];
-    instagram?: Post['instagram'];
   }
 ): Promise<Post> {
   if (!isValidDateString(data.date)) {
     throw new Error(`Cannot create post: invalid date "${data.date}"`);
   }
 
-  const postRef = getPostDoc(workspaceId, data.date);
+  const postRef = getNewPostDoc(workspaceId);
 
   const post = sanitizeForFirestore({
+    id: postRef.id,
     date: data.date,
     starterText: data.starterText || '',
     imageUrl: data.imageUrl,
-    facebook: data.facebook,
-    instagram: data.instagram,
+    ...pickPlatformPosts(data),
     status: 'draft' as const,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
@@ -111,12 +177,12 @@ export async function createPost(
 // Create multiple posts in a batch
 export async function createPostsBatch(
   workspaceId: string,
-  posts: Array<{
+  posts: Array<PlatformPosts & {
     date: string;
     starterText?: string;
+    imageAssetId?: string;
     imageUrl?: string;
-    facebook?: Post['facebook'];
-    instagram?: Post['instagram'];
+    seriesId?: string;
   }>
 ): Promise<Post[]> {
   if (!isValidWorkspaceId(workspaceId)) {
@@ -147,13 +213,15 @@ export async function createPostsBatch(
   const createdPosts: Post[] = [];
 
   for (const data of posts) {
-    const postRef = getPostDoc(workspaceId, data.date);
+    const postRef = getNewPostDoc(workspaceId);
     const post = sanitizeForFirestore({
+      id: postRef.id,
       date: data.date,
       starterText: data.starterText || '',
+      imageAssetId: data.imageAssetId,
       imageUrl: data.imageUrl,
-      facebook: data.facebook,
-      instagram: data.instagram,
+      seriesId: data.seriesId,
+      ...pickPlatformPosts(data),
       status: 'draft' as const,
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
@@ -166,16 +234,16 @@ export async function createPostsBatch(
   return createdPosts;
 }
 
-// Get a single post by date
-export async function getPost(workspaceId: string, date: string): Promise<Post | null> {
-  const postRef = getPostDoc(workspaceId, date);
+// Get a single post by ID
+export async function getPost(workspaceId: string, postId: string): Promise<Post | null> {
+  const postRef = getPostDoc(workspaceId, postId);
   const snapshot = await getDoc(postRef);
 
   if (!snapshot.exists()) {
     return null;
   }
 
-  return snapshot.data() as Post;
+  return { ...(snapshot.data() as Post), id: snapshot.id };
 }
 
 // Get all posts for a workspace
@@ -184,7 +252,19 @@ export async function getPosts(workspaceId: string): Promise<Post[]> {
   const q = query(postsRef, orderBy('date', 'asc'));
   const snapshot = await getDocs(q);
 
-  return snapshot.docs.map((doc) => doc.data() as Post);
+  return snapshot.docs.map(postFromSnapshot);
+}
+
+// Get all posts scheduled on a single date
+export async function getPostsByDate(workspaceId: string, date: string): Promise<Post[]> {
+  if (!isValidDateString(date)) {
+    throw new Error(`Invalid date: "${date}" - must be a string in YYYY-MM-DD format`);
+  }
+  const postsRef = getPostsCollection(workspaceId);
+  const q = query(postsRef, where('date', '==', date));
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs.map(postFromSnapshot);
 }
 
 // Get posts within a date range
@@ -202,7 +282,7 @@ export async function getPostsByDateRange(
   );
   const snapshot = await getDocs(q);
 
-  return snapshot.docs.map((doc) => doc.data() as Post);
+  return snapshot.docs.map(postFromSnapshot);
 }
 
 // Get posts by status
@@ -218,103 +298,167 @@ export async function getPostsByStatus(
   );
   const snapshot = await getDocs(q);
 
-  return snapshot.docs.map((doc) => doc.data() as Post);
+  return snapshot.docs.map(postFromSnapshot);
 }
 
-// Update a post
+/**
+ * Update a post. Each platform block whose caption, hashtags or time changed
+ * is also saved as a revision; updates carrying `aiMeta` (caption generation)
+ * are recorded as AI changes.
+ */
 export async function updatePost(
   workspaceId: string,
-  date: string,
-  data: Partial<Omit<Post, 'date' | 'createdAt'>>
+  postId: string,
+  data: Partial<Omit<Post, 'id' | 'date' | 'createdAt'>>
 ): Promise<void> {
-  const postRef = getPostDoc(workspaceId, date);
+  const postRef = getPostDoc(workspaceId, postId);
   const sanitizedData = sanitizeForFirestore({
     ...data,
     updatedAt: Timestamp.now(),
   });
-  await updateDoc(postRef, sanitizedData);
+
+  // Autosaves resend unchanged blocks; only real changes go into the history
+  let changed = pickPlatformPosts(data);
+  if (Object.keys(changed).length > 0) {
+    const snapshot = await getDoc(postRef);
+    if (snapshot.exists()) changed = pickChangedPlatformPosts(changed, snapshot.data() as Post);
+  }
+
+  const batch = writeBatch(getFirebaseDb());
+  batch.update(postRef, sanitizedData);
+  queuePostRevisions(batch, workspaceId, postId, changed, data.aiMeta ? 'ai' : 'manual');
+  await batch.commit();
 }
 
 // Update post's starter text
 export async function updatePostStarterText(
   workspaceId: string,
-  date: string,
+  postId: string,
   starterText: string
 ): Promise<void> {
-  await updatePost(workspaceId, date, { starterText });
+  await updatePost(workspaceId, postId, { starterText });
 }
 
 // Update post's image
 export async function updatePostImage(
   workspaceId: string,
-  date: string,
+  postId: string,
   imageAssetId?: string,
   imageUrl?: string
 ): Promise<void> {
-  await updatePost(workspaceId, date, { imageAssetId, imageUrl });
+  await updatePost(workspaceId, postId, { imageAssetId, imageUrl });
 }
 
-// Update post's Facebook content
-export async function updatePostFacebook(
+// Update one platform's content on a post
+export async function updatePostPlatform(
   workspaceId: string,
-  date: string,
-  facebook: Post['facebook']
+  postId: string,
+  platform: PlatformId,
+  content: PlatformPost
 ): Promise<void> {
-  await updatePost(workspaceId, date, { facebook });
+  await updatePost(workspaceId, postId, { [platform]: content });
 }
 
-// Update post's Instagram content
-export async function updatePostInstagram(
+// Restore a platform's caption, hashtags and time from a revision (saved as a new manual revision)
+export async function restorePostRevision(
   workspaceId: string,
-  date: string,
-  instagram: Post['instagram']
+  post: Post,
+  revision: PostRevision
+): Promise<PlatformPost> {
+  const content: PlatformPost = {
+    ...post[revision.platform],
+    caption: revision.caption,
+    hashtags: revision.hashtags,
+    scheduledTime: revision.scheduledTime,
+    timeSource: revision.timeSource,
+  };
+
+  const batch = writeBatch(getFirebaseDb());
+  batch.update(
+    getPostDoc(workspaceId, post.id),
+    sanitizeForFirestore({
+      [revision.platform]: content,
+      ...(post.status === 'generated' && { status: 'edited' }),
+      updatedAt: Timestamp.now(),
+    })
+  );
+  queuePostRevisions(
+    batch,
+    workspaceId,
+    post.id,
+    { [revision.platform]: content },
+    'manual',
+    revision.id
+  );
+  await batch.commit();
+
+  return content;
+}
+
+// Record a failed caption generation on a post; existing captions are left as they are
+export async function recordGenerationError(
+  workspaceId: string,
+  postId: string,
+  error: unknown
 ): Promise<void> {
-  await updatePost(workspaceId, date, { instagram });
+  try {
+    await updatePost(workspaceId, postId, {
+      generationError: {
+        message: error instanceof Error ? error.message : 'Caption generation failed',
+        failedAt: Timestamp.now(),
+      },
+    });
+  } catch (recordError) {
+    // Best effort; the caller already reports the generation failure
+    console.error('Error recording generation failure:', recordError);
+  }
 }
 
 // Update post status
 export async function updatePostStatus(
   workspaceId: string,
-  date: string,
+  postId: string,
   status: Post['status']
 ): Promise<void> {
-  await updatePost(workspaceId, date, { status });
+  await updatePost(workspaceId, postId, { status });
 }
 
-// Delete a post
-export async function deletePost(workspaceId: string, date: string): Promise<void> {
-  const postRef = getPostDoc(workspaceId, date);
+// Delete a post and its revision history
+export async function deletePost(workspaceId: string, postId: string): Promise<void> {
+  const postRef = getPostDoc(workspaceId, postId);
   await deleteDoc(postRef);
+  await deletePostRevisions(workspaceId, postId);
 }
 
-// Delete multiple posts
-export async function deletePostsBatch(workspaceId: string, dates: string[]): Promise<void> {
+// Delete multiple posts and their revision histories
+export async function deletePostsBatch(workspaceId: string, postIds: string[]): Promise<void> {
   if (!isValidWorkspaceId(workspaceId)) {
     throw new Error('Invalid workspaceId: must be a non-empty string');
   }
 
-  const validDates = dates.filter(isValidDateString);
-  if (validDates.length === 0) {
+  const validIds = postIds.filter(isValidPostId);
+  if (validIds.length === 0) {
     return; // Nothing to delete
   }
 
   const db = getFirebaseDb();
   const batch = writeBatch(db);
 
-  for (const date of validDates) {
-    const postRef = getPostDoc(workspaceId, date);
+  for (const postId of validIds) {
+    const postRef = getPostDoc(workspaceId, postId);
     batch.delete(postRef);
   }
 
   await batch.commit();
+  await Promise.all(validIds.map((postId) => deletePostRevisions(workspaceId, postId)));
 }
 
 // Check if a post exists
-export async function postExists(workspaceId: string, date: string): Promise<boolean> {
-  if (!isValidDateString(date)) {
+export async function postExists(workspaceId: string, postId: string): Promise<boolean> {
+  if (!isValidPostId(postId)) {
     return false;
   }
-  const postRef = getPostDoc(workspaceId, date);
+  const postRef = getPostDoc(workspaceId, postId);
   const snapshot = await getDoc(postRef);
   return snapshot.exists();
 }
@@ -327,71 +471,53 @@ export interface ChangeDateResult {
 
 export async function changePostDate(
   workspaceId: string,
-  oldDate: string,
-  newDate: string
+  postId: string,
+  newDate: string,
+  maxPostsPerDay: number = 1,
+  timezone: string = DEFAULT_TIMEZONE
 ): Promise<ChangeDateResult> {
   if (!isValidWorkspaceId(workspaceId)) {
     return { success: false, error: 'Invalid workspace' };
   }
-  if (!isValidDateString(oldDate) || !isValidDateString(newDate)) {
-    return { success: false, error: 'Invalid date format' };
+  if (!isValidPostId(postId)) {
+    return { success: false, error: 'Invalid post' };
   }
-  if (oldDate === newDate) {
-    return { success: true }; // No change needed
+  if (!isValidDateString(newDate)) {
+    return { success: false, error: 'Invalid date format' };
   }
 
-  // Validate new date is not in the past
-  const today = new Date().toISOString().split('T')[0];
-  if (newDate < today) {
+  // Validate new date is not in the past (in the workspace timezone)
+  if (newDate < getTodayInTimezone(timezone)) {
     return { success: false, error: 'Cannot schedule posts in the past' };
   }
 
   // Get the existing post
-  const existingPost = await getPost(workspaceId, oldDate);
+  const existingPost = await getPost(workspaceId, postId);
   if (!existingPost) {
     return { success: false, error: 'Post not found' };
   }
-
-  // Check for platform conflicts on the target date
-  const targetPost = await getPost(workspaceId, newDate);
-  if (targetPost) {
-    // Check if there's a platform conflict
-    const sourceHasFacebook = !!existingPost.facebook;
-    const sourceHasInstagram = !!existingPost.instagram;
-    const targetHasFacebook = !!targetPost.facebook;
-    const targetHasInstagram = !!targetPost.instagram;
-
-    if (sourceHasFacebook && targetHasFacebook) {
-      return { success: false, error: 'Target date already has a Facebook post' };
-    }
-    if (sourceHasInstagram && targetHasInstagram) {
-      return { success: false, error: 'Target date already has an Instagram post' };
-    }
-
-    // If there's a post on the target date but no platform conflict,
-    // we still can't move because each date can only have one post document
-    return { success: false, error: 'Target date already has a post' };
+  if (existingPost.date === newDate) {
+    return { success: true }; // No change needed
   }
 
-  // Perform the move: create new document, delete old one
-  const db = getFirebaseDb();
-  const batch = writeBatch(db);
-
-  const newPostRef = getPostDoc(workspaceId, newDate);
-  const oldPostRef = getPostDoc(workspaceId, oldDate);
-
-  // Create new post with updated date
-  const newPost = sanitizeForFirestore({
-    ...existingPost,
-    date: newDate,
-    updatedAt: Timestamp.now(),
-  });
+  // Check per-platform capacity on the target date
+  const targetPosts = await getPostsByDate(workspaceId, newDate);
 
-  batch.set(newPostRef, newPost);
-  batch.delete(oldPostRef);
+  for (const platform of getPostPlatforms(existingPost)) {
+    const count = targetPosts.filter((p) => getPostPlatforms(p).includes(platform)).length;
+    if (count >= maxPostsPerDay) {
+      return {
+        success: false,
+        error: `Target date already has ${count} ${getPlatform(platform).label} post${count !== 1 ? 's' : ''}`,
+      };
+    }
+  }
 
   try {
-    await batch.commit();
+    await updateDoc(getPostDoc(workspaceId, postId), {
+      date: newDate,
+      updatedAt: Timestamp.now(),
+    });
     return { success: true };
   } catch (error) {
     console.error('Error changing post date:', error);
@@ -408,3 +534,43 @@ export async function getExistingPostDates(
   const posts = await getPostsByDateRange(workspaceId, startDate, endDate);
   return new Set(posts.map((post) => post.date));
 }
+
+/**
+ * One-time migration from date-keyed documents (`posts/{date}`) to
+ * auto-generated IDs. Each legacy document is copied to a new ID and the
+ * original deleted. Returns the number of posts migrated.
+ */
+export async function migrateDateKeyedPosts(workspaceId: string): Promise<number> {
+  const postsRef = getPostsCollection(workspaceId);
+  const snapshot = await getDocs(postsRef);
+
+  const legacyDocs = snapshot.docs.filter(
+    (docSnap) => isValidDateString(docSnap.id) && !docSnap.data().id
+  );
+
+  if (legacyDocs.length === 0) {
+    return 0;
+  }
+
+  const db = getFirebaseDb();
+
+  // Each migrated post is two writes; stay well under the 500-write batch limit
+  const chunkSize = 200;
+  for (let i = 0; i < legacyDocs.length; i += chunkSize) {
+    const batch = writeBatch(db);
+
+    for (const docSnap of legacyDocs.slice(i, i + chunkSize)) {
+      const newRef = getNewPostDoc(workspaceId);
+      batch.set(newRef, {
+        ...docSnap.data(),
+        id: newRef.id,
+        date: docSnap.data().date || docSnap.id,
+      });
+      batch.delete(docSnap.ref);
+    }
+
+    await batch.commit();
+  }
+
+  return legacyDocs.length;
+}
@@ -0,0 +1,95 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  writeBatch,
+  type WriteBatch,
+} from 'firebase/firestore';
+import { getFirebaseAuth, getFirebaseDb } from '@/lib/firebase';
+import { PLATFORM_IDS } from '@/lib/platforms';
+import type { PlatformId, PlatformPosts, PostRevision, RevisionSource } from '@/types';
+
+// Revisions loaded for a post's history (per platform when one is given)
+const MAX_REVISIONS = 100;
+
+// Get reference to the revisions collection for a post
+function getRevisionsCollection(workspaceId: string, postId: string) {
+  const db = getFirebaseDb();
+  return collection(db, 'workspaces', workspaceId, 'posts', postId, 'revisions');
+}
+
+// Queue a revision for each platform block in a post update onto a batch
+export function queuePostRevisions(
+  batch: WriteBatch,
+  workspaceId: string,
+  postId: string,
+  data: PlatformPosts,
+  source: RevisionSource,
+  restoredFrom?: string
+): void {
+  // The workspace belongs to the signed-in user; fall back to it outside a session
+  const user = getFirebaseAuth().currentUser;
+  const authorName = user?.displayName || user?.email;
+
+  for (const platform of PLATFORM_IDS) {
+    const content = data[platform];
+    if (!content) continue;
+
+    const revisionRef = doc(getRevisionsCollection(workspaceId, postId));
+    const revision: PostRevision = {
+      id: revisionRef.id,
+      platform,
+      caption: content.caption,
+      hashtags: content.hashtags,
+      scheduledTime: content.scheduledTime,
+      timeSource: content.timeSource,
+      source,
+      authorId: user?.uid || workspaceId,
+      createdAt: Timestamp.now(),
+    };
+    // Firestore rejects undefined fields
+    if (authorName) revision.authorName = authorName;
+    if (restoredFrom) revision.restoredFrom = restoredFrom;
+
+    batch.set(revisionRef, revision);
+  }
+}
+
+// Get a post's revisions, newest first, optionally for one platform
+export async function getPostRevisions(
+  workspaceId: string,
+  postId: string,
+  platform?: PlatformId
+): Promise<PostRevision[]> {
+  // Filtering by platform uses the composite index in firebase/firestore.indexes.json
+  const q = query(
+    getRevisionsCollection(workspaceId, postId),
+    ...(platform ? [where('platform', '==', platform)] : []),
+    orderBy('createdAt', 'desc'),
+    limit(MAX_REVISIONS)
+  );
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs.map((doc) => doc.data() as PostRevision);
+}
+
+// Delete a post's revision history (subcollections outlive their parent document)
+export async function deletePostRevisions(workspaceId: string, postId: string): Promise<void> {
+  const snapshot = await getDocs(getRevisionsCollection(workspaceId, postId));
+  const db = getFirebaseDb();
+
+  // Stay under the 500-write batch limit
+  const chunkSize = 400;
+  for (let i = 0; i < snapshot.docs.length; i += chunkSize) {
+    const batch = writeBatch(db);
+    for (const revisionDoc of snapshot.docs.slice(i, i + chunkSize)) {
+      batch.delete(revisionDoc.ref);
+    }
+    await batch.commit();
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFirebaseDb } from '@/lib/firebase';
+import type { ContentSeries } from '@/types';
+
+// Get reference to content series collection for a workspace
+function getSeriesCollection(workspaceId: string) {
+  const db = getFirebaseDb();
+  return collection(db, 'workspaces', workspaceId, 'series');
+}
+
+// Create a recurring content series
+export async function createContentSeries(
+  workspaceId: string,
+  data: Omit<ContentSeries, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<ContentSeries> {
+  const seriesRef = doc(getSeriesCollection(workspaceId));
+
+  const series: ContentSeries = {
+    ...data,
+    id: seriesRef.id,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  // Firestore rejects undefined fields
+  if (!series.imageAssetId) delete series.imageAssetId;
+  if (!series.imageUrl) delete series.imageUrl;
+  if (!series.endDate) delete series.endDate;
+
+  await setDoc(seriesRef, series);
+  return series;
+}
+
+// Get all content series, oldest first (earlier series win date conflicts)
+export async function getContentSeries(workspaceId: string): Promise<ContentSeries[]> {
+  const q = query(getSeriesCollection(workspaceId), orderBy('createdAt', 'asc'));
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs.map((doc) => doc.data() as ContentSeries);
+}
+
+// Update a content series
+export async function updateContentSeries(
+  workspaceId: string,
+  seriesId: string,
+  updates: Partial<Omit<ContentSeries, 'id' | 'createdAt'>>
+): Promise<void> {
+  const seriesRef = doc(getSeriesCollection(workspaceId), seriesId);
+  await updateDoc(seriesRef, {
+    ...updates,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// Delete a content series (posts already created for it are kept)
+export async function deleteContentSeries(workspaceId: string, seriesId: string): Promise<void> {
+  const seriesRef = doc(getSeriesCollection(workspaceId), seriesId);
+  await deleteDoc(seriesRef);
+}
@@ -0,0 +1,14 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { getUsageMonth } from '@/lib/aiPricing';
+import { getFirebaseDb } from '@/lib/firebase';
+import type { WorkspaceUsage } from '@/types';
+
+// Get a workspace's AI usage for a month (YYYY-MM), or null before its first generation
+export async function getWorkspaceUsage(
+  workspaceId: string,
+  month: string = getUsageMonth()
+): Promise<WorkspaceUsage | null> {
+  const db = getFirebaseDb();
+  const snapshot = await getDoc(doc(db, 'workspaces', workspaceId, 'usage', month));
+  return snapshot.exists() ? (snapshot.data() as WorkspaceUsage) : null;
+}
@@ -1,11 +1,27 @@
 import {
   doc,
   getDoc,
+  runTransaction,
   setDoc,
   updateDoc,
+  deleteField,
+  Timestamp,
 } from 'firebase/firestore';
 import { getFirebaseDb } from '@/lib/firebase';
-import type { WorkspaceSettings } from '@/types';
+import { normalizeBrandProfile } from '@/lib/brandProfile';
+import { DEFAULT_ENABLED_PLATFORMS, PLATFORM_IDS } from '@/lib/platforms';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/lib/timezone';
+import { DEFAULT_MAX_POSTS_PER_DAY } from '@/lib/workspaceSettings';
+import { migrateDateKeyedPosts } from './posts';
+import type { BrandProfile, Observance, PlatformId, WorkspaceSettings } from '@/types';
+
+// Settings readers live in a pure module so server routes can use them too
+export {
+  DEFAULT_MAX_POSTS_PER_DAY,
+  getEnabledPlatforms,
+  getMaxPostsPerDay,
+  getWorkspaceTimezone,
+} from '@/lib/workspaceSettings';
 
 // Default workspace settings
 const defaultSettings: WorkspaceSettings = {
@@ -17,11 +33,22 @@ const defaultSettings: WorkspaceSettings = {
       emojiStyle: 'medium',
     },
     scheduling: {
-      timezone: 'America/Denver',
+      timezone: DEFAULT_TIMEZONE,
+      maxPostsPerDay: DEFAULT_MAX_POSTS_PER_DAY,
     },
+    enabledPlatforms: DEFAULT_ENABLED_PLATFORMS,
+  },
+  migrations: {
+    postIds: true,
   },
 };
 
+// How long a migration claim blocks other clients before it's treated as abandoned
+const MIGRATION_CLAIM_MS = 5 * 60 * 1000;
+
+// Migrations already running in this tab, keyed by workspace
+const migrationsInFlight = new Map<string, Promise<void>>();
+
 // Get reference to workspace document
 function getWorkspaceDoc(workspaceId: string) {
   const db = getFirebaseDb();
@@ -61,11 +88,13 @@ export async function updateAISettings(
   const workspaceRef = getWorkspaceDoc(workspaceId);
   const current = await getWorkspaceSettings(workspaceId);
 
+  const ai = { ...current.settings.ai, ...aiSettings };
+  // Unset provider/model mean "use the server default"; Firestore rejects undefined
+  if (!ai.provider) delete ai.provider;
+  if (!ai.model) delete ai.model;
+
   await updateDoc(workspaceRef, {
-    'settings.ai': {
-      ...current.settings.ai,
-      ...aiSettings,
-    },
+    'settings.ai': ai,
   });
 }
 
@@ -74,6 +103,10 @@ export async function updateSchedulingSettings(
   workspaceId: string,
   schedulingSettings: Partial<WorkspaceSettings['settings']['scheduling']>
 ): Promise<void> {
+  if (schedulingSettings.timezone !== undefined && !isValidTimezone(schedulingSettings.timezone)) {
+    throw new Error(`Unknown timezone: ${schedulingSettings.timezone}`);
+  }
+
   const workspaceRef = getWorkspaceDoc(workspaceId);
   const current = await getWorkspaceSettings(workspaceId);
 
@@ -85,6 +118,61 @@ export async function updateSchedulingSettings(
   });
 }
 
+// Update which platforms the workspace publishes to
+export async function updateEnabledPlatforms(
+  workspaceId: string,
+  platforms: PlatformId[]
+): Promise<void> {
+  if (platforms.length === 0) {
+    throw new Error('At least one platform must be enabled');
+  }
+
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  await updateDoc(workspaceRef, {
+    'settings.enabledPlatforms': PLATFORM_IDS.filter((id) => platforms.includes(id)),
+  });
+}
+
+// Replace the workspace's own observances (added to the bundled holidays)
+export async function updateCustomObservances(
+  workspaceId: string,
+  observances: Observance[]
+): Promise<void> {
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  await updateDoc(workspaceRef, {
+    'settings.customObservances': observances,
+  });
+}
+
+// Replace the workspace's brand profile
+export async function updateBrandProfile(
+  workspaceId: string,
+  profile: BrandProfile
+): Promise<void> {
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  await updateDoc(workspaceRef, {
+    'settings.brand': normalizeBrandProfile(profile),
+  });
+}
+
+// Turn on the calendar subscription feed with a new secret token (old links stop working)
+export async function enableCalendarFeed(workspaceId: string): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  await updateDoc(workspaceRef, {
+    calendarFeed: { token, createdAt: Timestamp.now() },
+  });
+  return token;
+}
+
+// Turn off the calendar subscription feed
+export async function disableCalendarFeed(workspaceId: string): Promise<void> {
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  await updateDoc(workspaceRef, { calendarFeed: deleteField() });
+}
+
 // Update workspace name
 export async function updateWorkspaceName(
   workspaceId: string,
@@ -101,5 +189,52 @@ export async function ensureWorkspaceExists(workspaceId: string): Promise<void>
 
   if (!snapshot.exists()) {
     await setDoc(workspaceRef, defaultSettings);
+    return;
+  }
+
+  const data = snapshot.data() as WorkspaceSettings;
+  if (!data.migrations?.postIds) {
+    await runPostIdMigration(workspaceId);
+  }
+}
+
+// Claim the post ID migration on the workspace doc, so only one tab or device
+// copies the legacy posts. Returns false when it's done or claimed elsewhere.
+async function claimPostIdMigration(workspaceId: string): Promise<boolean> {
+  const workspaceRef = getWorkspaceDoc(workspaceId);
+  return runTransaction(getFirebaseDb(), async (transaction) => {
+    const snapshot = await transaction.get(workspaceRef);
+    const migrations = (snapshot.data() as WorkspaceSettings | undefined)?.migrations;
+    if (migrations?.postIds) return false;
+
+    const claimedAt = migrations?.postIdsClaimedAt;
+    if (claimedAt && Date.now() - claimedAt.toMillis() < MIGRATION_CLAIM_MS) return false;
+
+    transaction.update(workspaceRef, { 'migrations.postIdsClaimedAt': Timestamp.now() });
+    return true;
+  });
+}
+
+// Move legacy date-keyed posts to generated IDs, once per workspace
+async function runPostIdMigration(workspaceId: string): Promise<void> {
+  const inFlight = migrationsInFlight.get(workspaceId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const migration = (async () => {
+    if (!(await claimPostIdMigration(workspaceId))) return;
+    await migrateDateKeyedPosts(workspaceId);
+    await updateDoc(getWorkspaceDoc(workspaceId), {
+      'migrations.postIds': true,
+      'migrations.postIdsClaimedAt': deleteField(),
+    });
+  })();
+
+  migrationsInFlight.set(workspaceId, migration);
+  try {
+    await migration;
+  } finally {
+    migrationsInFlight.delete(workspaceId);
   }
 }
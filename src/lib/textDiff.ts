@@ -0,0 +1,83 @@
+/**
+ * Word-level text diff for caption revision history
+ *
+ * Uses a longest-common-subsequence table over words and whitespace, which is
+ * plenty for captions. Very long texts fall back to a whole-text replacement
+ * rather than building a huge table.
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many table cells, show the change as a full replacement
+const MAX_TABLE_SIZE = 250_000;
+
+/**
+ * Split text into words and the whitespace between them
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+/**
+ * Append a segment, merging it into the previous one when the type matches
+ */
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff two texts word by word, in reading order
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_SIZE) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,148 @@
+/**
+ * Timezone and calendar-date utilities
+ *
+ * Post dates are plain YYYY-MM-DD strings and times are HH:MM wall-clock
+ * times in the workspace timezone. Date-only arithmetic is done in UTC so the
+ * browser's own offset can never shift a date by a day; "now" is always
+ * resolved in the workspace timezone.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/Denver';
+
+/**
+ * Check whether a string is an IANA timezone the runtime understands
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a YYYY-MM-DD string into a Date at UTC midnight
+ */
+export function parseDateKey(date: string): Date {
+  return new Date(date + 'T00:00:00Z');
+}
+
+/**
+ * Format a Date created by parseDateKey (or Date.UTC) as YYYY-MM-DD
+ */
+export function formatDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Add (or subtract) whole days from a YYYY-MM-DD string
+ */
+export function addDays(date: string, days: number): string {
+  const result = parseDateKey(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDateKey(result);
+}
+
+/**
+ * Day of week for a YYYY-MM-DD string (0 = Sunday, 6 = Saturday)
+ */
+export function getDayOfWeek(date: string): number {
+  return parseDateKey(date).getUTCDay();
+}
+
+/**
+ * Read the wall-clock date and time parts of an instant in a timezone
+ */
+function getZonedParts(instant: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ */
+export function getTimezoneOffsetMinutes(instant: Date, timezone: string): number {
+  const p = getZonedParts(instant, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone
+ */
+export function getTodayInTimezone(timezone: string, now: Date = new Date()): string {
+  const p = getZonedParts(now, timezone);
+  return formatDateKey(new Date(Date.UTC(p.year, p.month - 1, p.day)));
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to the UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Re-check the offset at the corrected instant so DST boundaries resolve
+  const offset = getTimezoneOffsetMinutes(new Date(guess), timezone);
+  const corrected = guess - offset * 60000;
+  const correctedOffset = getTimezoneOffsetMinutes(new Date(corrected), timezone);
+  const result = new Date(guess - correctedOffset * 60000);
+
+  // Times skipped by a DST jump don't exist; move them forward like clocks do
+  const p = getZonedParts(result, timezone);
+  if (p.hour !== hours || p.minute !== minutes) {
+    return new Date(corrected);
+  }
+  return result;
+}
+
+/**
+ * Convert a wall-clock date and time from one timezone to another
+ */
+export function convertDateTime(
+  date: string,
+  time: string,
+  fromTimezone: string,
+  toTimezone: string
+): { date: string; time: string } {
+  if (fromTimezone === toTimezone) return { date, time };
+
+  const p = getZonedParts(zonedTimeToUtc(date, time, fromTimezone), toTimezone);
+  return {
+    date: formatDateKey(new Date(Date.UTC(p.year, p.month - 1, p.day))),
+    time: `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Short display name for a timezone, e.g. "MST" or "GMT+1"
+ */
+export function getTimezoneAbbreviation(timezone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    timeZoneName: 'short',
+  }).formatToParts(at);
+  return parts.find((part) => part.type === 'timeZoneName')?.value || timezone;
+}
@@ -0,0 +1,329 @@
+/**
+ * Workspace backup archive
+ *
+ * A backup is one versioned JSON file holding the workspace settings, posts,
+ * asset records (optionally with the image bytes), content series and
+ * schedule plans. Firestore timestamps are stored as `{ $timestamp: ISO }`.
+ * Restoring validates the archive, then keeps each post on its date unless
+ * one of its platforms is already at the daily limit there; those posts can
+ * be moved to the next open date with room instead.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { buildOccupiedDates } from './csvScheduler';
+import { PLATFORM_IDS, getPlatform, getPostPlatforms } from './platforms';
+import { getBlackoutReason, type SchedulingPreferences } from './scheduling';
+import { addDays } from './timezone';
+import type {
+  Asset,
+  ContentSeries,
+  PlatformId,
+  Post,
+  SchedulePlan,
+  WorkspaceSettings,
+} from '@/types';
+
+export const BACKUP_FORMAT = 'the-social-studio/workspace-backup';
+export const BACKUP_VERSION = 1;
+
+// How many validation errors are reported before giving up
+const MAX_ERRORS = 20;
+
+// How far past its own date a left-out post may be moved
+const MAX_MOVE_DAYS = 365;
+
+/** A Firestore document with its timestamps as ISO strings */
+export type Serialized<T> = T extends Timestamp
+  ? { $timestamp: string }
+  : T extends Array<infer U>
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export interface BackupAsset extends Serialized<Asset> {
+  data?: string; // Base64 image bytes, when the backup includes images
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO
+  sourceWorkspaceId: string;
+  workspace: {
+    name: string;
+    settings: Serialized<WorkspaceSettings['settings']>;
+  };
+  posts: Serialized<Post>[];
+  assets: BackupAsset[];
+  series: Serialized<ContentSeries>[];
+  plans: Serialized<SchedulePlan>[];
+}
+
+export type BackupParseResult =
+  | { ok: true; archive: BackupArchive }
+  | { ok: false; errors: string[] };
+
+export interface BackupConflict {
+  post: Serialized<Post>;
+  reason: string;
+  openDate: string | null; // Next open date with room for all its platforms, if any within a year
+}
+
+export interface RestorePlan {
+  posts: Serialized<Post>[]; // Kept on their dates
+  conflicts: BackupConflict[]; // Left out unless moved to their open date
+}
+
+/**
+ * Replace Firestore timestamps (at any depth) with `{ $timestamp }` markers
+ */
+export function serializeTimestamps<T>(value: T): Serialized<T> {
+  if (value instanceof Timestamp) {
+    return { $timestamp: value.toDate().toISOString() } as Serialized<T>;
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeTimestamps) as Serialized<T>;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeTimestamps(item)])
+    ) as Serialized<T>;
+  }
+  return value as Serialized<T>;
+}
+
+/**
+ * Turn `{ $timestamp }` markers back into Firestore timestamps
+ */
+export function deserializeTimestamps<T>(value: Serialized<T>): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => deserializeTimestamps(item)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$timestamp === 'string' && Object.keys(record).length === 1) {
+      return Timestamp.fromDate(new Date(record.$timestamp)) as T;
+    }
+    return Object.fromEntries(
+      Object.entries(record).map(([key, item]) => [key, deserializeTimestamps(item as never)])
+    ) as T;
+  }
+  return value as T;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isDateKey = (value: unknown) => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isTime = (value: unknown) => isString(value) && /^\d{2}:\d{2}$/.test(value);
+const isDocId = (value: unknown) => isString(value) && value.length > 0 && !value.includes('/');
+
+function validatePost(post: unknown, path: string, fail: (message: string) => void): void {
+  if (!isRecord(post)) return fail(`${path}: expected an object`);
+  if (!isDocId(post.id)) fail(`${path}.id: expected a document ID`);
+  if (!isDateKey(post.date)) fail(`${path}.date: expected YYYY-MM-DD`);
+  if (!isString(post.starterText)) fail(`${path}.starterText: expected text`);
+  if (!['draft', 'generated', 'edited', 'exported'].includes(post.status as string)) {
+    fail(`${path}.status: unknown status "${String(post.status)}"`);
+  }
+  for (const platform of PLATFORM_IDS) {
+    const block = post[platform];
+    if (block === undefined) continue;
+    if (!isRecord(block)) {
+      fail(`${path}.${platform}: expected an object`);
+      continue;
+    }
+    if (!isString(block.caption)) fail(`${path}.${platform}.caption: expected text`);
+    if (!Array.isArray(block.hashtags) || !block.hashtags.every(isString)) {
+      fail(`${path}.${platform}.hashtags: expected a list of hashtags`);
+    }
+    if (!isTime(block.scheduledTime)) fail(`${path}.${platform}.scheduledTime: expected HH:MM`);
+    if (block.timeSource !== 'ai' && block.timeSource !== 'manual') {
+      fail(`${path}.${platform}.timeSource: expected "ai" or "manual"`);
+    }
+  }
+}
+
+function validateAsset(asset: unknown, path: string, fail: (message: string) => void): void {
+  if (!isRecord(asset)) return fail(`${path}: expected an object`);
+  if (!isDocId(asset.id)) fail(`${path}.id: expected a document ID`);
+  if (!isString(asset.storagePath)) fail(`${path}.storagePath: expected text`);
+  if (!isString(asset.fileName)) fail(`${path}.fileName: expected text`);
+  if (!isString(asset.contentType)) fail(`${path}.contentType: expected text`);
+  if (typeof asset.size !== 'number') fail(`${path}.size: expected a number`);
+  if (asset.data !== undefined && !isString(asset.data)) fail(`${path}.data: expected base64 text`);
+}
+
+function validateSeries(series: unknown, path: string, fail: (message: string) => void): void {
+  if (!isRecord(series)) return fail(`${path}: expected an object`);
+  if (!isDocId(series.id)) fail(`${path}.id: expected a document ID`);
+  if (!isString(series.name)) fail(`${path}.name: expected text`);
+  if (!isRecord(series.rule)) fail(`${path}.rule: expected an object`);
+  if (!isString(series.starterText)) fail(`${path}.starterText: expected text`);
+  if (!isDateKey(series.startDate)) fail(`${path}.startDate: expected YYYY-MM-DD`);
+  if (typeof series.active !== 'boolean') fail(`${path}.active: expected true or false`);
+}
+
+function validatePlan(plan: unknown, path: string, fail: (message: string) => void): void {
+  if (!isRecord(plan)) return fail(`${path}: expected an object`);
+  if (!isDocId(plan.id)) fail(`${path}.id: expected a document ID`);
+  if (typeof plan.seed !== 'number') fail(`${path}.seed: expected a number`);
+  if (!isDateKey(plan.startDate)) fail(`${path}.startDate: expected YYYY-MM-DD`);
+  if (!isDateKey(plan.endDate)) fail(`${path}.endDate: expected YYYY-MM-DD`);
+  if (typeof plan.postsPerWeek !== 'number') fail(`${path}.postsPerWeek: expected a number`);
+}
+
+/**
+ * Check parsed JSON is a backup this version can restore, listing what is
+ * wrong (with the path to each bad field) when it isn't
+ */
+export function parseBackupArchive(data: unknown): BackupParseResult {
+  const errors: string[] = [];
+  const fail = (message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(message);
+  };
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    return { ok: false, errors: ['This file is not a workspace backup'] };
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    return {
+      ok: false,
+      errors: [`Backup version ${String(data.version)} is newer than this app supports`],
+    };
+  }
+
+  if (!isString(data.sourceWorkspaceId)) fail('sourceWorkspaceId: expected text');
+  if (!isRecord(data.workspace)) {
+    fail('workspace: expected an object');
+  } else {
+    if (!isString(data.workspace.name)) fail('workspace.name: expected text');
+    const settings = data.workspace.settings;
+    if (!isRecord(settings) || !isRecord(settings.ai) || !isRecord(settings.scheduling)) {
+      fail('workspace.settings: expected AI and scheduling settings');
+    }
+  }
+
+  const collections = [
+    ['posts', validatePost],
+    ['assets', validateAsset],
+    ['series', validateSeries],
+    ['plans', validatePlan],
+  ] as const;
+  for (const [key, validate] of collections) {
+    const items = data[key];
+    if (!Array.isArray(items)) {
+      fail(`${key}: expected a list`);
+      continue;
+    }
+    const ids = new Set<unknown>();
+    items.forEach((item, index) => {
+      validate(item, `${key}[${index}]`, fail);
+      if (isRecord(item) && ids.has(item.id)) fail(`${key}[${index}].id: duplicate ID "${item.id}"`);
+      if (isRecord(item)) ids.add(item.id);
+    });
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, archive: data as unknown as BackupArchive };
+}
+
+/**
+ * Decide which backup posts can be restored. Each post stays on its own date
+ * while every platform it posts to is below the daily limit there, counting
+ * existing posts and the backup posts before it. Posts with the same ID as an
+ * existing post replace it, so don't count against it. Left-out posts get the
+ * next open date (not a blackout or closed day) their platforms have room on,
+ * assuming the ones before them move too.
+ */
+export function planBackupRestore(
+  archive: BackupArchive,
+  existingPosts: Post[],
+  maxPostsPerDay: number,
+  preferences?: SchedulingPreferences
+): RestorePlan {
+  const backupIds = new Set(archive.posts.map((post) => post.id));
+  const occupied = buildOccupiedDates(existingPosts.filter((post) => !backupIds.has(post.id)));
+
+  const fullPlatforms = (date: string, platforms: PlatformId[]) =>
+    platforms.filter((platform) => (occupied[platform].get(date) || 0) >= maxPostsPerDay);
+  const occupy = (date: string, platforms: PlatformId[]) => {
+    for (const platform of platforms) {
+      occupied[platform].set(date, (occupied[platform].get(date) || 0) + 1);
+    }
+  };
+
+  // Posts kept on their own dates restore history as it was, so blackout dates don't apply
+  const posts: Serialized<Post>[] = [];
+  const leftOut: Array<{ post: Serialized<Post>; platforms: PlatformId[]; reason: string }> = [];
+  for (const post of archive.posts) {
+    const platforms = getPostPlatforms(post);
+    const full = fullPlatforms(post.date, platforms);
+    if (full.length > 0) {
+      const labels = full.map((platform) => getPlatform(platform).label).join(' and ');
+      leftOut.push({ post, platforms, reason: `${post.date} already has ${labels} post(s)` });
+    } else {
+      occupy(post.date, platforms);
+      posts.push(post);
+    }
+  }
+
+  const conflicts = leftOut.map(({ post, platforms, reason }): BackupConflict => {
+    for (let offset = 1; offset <= MAX_MOVE_DAYS; offset++) {
+      const date = addDays(post.date, offset);
+      if (!getBlackoutReason(date, preferences) && fullPlatforms(date, platforms).length === 0) {
+        occupy(date, platforms);
+        return { post, reason, openDate: date };
+      }
+    }
+    return { post, reason, openDate: null };
+  });
+
+  return { posts, conflicts };
+}
+
+/**
+ * Posts to restore: those kept on their dates, plus the chosen left-out posts
+ * moved to their open dates
+ */
+export function getPostsToRestore(plan: RestorePlan, movedIds: Set<string>): Serialized<Post>[] {
+  const moved = plan.conflicts
+    .filter(({ post, openDate }) => openDate && movedIds.has(post.id))
+    .map(({ post, openDate }) => ({ ...post, date: openDate! }));
+  return [...plan.posts, ...moved];
+}
+
+/**
+ * Encode a file's bytes as base64
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 bytes into a file
+ */
+export function base64ToBlob(data: string, contentType: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+}
+
+/**
+ * Format the backup filename with the workspace name and date
+ */
+export function formatBackupFilename(name: string, exportedAt: Date = new Date()): string {
+  const cleanName = name.replace(/[^a-zA-Z0-9-]/g, '_');
+  return `${cleanName}_backup_${exportedAt.toISOString().split('T')[0]}.json`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Workspace settings with their defaults
+ *
+ * Pure readers over a workspace document, shared by the client services and
+ * server routes (which load the workspace through the Admin SDK).
+ */
+
+import { DEFAULT_ENABLED_PLATFORMS, PLATFORM_IDS } from '@/lib/platforms';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '@/lib/timezone';
+import type { PlatformId, WorkspaceSettings } from '@/types';
+
+// Default per-platform limit on posts scheduled for the same day
+export const DEFAULT_MAX_POSTS_PER_DAY = 1;
+
+/**
+ * Get the per-platform daily post limit, falling back to the default
+ */
+export function getMaxPostsPerDay(workspace: WorkspaceSettings | null | undefined): number {
+  return workspace?.settings?.scheduling?.maxPostsPerDay || DEFAULT_MAX_POSTS_PER_DAY;
+}
+
+/**
+ * Get the workspace timezone, falling back to the default
+ */
+export function getWorkspaceTimezone(workspace: WorkspaceSettings | null | undefined): string {
+  const timezone = workspace?.settings?.scheduling?.timezone;
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get enabled platforms in registry order, falling back to the defaults
+ */
+export function getEnabledPlatforms(workspace: WorkspaceSettings | null | undefined): PlatformId[] {
+  const enabled = workspace?.settings?.enabledPlatforms;
+  const platforms = PLATFORM_IDS.filter((id) => enabled?.includes(id));
+  return platforms.length > 0 ? platforms : DEFAULT_ENABLED_PLATFORMS;
+}
@@ -1,35 +1,181 @@
 import { Timestamp } from 'firebase/firestore';
 
-export interface Post {
+// Caption generation backends; see src/lib/aiProviders.ts
+export type AIProviderId = 'openai' | 'anthropic' | 'local' | 'stub';
+
+// Registered networks; see src/lib/platforms.ts for per-platform config
+export type PlatformId = 'facebook' | 'instagram' | 'linkedin' | 'threads' | 'googleBusiness';
+
+// Bulk upload formats; see src/lib/exporters.ts for each tool's CSV layout
+export type ExporterId = 'buffer' | 'hootsuite' | 'later' | 'sproutSocial' | 'metaBusinessSuite';
+
+// A posting window within a day
+export interface TimeWindow {
+  start: number; // Hours in 24hr format (e.g., 11.5 = 11:30 AM)
+  end: number;
+}
+
+// Posting windows per day of week (0 = Sunday, ..., 6 = Saturday)
+export type WeeklyWindows = Record<number, TimeWindow[]>;
+
+// Rules keeping scheduled posts apart (0 / empty = rule off)
+export interface SpacingRules {
+  minPlatformGapMinutes: number; // Between different platforms on the same day
+  minHoursBetweenPosts: number; // Between consecutive posts on the same platform
+  platformOrder: PlatformId[]; // Preferred same-day order, earliest first
+}
+
+// Dates the business is closed or not posting (inclusive YYYY-MM-DD range)
+export interface BlackoutRange {
+  start: string;
+  end: string;
+  label?: string;
+}
+
+// One AI-generated caption option
+export interface CaptionVariant {
+  caption: string;
+  hashtags: string[];
+}
+
+export interface PlatformPost {
+  caption: string;
+  hashtags: string[];
+  scheduledTime: string;
+  timeSource: 'ai' | 'manual';
+  variants?: CaptionVariant[]; // All options from the last multi-variant generation, kept for recall
+}
+
+// One optional content block per platform (e.g. `post.facebook`)
+export type PlatformPosts = Partial<Record<PlatformId, PlatformPost>>;
+
+export interface Post extends PlatformPosts {
+  id: string;
   date: string;
   starterText: string;
   imageAssetId?: string;
   imageUrl?: string;
-
-  facebook?: {
-    caption: string;
-    hashtags: string[];
-    scheduledTime: string;
-    timeSource: 'ai' | 'manual';
-  };
-  instagram?: {
-    caption: string;
-    hashtags: string[];
-    scheduledTime: string;
-    timeSource: 'ai' | 'manual';
-  };
+  seriesId?: string; // Set when created for a recurring series
 
   status: 'draft' | 'generated' | 'edited' | 'exported';
   aiMeta?: {
+    provider?: AIProviderId;
     model: string;
     generatedAt: Timestamp;
     confidence: number;
+    usage?: TokenUsage; // Tokens used, including any repair attempt
+    cost?: number; // Estimated USD
   };
+  // Last caption generation failure; cleared (null) by the next successful generation
+  generationError?: {
+    message: string;
+    failedAt: Timestamp;
+  } | null;
 
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// Tokens consumed by one AI generation
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// AI usage for one calendar month (UTC), written by the server (workspaces/{id}/usage/{YYYY-MM})
+export interface WorkspaceUsage {
+  month: string; // YYYY-MM
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated USD
+  requestLimit: number; // Limits in force when last updated; 0 = unlimited
+  tokenLimit: number;
+  // Per-minute rate limit window
+  windowStart: Timestamp;
+  windowRequests: number;
+  updatedAt: Timestamp;
+}
+
+// One post in a bulk generation job
+export interface GenerationJobItem {
+  postId: string;
+  date: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  attempts: number;
+  error?: string; // Last failure, when status is 'failed'
+}
+
+// Server-side bulk caption generation (workspaces/{id}/generationJobs/{jobId})
+export interface GenerationJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed'; // 'failed' = finished with failed items
+  platforms: PlatformId[];
+  items: Record<string, GenerationJobItem>; // Keyed by post ID
+  authorName?: string;
+  runToken?: string; // One-time token for handing off to the next chunk (server-side)
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  finishedAt?: Timestamp;
+}
+
+// One CSV written by an export
+export interface ExportBatchFile {
+  platform: PlatformId;
+  filename: string;
+  content: string;
+}
+
+// An export's CSV as recorded on the batch; the content is kept in Storage
+export interface ExportBatchFileRecord {
+  platform: PlatformId;
+  filename: string;
+  storagePath: string; // workspaces/{id}/exports/{batchId}/{filename}
+  size: number; // Bytes
+  contentHash: string; // See hashContent in src/lib/exportHistory.ts
+}
+
+// A post as it was exported, for spotting later changes
+export interface ExportedPostSnapshot {
+  date: string;
+  platforms: PlatformId[]; // Platforms the post was exported for
+  contentHash: string; // See hashPostContent in src/lib/exportHistory.ts
+}
+
+// A recorded export, kept for re-download (workspaces/{id}/exports/{batchId})
+export interface ExportBatch {
+  id: string;
+  exporter: ExporterId;
+  platforms: PlatformId[];
+  timezone: string; // Timezone the files' dates and times are written in
+  dateRange: string;
+  postDates: string[]; // YYYY-MM-DD, sorted and unique
+  posts: Record<string, ExportedPostSnapshot>; // Keyed by post ID
+  files: ExportBatchFileRecord[];
+  postCount: number; // Rows across all files
+  contentHash: string; // Hash of the files' content
+  authorName?: string;
+  createdAt: Timestamp;
+}
+
+// Where a change to a platform's content came from
+export type RevisionSource = 'ai' | 'manual';
+
+// Snapshot of one platform's content after a change (posts/{postId}/revisions)
+export interface PostRevision {
+  id: string;
+  platform: PlatformId;
+  caption: string;
+  hashtags: string[];
+  scheduledTime: string;
+  timeSource: PlatformPost['timeSource'];
+  source: RevisionSource;
+  authorId: string;
+  authorName?: string;
+  restoredFrom?: string; // Revision ID, when the change was a restore
+  createdAt: Timestamp;
+}
+
 export interface Asset {
   id: string;
   storagePath: string;
@@ -40,6 +186,67 @@ export interface Asset {
   createdAt: Timestamp;
 }
 
+// A generated schedule that was applied, kept so it can be reproduced
+export interface SchedulePlan {
+  id: string;
+  seed: number;
+  startDate: string;
+  endDate: string;
+  postsPerWeek: number;
+  platforms: PlatformId[];
+  postCount: number;
+  createdAt: Timestamp;
+}
+
+// When a recurring series repeats (dayOfWeek: 0 = Sunday, ..., 6 = Saturday)
+export type RecurrenceRule =
+  | { frequency: 'weekly'; dayOfWeek: number; interval: number } // Every `interval` weeks from the series start
+  | { frequency: 'monthlyWeekday'; dayOfWeek: number; weekOfMonth: number } // 1-4, or -1 for the last
+  | { frequency: 'monthlyDate'; dayOfMonth: number }; // Skipped in months without that day
+
+// A recurring content feature (e.g. "Taco Tuesday") reserved in generated schedules
+export interface ContentSeries {
+  id: string;
+  name: string;
+  rule: RecurrenceRule;
+  starterText: string; // Template; see fillStarterTemplate in src/lib/recurrence.ts
+  imageAssetId?: string;
+  imageUrl?: string;
+  startDate: string; // First date the series may run (YYYY-MM-DD)
+  endDate?: string; // Last date, if the series ends
+  active: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// When an observance falls each year (month: 1 = January)
+export type ObservanceDate =
+  | { type: 'fixed'; month: number; day: number }
+  | { type: 'nthWeekday'; month: number; dayOfWeek: number; weekOfMonth: number; offsetDays?: number } // weekOfMonth -1 = last
+  | { type: 'easter'; offsetDays: number };
+
+// A holiday or food observance (bundled in src/lib/observances.ts, or workspace-defined)
+export interface Observance {
+  id: string;
+  name: string;
+  category: 'holiday' | 'food' | 'custom';
+  date: ObservanceDate;
+  starterText?: string; // Suggested starter text for posts on the day
+}
+
+// Brand rules for caption generation; lists may be empty
+export interface BrandProfile {
+  samplePosts: string[]; // Posts we love, used as tone examples
+  bannedPhrases: string[]; // Words or phrases captions must not contain
+  requiredHashtags: string[]; // Included on every platform that uses hashtags
+  bannedHashtags: string[];
+  signOffs: string[]; // Signature endings, one is used where it fits
+  defaultCta: string;
+  address: string;
+  phone: string;
+  website: string;
+}
+
 export interface WorkspaceSettings {
   name: string;
   settings: {
@@ -47,10 +254,31 @@ export interface WorkspaceSettings {
       brandVoice: string;
       hashtagStyle: 'minimal' | 'moderate' | 'heavy';
       emojiStyle: 'low' | 'medium' | 'high';
+      provider?: AIProviderId; // Defaults to the server's AI_PROVIDER
+      model?: string; // Defaults to the provider's configured model
+      variantCount?: number; // Caption options generated per platform, 1-5 (default 1)
     };
     scheduling: {
       timezone: string;
+      maxPostsPerDay?: number; // Per platform; defaults to 1
+      postingWindows?: Partial<Record<PlatformId, Partial<WeeklyWindows>>>; // Overrides registry windows
+      dayPriorities?: Partial<Record<number, number>>; // Day of week -> rank, 1 = best
+      blackoutDates?: BlackoutRange[]; // Holidays, private events, etc.
+      closedDays?: number[]; // Days of week the business is closed (0 = Sunday)
+      spacing?: Partial<SpacingRules>;
     };
+    brand?: BrandProfile;
+    enabledPlatforms?: PlatformId[]; // Defaults to Facebook and Instagram
+    customObservances?: Observance[]; // Added to the bundled holiday dataset
+  };
+  // Secret token for the calendar subscription URL (/api/calendar/{id}?token=...)
+  calendarFeed?: {
+    token: string;
+    createdAt: Timestamp;
+  };
+  migrations?: {
+    postIds?: boolean;
+    postIdsClaimedAt?: Timestamp; // Set by the client running the migration
   };
 }
 
@@ -5,6 +5,8 @@ const config: Config = {
     './src/pages/**/*.{js,ts,jsx,tsx,mdx}',
     './src/components/**/*.{js,ts,jsx,tsx,mdx}',
     './src/app/**/*.{js,ts,jsx,tsx,mdx}',
+    // Platform registry holds per-platform color classes
+    './src/lib/**/*.{js,ts}',
   ],
   darkMode: 'class',
   theme: {
@@ -27,6 +29,12 @@ const config: Config = {
         facebook: '#1877F2',
         // Instagram pink/magenta
         instagram: '#E1306C',
+        // LinkedIn blue
+        linkedin: '#0A66C2',
+        // Threads black
+        threads: '#101010',
+        // Google Business Profile green
+        'google-business': '#34A853',
       },
       fontFamily: {
         sans: ['Inter', 'system-ui', '-apple-system', 'sans-serif'],